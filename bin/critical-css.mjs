@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI in src/cli through tsx. The repo's tsconfig is
+// named explicitly so `@/` imports resolve from any working directory; tsx's
+// CommonJS loader only reads it from the environment.
+
+import { fileURLToPath } from 'node:url';
+
+// tsx is a dev dependency: the CLI runs from a checkout with them installed.
+const tsx = await import('tsx/esm/api').catch(() => null);
+if (!tsx) {
+  console.error(
+    'critical-css: tsx is not installed. Run `npm install` (with dev dependencies) in this checkout first.'
+  );
+  process.exit(1);
+}
+
+const tsconfig = fileURLToPath(new URL('../tsconfig.json', import.meta.url));
+process.env.TSX_TSCONFIG_PATH = tsconfig;
+
+const { main } = await tsx.tsImport('../src/cli/index.ts', {
+  parentURL: import.meta.url,
+  tsconfig,
+});
+process.exitCode = await main(process.argv.slice(2));
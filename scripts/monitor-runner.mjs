@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+// Local job runner for scheduled monitors: calls the app's job route every
+// minute so due monitors are re-extracted. Pass --once for a single tick.
+//
+//   MONITOR_APP_URL      app to call (default http://localhost:3000)
+//   MONITOR_TICK_MS      time between ticks (default 60000)
+//   MONITOR_CRON_SECRET  sent as a bearer token; MONITOR_API_TOKEN is used
+//                        when it is not set
+
+const appUrl = (process.env.MONITOR_APP_URL || 'http://localhost:3000').replace(
+  /\/+$/,
+  ''
+);
+const tickMs = Number(process.env.MONITOR_TICK_MS) || 60 * 1000;
+// The job route gives up after five minutes; wait a little longer than that.
+const requestTimeoutMs = 6 * 60 * 1000;
+const once = process.argv.includes('--once');
+
+function log(message) {
+  console.log(`[${new Date().toISOString()}] ${message}`);
+}
+
+async function tick() {
+  const headers = {};
+  const secret =
+    process.env.MONITOR_CRON_SECRET || process.env.MONITOR_API_TOKEN;
+  if (secret) headers.Authorization = `Bearer ${secret}`;
+  try {
+    const response = await fetch(`${appUrl}/api/monitors/run`, {
+      method: 'POST',
+      headers,
+      signal: AbortSignal.timeout(requestTimeoutMs),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      log(`Job route responded ${response.status}: ${body?.message ?? ''}`);
+      return null;
+    }
+    for (const run of body.runs) {
+      const detail =
+        run.status === 'ok'
+          ? `${run.change}, ${run.size} B`
+          : `failed: ${run.error}`;
+      const alert = run.alert
+        ? `, alert ${run.alert.reasons.join('+')} ${run.alert.delivered ? 'delivered' : `not delivered (${run.alert.error})`}`
+        : '';
+      log(`Monitor ${run.monitorId}: ${detail}${alert}`);
+    }
+    if (body.ran === 0) log('No monitors due');
+    if (body.remaining > 0) log(`${body.remaining} due monitor(s) left`);
+    return { remaining: body.remaining ?? 0 };
+  } catch (err) {
+    log(
+      err.name === 'TimeoutError'
+        ? `Job route did not answer within ${requestTimeoutMs / 1000}s`
+        : `Could not reach ${appUrl}: ${err.message}`
+    );
+    return null;
+  }
+}
+
+if (once) {
+  process.exitCode = (await tick()) ? 0 : 1;
+} else {
+  log(`Running due monitors on ${appUrl} every ${tickMs / 1000}s`);
+  // Ticks never overlap: the next one is scheduled after the last finishes,
+  // right away when due monitors were left over.
+  const loop = async () => {
+    const result = await tick();
+    setTimeout(loop, result?.remaining > 0 ? 0 : tickMs);
+  };
+  loop();
+}
@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+// Local HTTP receiver for testing monitor webhooks: prints every request it
+// gets and answers 200, or the status given with --status.
+//
+//   node scripts/webhook-receiver.mjs [--port 4000] [--status 500]
+//
+// With MONITOR_WEBHOOK_SECRET set, it also checks X-Webhook-Signature.
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+
+function argument(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? fallback : Number(process.argv[index + 1]);
+}
+
+const port = argument('port', Number(process.env.PORT) || 4000);
+const status = argument('status', 200);
+const secret = process.env.MONITOR_WEBHOOK_SECRET;
+
+function checkSignature(header, body) {
+  if (!secret) return 'not checked';
+  const expected = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  const valid =
+    typeof header === 'string' &&
+    header.length === expected.length &&
+    timingSafeEqual(Buffer.from(header), Buffer.from(expected));
+  return valid ? 'valid' : 'INVALID';
+}
+
+const server = createServer((request, response) => {
+  const chunks = [];
+  request.on('data', (chunk) => chunks.push(chunk));
+  request.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    console.log(
+      `\n[${new Date().toISOString()}] ${request.method} ${request.url}`
+    );
+    console.log(`Event: ${request.headers['x-webhook-event'] ?? '-'}`);
+    console.log(
+      `Signature: ${checkSignature(request.headers['x-webhook-signature'], body)}`
+    );
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ received: true }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(
+    `Webhook receiver listening on http://localhost:${port}, answering ${status}`
+  );
+});
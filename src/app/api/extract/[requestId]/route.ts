@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getBackendConfig, proxyCancel } from '@/lib/backend-proxy';
+import { cancelMockRun, isMockBackendEnabled } from '@/lib/mock-backend';
+
+export const dynamic = 'force-dynamic';
+
+/** Cancels a running extraction on the backend or in the mock. */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { requestId: string } }
+) {
+  const backend = getBackendConfig();
+  if (backend) return proxyCancel(backend, params.requestId);
+
+  if (!isMockBackendEnabled()) {
+    return NextResponse.json(
+      { success: false, message: 'No extraction backend is configured' },
+      { status: 501 }
+    );
+  }
+  return cancelMockRun(params.requestId)
+    ? new Response(null, { status: 204 })
+    : NextResponse.json(
+        { success: false, message: 'No running extraction with that id' },
+        { status: 404 }
+      );
+}
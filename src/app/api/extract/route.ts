@@ -0,0 +1,165 @@
+import { NextResponse } from 'next/server';
+import { getBackendConfig, proxyExtraction } from '@/lib/backend-proxy';
+import {
+  getMockFailure,
+  isMockBackendEnabled,
+  MockBackendError,
+  registerMockRun,
+  resolveMockSettings,
+  runMockExtraction,
+  type MockStreamMessage,
+} from '@/lib/mock-backend';
+import { getClientIp } from '@/lib/client-ip';
+import { getExtractionRateLimiter, rateLimitHeaders } from '@/lib/rate-limit';
+import {
+  assertPublicTarget,
+  parseExtractRequest,
+  RequestGuardError,
+} from '@/lib/request-guard';
+import type { ExtractRequest } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+// DNS lookups for the SSRF check need the Node.js runtime.
+export const runtime = 'nodejs';
+
+function errorResponse(
+  message: string,
+  status: number,
+  headers?: Record<string, string>
+) {
+  return NextResponse.json({ success: false, message }, { status, headers });
+}
+
+function encodeMessage(message: MockStreamMessage, format: 'ndjson' | 'sse') {
+  const text =
+    format === 'sse'
+      ? `event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`
+      : `${JSON.stringify(message)}\n`;
+  return new TextEncoder().encode(text);
+}
+
+/**
+ * Single entry point for extractions from the browser. Requests are rate
+ * limited per client when `RATE_LIMIT_PER_MINUTE` is set and their target
+ * URL is normalized, then forwarded to the backend at `BACKEND_URL` with its
+ * API key, or answered by the mock backend when none is configured.
+ */
+export async function POST(request: Request) {
+  const limit = getExtractionRateLimiter()?.(getClientIp(request.headers));
+  if (limit && !limit.allowed) {
+    return errorResponse(
+      `Too many extractions; try again in ${limit.resetIn}s`,
+      429,
+      rateLimitHeaders(limit)
+    );
+  }
+
+  let body: ExtractRequest;
+  try {
+    body = parseExtractRequest(await request.json());
+  } catch (err) {
+    return err instanceof RequestGuardError
+      ? errorResponse(err.message, err.status)
+      : errorResponse('Request body must be valid JSON', 400);
+  }
+
+  const backend = getBackendConfig();
+  if (backend) {
+    try {
+      await assertPublicTarget(body.url);
+    } catch (err) {
+      if (err instanceof RequestGuardError) {
+        return errorResponse(err.message, err.status);
+      }
+      throw err;
+    }
+    return proxyExtraction(
+      backend,
+      body,
+      request.headers.get('accept'),
+      request.signal
+    );
+  }
+
+  if (isMockBackendEnabled()) return mockExtraction(request, body);
+
+  return errorResponse('No extraction backend is configured', 501);
+}
+
+/**
+ * Local stand-in for the extraction backend, answering the same contract
+ * from recorded fixtures. See `resolveMockSettings` for picking a scenario.
+ */
+async function mockExtraction(request: Request, body: ExtractRequest) {
+  const settings = resolveMockSettings(request.headers, body);
+  const failure = getMockFailure(settings.scenario);
+  if (failure?.beforeStart) {
+    return errorResponse(failure.message, failure.status);
+  }
+
+  const accept = request.headers.get('accept') ?? '';
+  const format = accept.includes('application/x-ndjson')
+    ? 'ndjson'
+    : accept.includes('text/event-stream')
+      ? 'sse'
+      : null;
+
+  const run = registerMockRun(body.requestId);
+  request.signal.addEventListener('abort', run.abort);
+
+  if (!format) {
+    try {
+      return NextResponse.json(
+        await runMockExtraction(body, settings, run.signal)
+      );
+    } catch (err) {
+      return err instanceof MockBackendError
+        ? errorResponse(err.message, err.status)
+        : errorResponse('Mock extraction failed', 500);
+    } finally {
+      run.release();
+    }
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (message: MockStreamMessage) =>
+        controller.enqueue(encodeMessage(message, format));
+      try {
+        const result = await runMockExtraction(
+          body,
+          settings,
+          run.signal,
+          send
+        );
+        send({ type: 'result', result });
+      } catch (err) {
+        if (!run.signal.aborted) {
+          send({
+            type: 'error',
+            message:
+              err instanceof Error ? err.message : 'Mock extraction failed',
+          });
+        }
+      } finally {
+        run.release();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a client disconnect.
+        }
+      }
+    },
+    cancel() {
+      run.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type':
+        format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
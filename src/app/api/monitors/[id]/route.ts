@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { publicMonitor } from '@/lib/monitor';
+import { requireMonitorToken } from '@/lib/monitor-auth';
+import {
+  deleteMonitor,
+  getMonitor,
+  listRuns,
+  parseMonitorInput,
+  updateMonitor,
+} from '@/lib/monitor-store';
+import { RequestGuardError } from '@/lib/request-guard';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface Params {
+  params: { id: string };
+}
+
+function notFound() {
+  return NextResponse.json(
+    { success: false, message: 'No monitor with that id' },
+    { status: 404 }
+  );
+}
+
+/** The monitor and its timeline, newest run first. */
+export async function GET(request: Request, { params }: Params) {
+  const denied = requireMonitorToken(request);
+  if (denied) return denied;
+  const monitor = await getMonitor(params.id);
+  if (!monitor) return notFound();
+  return NextResponse.json({
+    success: true,
+    monitor: publicMonitor(monitor),
+    runs: await listRuns(monitor.id),
+  });
+}
+
+/** Edits a monitor, e.g. pausing it with `{ "enabled": false }`. */
+export async function PATCH(request: Request, { params }: Params) {
+  const denied = requireMonitorToken(request);
+  if (denied) return denied;
+
+  let changes;
+  try {
+    changes = parseMonitorInput(await request.json(), true);
+  } catch (err) {
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          err instanceof RequestGuardError
+            ? err.message
+            : 'Request body must be valid JSON',
+      },
+      { status: err instanceof RequestGuardError ? err.status : 400 }
+    );
+  }
+
+  const monitor = await updateMonitor(params.id, changes);
+  return monitor
+    ? NextResponse.json({ success: true, monitor: publicMonitor(monitor) })
+    : notFound();
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const denied = requireMonitorToken(request);
+  if (denied) return denied;
+  return (await deleteMonitor(params.id))
+    ? new Response(null, { status: 204 })
+    : notFound();
+}
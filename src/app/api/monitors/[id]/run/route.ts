@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { requireMonitorToken } from '@/lib/monitor-auth';
+import { runMonitor } from '@/lib/monitor-runner';
+import { getMonitor } from '@/lib/monitor-store';
+import { createRateLimiter, rateLimitHeaders } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/client-ip';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Manual runs spend the same backend time as extractions from the form.
+const checkRateLimit = createRateLimiter(
+  Number(process.env.RATE_LIMIT_PER_MINUTE) || 10,
+  60 * 1000
+);
+
+/** Runs a monitor now, outside its schedule, and returns the new run. */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = requireMonitorToken(request);
+  if (denied) return denied;
+
+  const limit = checkRateLimit(getClientIp(request.headers));
+  if (!limit.allowed) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: `Too many runs; try again in ${limit.resetIn}s`,
+      },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  const monitor = await getMonitor(params.id);
+  if (!monitor) {
+    return NextResponse.json(
+      { success: false, message: 'No monitor with that id' },
+      { status: 404 }
+    );
+  }
+  const run = await runMonitor(monitor);
+  if (!run) {
+    return NextResponse.json(
+      { success: false, message: 'The monitor is already running' },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json({ success: true, run });
+}
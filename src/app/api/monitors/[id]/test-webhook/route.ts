@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { requireMonitorToken } from '@/lib/monitor-auth';
+import { sendTestWebhook } from '@/lib/monitor-runner';
+import { getMonitor } from '@/lib/monitor-store';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Sends a `critical-css.test` event to the monitor's webhook. */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = requireMonitorToken(request);
+  if (denied) return denied;
+  const monitor = await getMonitor(params.id);
+  if (!monitor) {
+    return NextResponse.json(
+      { success: false, message: 'No monitor with that id' },
+      { status: 404 }
+    );
+  }
+  const delivery = await sendTestWebhook(monitor);
+  return NextResponse.json(
+    delivery.delivered
+      ? { success: true, ...delivery }
+      : {
+          success: false,
+          message: delivery.error ?? 'Webhook was not delivered',
+          ...delivery,
+        },
+    { status: delivery.delivered ? 200 : 502 }
+  );
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { publicMonitor, type MonitorInput } from '@/lib/monitor';
+import { requireMonitorToken } from '@/lib/monitor-auth';
+import {
+  createMonitor,
+  listMonitors,
+  listRuns,
+  parseMonitorInput,
+} from '@/lib/monitor-store';
+import { createRateLimiter, rateLimitHeaders } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/client-ip';
+import { RequestGuardError } from '@/lib/request-guard';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const checkRateLimit = createRateLimiter(20, 60 * 60 * 1000);
+
+/** Every monitor with its most recent run. */
+export async function GET(request: Request) {
+  const denied = requireMonitorToken(request);
+  if (denied) return denied;
+  const monitors = await listMonitors();
+  const latest = await Promise.all(
+    monitors.map(async (monitor) => (await listRuns(monitor.id))[0] ?? null)
+  );
+  return NextResponse.json({
+    success: true,
+    monitors: monitors.map((monitor, i) => ({
+      ...publicMonitor(monitor),
+      lastRun: latest[i],
+    })),
+  });
+}
+
+/** Registers a monitor; its first run records the baseline. */
+export async function POST(request: Request) {
+  const denied = requireMonitorToken(request);
+  if (denied) return denied;
+
+  const limit = checkRateLimit(getClientIp(request.headers));
+  if (!limit.allowed) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: `Too many monitors created; try again in ${limit.resetIn}s`,
+      },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  let input: MonitorInput;
+  try {
+    input = parseMonitorInput(await request.json(), false) as MonitorInput;
+  } catch (err) {
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          err instanceof RequestGuardError
+            ? err.message
+            : 'Request body must be valid JSON',
+      },
+      { status: err instanceof RequestGuardError ? err.status : 400 }
+    );
+  }
+
+  const monitor = await createMonitor(input);
+  return NextResponse.json(
+    { success: true, monitor: publicMonitor(monitor) },
+    { status: 201 }
+  );
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { requireMonitorToken } from '@/lib/monitor-auth';
+import { runDueMonitors } from '@/lib/monitor-runner';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+// A tick runs due monitors one after another within its time budget.
+export const maxDuration = 300;
+
+/**
+ * Job endpoint for the scheduler: runs the monitors that are due, as many as
+ * fit in one tick; `remaining` counts those left for the next call. Called
+ * every minute by `npm run monitor` or a cron service with the cron secret
+ * or API token; GET is accepted for cron services that cannot send a POST.
+ */
+async function handle(request: Request) {
+  const denied = requireMonitorToken(request, { cron: true });
+  if (denied) return denied;
+  return NextResponse.json({ success: true, ...(await runDueMonitors()) });
+}
+
+export const GET = handle;
+export const POST = handle;
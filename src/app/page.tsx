@@ -1,10 +1,30 @@
 'use client';
 
 import ExtractorForm from '@/components/ExtractorForm';
+import BatchExtractor from '@/components/BatchExtractor';
+import DiffView from '@/components/DiffView';
+import MonitorPanel from '@/components/MonitorPanel';
 import { ThemeToggle } from '@/components/theme-toggle';
-import { Sparkles, Zap, Target, Gauge } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { parsePermalink } from '@/lib/permalink';
+import {
+  Sparkles,
+  Zap,
+  Target,
+  Gauge,
+  Link as LinkIcon,
+  ListChecks,
+  GitCompare,
+  Activity,
+} from 'lucide-react';
+
+interface HomeProps {
+  searchParams: Record<string, string | string[] | undefined>;
+}
+
+export default function Home({ searchParams }: HomeProps) {
+  const permalink = parsePermalink(searchParams);
 
-export default function Home() {
   return (
     <div className="min-h-screen bg-background relative">
       <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-primary/5 via-transparent to-transparent pointer-events-none" />
@@ -96,7 +116,38 @@ export default function Home() {
             className="animate-slide-up"
             style={{ animationDelay: '0.2s' }}
           >
-            <ExtractorForm />
+            <Tabs defaultValue="single" className="w-full">
+              <TabsList className="grid w-full max-w-lg mx-auto grid-cols-4 h-11 mb-6">
+                <TabsTrigger value="single" className="h-9">
+                  <LinkIcon className="w-4 h-4 mr-2" />
+                  Single URL
+                </TabsTrigger>
+                <TabsTrigger value="batch" className="h-9">
+                  <ListChecks className="w-4 h-4 mr-2" />
+                  Batch
+                </TabsTrigger>
+                <TabsTrigger value="compare" className="h-9">
+                  <GitCompare className="w-4 h-4 mr-2" />
+                  Compare
+                </TabsTrigger>
+                <TabsTrigger value="monitor" className="h-9">
+                  <Activity className="w-4 h-4 mr-2" />
+                  Monitor
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="single">
+                <ExtractorForm permalink={permalink} />
+              </TabsContent>
+              <TabsContent value="batch">
+                <BatchExtractor />
+              </TabsContent>
+              <TabsContent value="compare">
+                <DiffView />
+              </TabsContent>
+              <TabsContent value="monitor">
+                <MonitorPanel />
+              </TabsContent>
+            </Tabs>
           </section>
         </div>
       </main>
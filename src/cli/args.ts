@@ -0,0 +1,240 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { parseUrlList } from '@/lib/batch';
+import {
+  DEFAULT_BUDGETS,
+  type SizeBudgets,
+  type SizeMetric,
+} from '@/lib/budgets';
+import { DEFAULT_MARKER } from '@/lib/html-inject';
+import { DEFAULT_EXTRACTION_OPTIONS, validateOptions } from '@/lib/options';
+import type { CustomViewport, ExtractRequest, Viewport } from '@/lib/types';
+
+export const USAGE = `Usage: critical-css [options] <url...>
+
+Extracts critical CSS through the app's /api/extract route, writes one CSS
+file per page and viewport, and prints a JSON summary to stdout.
+
+Input:
+  --urls-file <path>        Read URLs from a list, CSV or sitemap.xml
+  --base-url <url>          App serving /api/extract (default: $CRITICAL_CSS_URL
+                            or http://localhost:3000)
+
+Extraction:
+  --viewport <name>         mobile, desktop or both (default: both)
+  --viewport-size <spec>    Custom viewport as name=WIDTHxHEIGHT[@DPR];
+                            repeatable, replaces --viewport
+  --include <selector>      Always keep this selector; repeatable
+  --exclude <pattern>       Never keep this selector or /regex/; repeatable
+  --fold <multiplier>       Fold position as a multiple of the viewport height
+  --no-font-face            Drop @font-face rules
+  --include-shadows         Keep box-shadow declarations
+  --timeout <seconds>       Per-page time limit (default: 120)
+  --concurrency <n>         Pages extracted at once (default: 3)
+
+Output:
+  --out-dir <dir>           Directory for the CSS files (default: critical-css)
+  --html <file>             Inject the CSS into this built HTML file between
+                            <!-- critical-css:start --> and
+                            <!-- critical-css:end -->; give it once per URL,
+                            in the same order
+  --marker <name>           Marker comment name (default: critical-css)
+
+Budgets:
+  --budget <size>           Limit per viewport and combined output, e.g. 14kb;
+                            0 disables (default: 14kb)
+  --budget-combined <size>  Limit for the combined output only
+  --budget-metric <metric>  raw, gzip or brotli (default: raw)
+
+  --quiet                   Only print the JSON summary
+  -h, --help                Show this help
+
+Exit codes: 0 when every page passes, 1 when a page has validation errors or
+exceeds a budget, 2 when an extraction, a file write or the arguments fail.`;
+
+/** Invalid command-line input; printed with a pointer to `--help`. */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export interface CliConfig {
+  urls: string[];
+  baseUrl: string;
+  request: Omit<ExtractRequest, 'url'>;
+  outDir: string;
+  /** HTML files to inject into, matched to `urls` by position. */
+  htmlFiles: string[];
+  marker: string;
+  budgets: SizeBudgets;
+  /** Per-page time limit in ms. */
+  timeout: number;
+  concurrency: number;
+  quiet: boolean;
+}
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 * 1024 };
+
+/** Parses `14kb`, `1.5 KB` or a plain byte count. */
+export function parseSize(value: string, flag: string) {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb)?$/i);
+  if (!match) {
+    throw new UsageError(`${flag} must be a size such as 14kb, got "${value}"`);
+  }
+  return Math.round(
+    Number(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()]
+  );
+}
+
+function parseNumber(value: string, flag: string, min: number) {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min) {
+    throw new UsageError(`${flag} must be a number of at least ${min}`);
+  }
+  return number;
+}
+
+function parseViewportSize(spec: string): CustomViewport {
+  const match = spec.match(/^([^=]+)=(\d+)x(\d+)(?:@(\d+(?:\.\d+)?))?$/i);
+  if (!match) {
+    throw new UsageError(
+      `--viewport-size must look like tablet=768x1024@2, got "${spec}"`
+    );
+  }
+  return {
+    name: match[1].trim(),
+    width: Number(match[2]),
+    height: Number(match[3]),
+    deviceScaleFactor: match[4] ? Number(match[4]) : 1,
+  };
+}
+
+function normalizeBaseUrl(value: string) {
+  let url: URL | null = null;
+  try {
+    url = new URL(value);
+  } catch {
+    // Reported below.
+  }
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    throw new UsageError(`--base-url must be an http(s) URL, got "${value}"`);
+  }
+  return url.toString().replace(/\/+$/, '');
+}
+
+/** Reads the flags and URL file into a config; `null` means `--help`. */
+export async function parseCliArgs(argv: string[]): Promise<CliConfig | null> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'urls-file': { type: 'string' },
+        'base-url': { type: 'string' },
+        viewport: { type: 'string', default: 'both' },
+        'viewport-size': { type: 'string', multiple: true, default: [] },
+        include: { type: 'string', multiple: true, default: [] },
+        exclude: { type: 'string', multiple: true, default: [] },
+        fold: { type: 'string' },
+        'no-font-face': { type: 'boolean', default: false },
+        'include-shadows': { type: 'boolean', default: false },
+        timeout: { type: 'string', default: '120' },
+        concurrency: { type: 'string', default: '3' },
+        'out-dir': { type: 'string', default: 'critical-css' },
+        html: { type: 'string', multiple: true, default: [] },
+        marker: { type: 'string', default: DEFAULT_MARKER },
+        budget: { type: 'string' },
+        'budget-combined': { type: 'string' },
+        'budget-metric': { type: 'string', default: DEFAULT_BUDGETS.metric },
+        quiet: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+
+  const invalid = positionals.find((arg) => parseUrlList(arg).length === 0);
+  if (invalid) {
+    throw new UsageError(`"${invalid}" is not an absolute http(s) URL`);
+  }
+  const urls = parseUrlList(positionals.join('\n'));
+  if (values['urls-file']) {
+    let text: string;
+    try {
+      text = await readFile(values['urls-file'], 'utf8');
+    } catch {
+      throw new UsageError(`Could not read ${values['urls-file']}`);
+    }
+    urls.push(...parseUrlList(text).filter((url) => !urls.includes(url)));
+  }
+  if (urls.length === 0) throw new UsageError('No URLs to extract');
+
+  if (!['mobile', 'desktop', 'both'].includes(values.viewport)) {
+    throw new UsageError('--viewport must be mobile, desktop or both');
+  }
+  const options = {
+    ...DEFAULT_EXTRACTION_OPTIONS,
+    viewports: values['viewport-size'].map(parseViewportSize),
+    forceInclude: values.include,
+    forceExclude: values.exclude,
+    foldMultiplier: values.fold
+      ? parseNumber(values.fold, '--fold', 0)
+      : DEFAULT_EXTRACTION_OPTIONS.foldMultiplier,
+    keepFontFace: !values['no-font-face'],
+  };
+  const optionErrors = validateOptions(options);
+  if (optionErrors.length > 0) throw new UsageError(optionErrors[0]);
+
+  if (values.html.length > 0 && values.html.length !== urls.length) {
+    throw new UsageError(
+      `--html was given ${values.html.length} times for ${urls.length} URLs; give it once per URL`
+    );
+  }
+  if (!/^[\w-]+$/.test(values.marker)) {
+    throw new UsageError('--marker may only contain letters, digits, _ and -');
+  }
+
+  const metric = values['budget-metric'] as SizeMetric;
+  if (!['raw', 'gzip', 'brotli'].includes(metric)) {
+    throw new UsageError('--budget-metric must be raw, gzip or brotli');
+  }
+  const limit = values.budget
+    ? parseSize(values.budget, '--budget')
+    : DEFAULT_BUDGETS.viewport;
+
+  return {
+    urls,
+    baseUrl: normalizeBaseUrl(
+      values['base-url'] ??
+        process.env.CRITICAL_CSS_URL ??
+        'http://localhost:3000'
+    ),
+    request: {
+      viewport: values.viewport as Viewport,
+      includeShadows: values['include-shadows'],
+      options,
+    },
+    outDir: values['out-dir'],
+    htmlFiles: values.html,
+    marker: values.marker,
+    budgets: {
+      ...DEFAULT_BUDGETS,
+      metric,
+      viewport: limit,
+      combined: values['budget-combined']
+        ? parseSize(values['budget-combined'], '--budget-combined')
+        : limit,
+    },
+    timeout: parseNumber(values.timeout, '--timeout', 1) * 1000,
+    concurrency: Math.floor(
+      parseNumber(values.concurrency, '--concurrency', 1)
+    ),
+    quiet: values.quiet,
+  };
+}
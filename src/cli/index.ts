@@ -0,0 +1,205 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { brotliCompressSync, constants } from 'node:zlib';
+import { parseCliArgs, USAGE, UsageError, type CliConfig } from '@/cli/args';
+import { extractCriticalCss } from '@/lib/api';
+import { runWithConcurrency, uniqueSlugs } from '@/lib/batch';
+import {
+  evaluateBudgets,
+  withBudgetValidation,
+  type BudgetStatus,
+  type SizeMetric,
+} from '@/lib/budgets';
+import { injectBetweenMarkers } from '@/lib/html-inject';
+import { STAGE_LABELS } from '@/lib/progress';
+import { getCssOutputs } from '@/lib/results';
+import { getCriticalCss } from '@/lib/snippet';
+import { formatBytes, formatTime } from '@/lib/utils';
+
+export const EXIT_OK = 0;
+/** A page has validation errors or exceeds a budget. */
+export const EXIT_INVALID = 1;
+/** An extraction, file write or the arguments failed. */
+export const EXIT_FAILED = 2;
+
+export interface PageSummary {
+  url: string;
+  status: 'ok' | 'invalid' | 'failed';
+  files: { viewport: string; path: string; size: number }[];
+  budgets: {
+    viewport: string;
+    metric: SizeMetric;
+    size: number;
+    limit: number;
+    status: BudgetStatus;
+  }[];
+  errors: string[];
+  warnings: string[];
+  /** The HTML file the CSS was injected into. */
+  injected?: string;
+  processingTime?: number;
+  /** Why the page failed, when `status` is `failed`. */
+  error?: string;
+}
+
+export interface RunSummary {
+  success: boolean;
+  exitCode: number;
+  baseUrl: string;
+  pages: PageSummary[];
+}
+
+/** The browser's brotli-wasm build cannot load its wasm file in Node. */
+function brotli(bytes: Uint8Array) {
+  return brotliCompressSync(bytes, {
+    params: { [constants.BROTLI_PARAM_QUALITY]: 11 },
+  });
+}
+
+/** Progress goes to stderr so stdout stays machine-readable. */
+function createLogger(quiet: boolean) {
+  return (message: string) => {
+    if (!quiet) process.stderr.write(`${message}\n`);
+  };
+}
+
+async function extractPage(
+  url: string,
+  slug: string,
+  htmlFile: string | undefined,
+  config: CliConfig,
+  log: (message: string) => void
+): Promise<PageSummary> {
+  const page: PageSummary = {
+    url,
+    status: 'ok',
+    files: [],
+    budgets: [],
+    errors: [],
+    warnings: [],
+  };
+
+  try {
+    const extracted = await extractCriticalCss(
+      { ...config.request, url },
+      {
+        baseUrl: config.baseUrl,
+        timeout: config.timeout,
+        onProgress: (event) => {
+          if (event.status !== 'start') return;
+          const viewport = event.viewport ? ` (${event.viewport})` : '';
+          log(`  ${url}: ${STAGE_LABELS[event.stage]}${viewport}`);
+        },
+        onRetry: (attempt, delay, error) =>
+          log(
+            `  ${url}: ${error.message}; retry ${attempt} in ${formatTime(delay)}`
+          ),
+      }
+    );
+    if (!extracted.success) {
+      // Nothing usable came back: no CSS is written or injected.
+      page.status = 'failed';
+      page.errors = extracted.validation?.errors ?? [];
+      page.warnings = extracted.validation?.warnings ?? [];
+      page.error = page.errors[0] ?? 'Extraction was not successful';
+      log(`✗ ${url} failed: ${page.error}`);
+      return page;
+    }
+
+    const { metric } = config.budgets;
+    const checks = await evaluateBudgets(extracted, config.budgets, {
+      brotli,
+    });
+    const result = withBudgetValidation(extracted, checks, metric);
+    page.processingTime = result.processingTime;
+    page.errors = result.validation?.errors ?? [];
+    page.warnings = result.validation?.warnings ?? [];
+    page.budgets = checks.map((check) => ({
+      viewport: check.key,
+      metric,
+      size: check.sizes[metric],
+      limit: check.limit,
+      status: check.status,
+    }));
+    if (page.errors.length > 0) page.status = 'invalid';
+
+    await mkdir(config.outDir, { recursive: true });
+    for (const { key, css, size } of getCssOutputs(result)) {
+      const file = path.join(config.outDir, `critical-${slug}-${key}.css`);
+      await writeFile(file, css);
+      page.files.push({ viewport: key, path: file, size });
+    }
+
+    if (htmlFile) {
+      const html = await readFile(htmlFile, 'utf8');
+      await writeFile(
+        htmlFile,
+        injectBetweenMarkers(html, getCriticalCss(result), config.marker)
+      );
+      page.injected = htmlFile;
+    }
+
+    const size = page.files[0]?.size ?? 0;
+    log(
+      `${page.status === 'ok' ? '✓' : '✗'} ${url} ${formatBytes(size)}` +
+        page.errors.map((error) => `\n    ${error}`).join('')
+    );
+  } catch (err) {
+    page.status = 'failed';
+    page.error = err instanceof Error ? err.message : 'Extraction failed';
+    log(`✗ ${url} failed: ${page.error}`);
+  }
+  return page;
+}
+
+/** Extracts every configured page and summarizes the outcome. */
+export async function run(config: CliConfig): Promise<RunSummary> {
+  const log = createLogger(config.quiet);
+  log(`Extracting ${config.urls.length} page(s) via ${config.baseUrl}`);
+
+  const pages: PageSummary[] = [];
+  // Named up front so file names do not depend on which page finishes first.
+  const slugs = uniqueSlugs(config.urls);
+  await runWithConcurrency(config.urls, config.concurrency, async (url, i) => {
+    pages[i] = await extractPage(
+      url,
+      slugs[i],
+      config.htmlFiles[i],
+      config,
+      log
+    );
+  });
+
+  const exitCode = pages.some((page) => page.status === 'failed')
+    ? EXIT_FAILED
+    : pages.some((page) => page.status === 'invalid')
+      ? EXIT_INVALID
+      : EXIT_OK;
+  return {
+    success: exitCode === EXIT_OK,
+    exitCode,
+    baseUrl: config.baseUrl,
+    pages,
+  };
+}
+
+/** Entry point for `bin/critical-css.mjs`; resolves with the exit code. */
+export async function main(argv: string[]) {
+  let config: CliConfig | null;
+  try {
+    config = await parseCliArgs(argv);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    process.stderr.write(`critical-css: ${err.message}\n`);
+    process.stderr.write('Run critical-css --help for usage.\n');
+    return EXIT_FAILED;
+  }
+  if (!config) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_OK;
+  }
+
+  const summary = await run(config);
+  process.stdout.write(`${JSON.stringify(summary, null, 2)}\n`);
+  return summary.exitCode;
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { NEW_CUSTOM_VIEWPORT, isDefaultOptions } from '@/lib/options';
+import type { CustomViewport, ExtractionOptions } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface AdvancedOptionsProps {
+  options: ExtractionOptions;
+  onChange: (options: ExtractionOptions) => void;
+  disabled?: boolean;
+  /** Controls the panel from outside; it manages itself when omitted. */
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export default function AdvancedOptions({
+  options,
+  onChange,
+  disabled = false,
+  open: openProp,
+  onOpenChange,
+}: AdvancedOptionsProps) {
+  const [openState, setOpenState] = useState(false);
+  const open = openProp ?? openState;
+  const setOpen = (next: boolean) => {
+    setOpenState(next);
+    onOpenChange?.(next);
+  };
+
+  const update = (patch: Partial<ExtractionOptions>) =>
+    onChange({ ...options, ...patch });
+
+  const updateViewport = (index: number, patch: Partial<CustomViewport>) =>
+    update({
+      viewports: options.viewports.map((vp, i) =>
+        i === index ? { ...vp, ...patch } : vp
+      ),
+    });
+
+  return (
+    <div className="rounded-md border border-border/50 bg-background/50">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-controls="advanced-options"
+        className="flex w-full items-center justify-between h-11 px-3 text-sm font-medium"
+      >
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Advanced options
+          {!isDefaultOptions(options) && (
+            <Badge variant="secondary">customized</Badge>
+          )}
+        </span>
+        <ChevronDown
+          className={cn('w-4 h-4 transition-transform', open && 'rotate-180')}
+        />
+      </button>
+
+      {open && (
+        <div
+          id="advanced-options"
+          className="space-y-6 border-t border-border/50 p-4 animate-scale-in"
+        >
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-sm font-medium">Custom viewports</Label>
+                <p className="text-xs text-muted-foreground">
+                  Replace the 360×640 and 1366×768 presets when set
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  update({
+                    viewports: [
+                      ...options.viewports,
+                      {
+                        ...NEW_CUSTOM_VIEWPORT,
+                        name: `${NEW_CUSTOM_VIEWPORT.name}-${options.viewports.length + 1}`,
+                      },
+                    ],
+                  })
+                }
+                disabled={disabled}
+                className="h-8 px-2"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add viewport
+              </Button>
+            </div>
+            {options.viewports.map((vp, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-[1fr_repeat(3,5rem)_auto] items-center gap-2"
+              >
+                <Input
+                  value={vp.name}
+                  onChange={(e) =>
+                    updateViewport(index, { name: e.target.value })
+                  }
+                  disabled={disabled}
+                  placeholder="Name"
+                  aria-label="Viewport name"
+                  className="h-9 border-border/50"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={vp.width}
+                  onChange={(e) =>
+                    updateViewport(index, { width: Number(e.target.value) })
+                  }
+                  disabled={disabled}
+                  aria-label="Width in pixels"
+                  className="h-9 border-border/50"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={vp.height}
+                  onChange={(e) =>
+                    updateViewport(index, { height: Number(e.target.value) })
+                  }
+                  disabled={disabled}
+                  aria-label="Height in pixels"
+                  className="h-9 border-border/50"
+                />
+                <Input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={vp.deviceScaleFactor}
+                  onChange={(e) =>
+                    updateViewport(index, {
+                      deviceScaleFactor: Number(e.target.value),
+                    })
+                  }
+                  disabled={disabled}
+                  aria-label="Device pixel ratio"
+                  className="h-9 border-border/50"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    update({
+                      viewports: options.viewports.filter(
+                        (_, i) => i !== index
+                      ),
+                    })
+                  }
+                  disabled={disabled}
+                  className="h-9 px-2"
+                  aria-label={`Remove viewport ${vp.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="force-include" className="text-sm font-medium">
+                Force include
+              </Label>
+              <Textarea
+                id="force-include"
+                placeholder={'.cookie-banner\n.nav-menu.is-open'}
+                value={options.forceInclude.join('\n')}
+                onChange={(e) =>
+                  update({ forceInclude: e.target.value.split('\n') })
+                }
+                disabled={disabled}
+                className="min-h-[96px] font-mono text-xs border-border/50"
+              />
+              <p className="text-xs text-muted-foreground">
+                One selector per line, kept even when below the fold
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="force-exclude" className="text-sm font-medium">
+                Always exclude
+              </Label>
+              <Textarea
+                id="force-exclude"
+                placeholder={'.modal\n/^\\.ad-/'}
+                value={options.forceExclude.join('\n')}
+                onChange={(e) =>
+                  update({ forceExclude: e.target.value.split('\n') })
+                }
+                disabled={disabled}
+                className="min-h-[96px] font-mono text-xs border-border/50"
+              />
+              <p className="text-xs text-muted-foreground">
+                One selector or /regex/ per line
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="flex items-center justify-between gap-3 h-11 px-3 rounded-md border border-border/50">
+              <Label htmlFor="fold-multiplier" className="text-sm">
+                Fold offset multiplier
+              </Label>
+              <Input
+                id="fold-multiplier"
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={options.foldMultiplier}
+                onChange={(e) =>
+                  update({ foldMultiplier: Number(e.target.value) })
+                }
+                disabled={disabled}
+                className="h-8 w-20 border-border/50"
+              />
+            </div>
+            <div className="flex items-center gap-3 h-11 px-3 rounded-md border border-border/50">
+              <Switch
+                id="keep-font-face"
+                checked={options.keepFontFace}
+                onCheckedChange={(checked) => update({ keepFontFace: checked })}
+                disabled={disabled}
+              />
+              <Label htmlFor="keep-font-face" className="text-sm">
+                Keep <code>@font-face</code> rules
+              </Label>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
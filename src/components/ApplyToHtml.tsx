@@ -0,0 +1,127 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Download, FileCode, Upload } from 'lucide-react';
+import { applyCriticalCss, type ApplyOptions } from '@/lib/html-inject';
+import type { ExtractionResult } from '@/lib/types';
+import { downloadBlob, formatBytes } from '@/lib/utils';
+
+interface ApplyToHtmlProps {
+  result: ExtractionResult;
+  options: ApplyOptions;
+}
+
+interface SourceFile {
+  name: string;
+  html: string;
+}
+
+export default function ApplyToHtml({ result, options }: ApplyToHtmlProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<SourceFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Recomputed from the original upload, so changing the options above
+  // never stacks one application on another.
+  const applied = useMemo(
+    () => (source ? applyCriticalCss(source.html, result, options) : null),
+    [source, result, options]
+  );
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const html = await file.text();
+      if (!/<(?:html|head|body)\b/i.test(html)) {
+        throw new Error('not an HTML document');
+      }
+      setSource({ name: file.name, html });
+      setError(null);
+    } catch (err) {
+      setSource(null);
+      setError(
+        `${file.name}: ${err instanceof Error ? err.message : 'unreadable file'}`
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border border-border/50 bg-background/50">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <FileCode className="w-4 h-4 text-primary" />
+          <span className="text-sm font-medium">Apply to HTML</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {source ? 'Choose another file' : 'Choose HTML file'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".html,.htm,text/html"
+            onChange={handleUpload}
+            className="hidden"
+          />
+          {source && applied && (
+            <Button
+              type="button"
+              size="sm"
+              onClick={() =>
+                downloadBlob(
+                  new Blob([applied.html], { type: 'text/html' }),
+                  source.name
+                )
+              }
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Inlines the critical CSS at the top of <code>&lt;head&gt;</code> and
+        switches every <code>&lt;link rel=&quot;stylesheet&quot;&gt;</code> to
+        the async loading chosen above. Applying to a file processed before
+        replaces its earlier block.
+      </p>
+
+      {source && applied && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-mono truncate">{source.name}</span>
+          <Badge variant="secondary" className="font-mono">
+            {formatBytes(new Blob([source.html]).size)} →{' '}
+            {formatBytes(new Blob([applied.html]).size)}
+          </Badge>
+          <Badge variant={applied.rewritten > 0 ? 'success' : 'outline'}>
+            {applied.rewritten} stylesheet
+            {applied.rewritten === 1 ? '' : 's'} made async
+          </Badge>
+          {applied.replaced && (
+            <Badge variant="warning">Previous block replaced</Badge>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-destructive/80">
+          <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
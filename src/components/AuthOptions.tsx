@@ -0,0 +1,351 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  ChevronDown,
+  Eye,
+  EyeOff,
+  KeyRound,
+  Plus,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import { hasAuth, maskSecret, mergeCookies, parseCookies } from '@/lib/auth';
+import type { AuthOptions as AuthOptionsValue } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface AuthOptionsProps {
+  auth: AuthOptionsValue;
+  onChange: (auth: AuthOptionsValue) => void;
+  disabled?: boolean;
+}
+
+export default function AuthOptions({
+  auth,
+  onChange,
+  disabled = false,
+}: AuthOptionsProps) {
+  const [open, setOpen] = useState(false);
+  const [reveal, setReveal] = useState(false);
+  const [cookieText, setCookieText] = useState('');
+  const [cookieError, setCookieError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<AuthOptionsValue>) =>
+    onChange({ ...auth, ...patch });
+
+  const updateHeader = (
+    index: number,
+    patch: Partial<AuthOptionsValue['headers'][number]>
+  ) =>
+    update({
+      headers: auth.headers.map((h, i) =>
+        i === index ? { ...h, ...patch } : h
+      ),
+    });
+
+  const addCookies = (text: string) => {
+    try {
+      const cookies = parseCookies(text);
+      if (cookies.length === 0) {
+        setCookieError('No cookies found');
+        return;
+      }
+      update({ cookies: mergeCookies(auth.cookies, cookies) });
+      setCookieText('');
+      setCookieError(null);
+    } catch (err) {
+      setCookieError(
+        err instanceof Error ? err.message : 'Could not read cookies'
+      );
+    }
+  };
+
+  const handleCookieFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) addCookies(await file.text());
+  };
+
+  const secretType = reveal ? 'text' : 'password';
+
+  return (
+    <div className="rounded-md border border-border/50 bg-background/50">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        aria-controls="auth-options"
+        className="flex w-full items-center justify-between h-11 px-3 text-sm font-medium"
+      >
+        <span className="flex items-center gap-2">
+          <KeyRound className="w-4 h-4" />
+          Authentication
+          {hasAuth(auth) && <Badge variant="secondary">configured</Badge>}
+        </span>
+        <ChevronDown
+          className={cn('w-4 h-4 transition-transform', open && 'rotate-180')}
+        />
+      </button>
+
+      {open && (
+        <div
+          id="auth-options"
+          className="space-y-6 border-t border-border/50 p-4 animate-scale-in"
+        >
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-muted-foreground">
+              Sent to the backend with each request. Never saved to history or
+              included in shared links.
+            </p>
+            <div className="flex shrink-0 gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setReveal((prev) => !prev)}
+                className="h-8 px-2"
+              >
+                {reveal ? (
+                  <EyeOff className="w-4 h-4 mr-2" />
+                ) : (
+                  <Eye className="w-4 h-4 mr-2" />
+                )}
+                {reveal ? 'Hide' : 'Show'} secrets
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange({ headers: [], cookies: [] })}
+                disabled={disabled || !hasAuth(auth)}
+                className="h-8 px-2"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">HTTP basic auth</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  value={auth.basicAuth?.username ?? ''}
+                  onChange={(e) =>
+                    update({
+                      basicAuth: {
+                        username: e.target.value,
+                        password: auth.basicAuth?.password ?? '',
+                      },
+                    })
+                  }
+                  disabled={disabled}
+                  placeholder="Username"
+                  aria-label="Basic auth username"
+                  autoComplete="off"
+                  className="h-9 border-border/50"
+                />
+                <Input
+                  type={secretType}
+                  value={auth.basicAuth?.password ?? ''}
+                  onChange={(e) =>
+                    update({
+                      basicAuth: {
+                        username: auth.basicAuth?.username ?? '',
+                        password: e.target.value,
+                      },
+                    })
+                  }
+                  disabled={disabled}
+                  placeholder="Password"
+                  aria-label="Basic auth password"
+                  autoComplete="new-password"
+                  className="h-9 border-border/50"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="user-agent" className="text-sm font-medium">
+                User agent
+              </Label>
+              <Input
+                id="user-agent"
+                value={auth.userAgent ?? ''}
+                onChange={(e) => update({ userAgent: e.target.value })}
+                disabled={disabled}
+                placeholder="Backend default"
+                className="h-9 border-border/50"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">Request headers</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  update({
+                    headers: [...auth.headers, { name: '', value: '' }],
+                  })
+                }
+                disabled={disabled}
+                className="h-8 px-2"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add header
+              </Button>
+            </div>
+            {auth.headers.map((header, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-[1fr_2fr_auto] items-center gap-2"
+              >
+                <Input
+                  value={header.name}
+                  onChange={(e) =>
+                    updateHeader(index, { name: e.target.value })
+                  }
+                  disabled={disabled}
+                  placeholder="X-Preview-Token"
+                  aria-label="Header name"
+                  autoComplete="off"
+                  className="h-9 font-mono text-xs border-border/50"
+                />
+                <Input
+                  type={secretType}
+                  value={header.value}
+                  onChange={(e) =>
+                    updateHeader(index, { value: e.target.value })
+                  }
+                  disabled={disabled}
+                  placeholder="Value"
+                  aria-label="Header value"
+                  autoComplete="new-password"
+                  className="h-9 font-mono text-xs border-border/50"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    update({
+                      headers: auth.headers.filter((_, i) => i !== index),
+                    })
+                  }
+                  disabled={disabled}
+                  className="h-9 px-2"
+                  aria-label={`Remove header ${header.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-sm font-medium">Cookies</Label>
+                <p className="text-xs text-muted-foreground">
+                  Paste a <code>Cookie</code> header or import a Netscape
+                  cookies.txt or JSON export
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled}
+                className="h-8 px-2"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import file
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.json,text/plain,application/json"
+                onChange={handleCookieFile}
+                className="hidden"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type={secretType}
+                value={cookieText}
+                onChange={(e) => setCookieText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addCookies(cookieText);
+                  }
+                }}
+                disabled={disabled}
+                placeholder="session=abc123; csrftoken=xyz"
+                aria-label="Cookie header"
+                autoComplete="off"
+                className="h-9 font-mono text-xs border-border/50"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => addCookies(cookieText)}
+                disabled={disabled || !cookieText.trim()}
+                className="h-9"
+              >
+                Add
+              </Button>
+            </div>
+            {cookieError && (
+              <p className="text-xs text-destructive">{cookieError}</p>
+            )}
+            {auth.cookies.length > 0 && (
+              <ul className="divide-y divide-border/50 rounded-md border border-border/50 max-h-48 overflow-y-auto">
+                {auth.cookies.map((cookie, index) => (
+                  <li
+                    key={`${cookie.domain ?? ''}|${cookie.path ?? ''}|${cookie.name}`}
+                    className="flex items-center justify-between gap-3 px-3 py-1.5 text-xs"
+                  >
+                    <span className="min-w-0 truncate font-mono">
+                      {cookie.name}=
+                      {reveal ? cookie.value : maskSecret(cookie.value)}
+                    </span>
+                    <span className="flex shrink-0 items-center gap-2 text-muted-foreground">
+                      {cookie.domain ?? 'any domain'}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          update({
+                            cookies: auth.cookies.filter((_, i) => i !== index),
+                          })
+                        }
+                        disabled={disabled}
+                        className="h-7 px-2"
+                        aria-label={`Remove cookie ${cookie.name}`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,453 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Loader2,
+  Play,
+  Download,
+  Smartphone,
+  Monitor,
+  Layers,
+  ListChecks,
+  Upload,
+  RotateCw,
+  AlertCircle,
+} from 'lucide-react';
+import { extractCriticalCss } from '@/lib/api';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  buildCssZip,
+  parseUrlList,
+  runWithConcurrency,
+} from '@/lib/batch';
+import { getResultSize } from '@/lib/results';
+import type { ExtractRequest, ExtractionResult, Viewport } from '@/lib/types';
+import { downloadBlob, formatBytes, formatTime } from '@/lib/utils';
+
+type BatchStatus = 'queued' | 'running' | 'done' | 'failed';
+
+interface BatchRow {
+  id: number;
+  request: ExtractRequest;
+  status: BatchStatus;
+  result?: ExtractionResult;
+  error?: string;
+  time?: number;
+}
+
+const statusVariants = {
+  queued: 'outline',
+  running: 'secondary',
+  done: 'success',
+  failed: 'destructive',
+} as const;
+
+export default function BatchExtractor() {
+  const [urlList, setUrlList] = useState('');
+  const [viewport, setViewport] = useState<Viewport>('both');
+  const [includeShadows, setIncludeShadows] = useState(false);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateRow = useCallback((id: number, patch: Partial<BatchRow>) => {
+    setRows((prev) =>
+      prev.map((row) => (row.id === id ? { ...row, ...patch } : row))
+    );
+  }, []);
+
+  const runRow = useCallback(
+    async (row: BatchRow) => {
+      updateRow(row.id, {
+        status: 'running',
+        result: undefined,
+        error: undefined,
+      });
+      const startedAt = performance.now();
+      try {
+        const result = await extractCriticalCss(row.request);
+        // An unsuccessful result has no CSS to zip; it fails so it can be retried.
+        updateRow(
+          row.id,
+          result.success
+            ? { status: 'done', result, time: performance.now() - startedAt }
+            : {
+                status: 'failed',
+                error:
+                  result.validation?.errors[0] ??
+                  'Extraction was not successful',
+                time: performance.now() - startedAt,
+              }
+        );
+      } catch (err) {
+        updateRow(row.id, {
+          status: 'failed',
+          error:
+            err instanceof Error ? err.message : 'An unknown error occurred',
+          time: performance.now() - startedAt,
+        });
+      }
+    },
+    [updateRow]
+  );
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const urls = parseUrlList(await file.text());
+    if (urls.length === 0) {
+      setError(`No URLs found in ${file.name}`);
+      return;
+    }
+    setError(null);
+    setUrlList(urls.join('\n'));
+  };
+
+  const handleRun = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const urls = parseUrlList(urlList);
+    if (urls.length === 0) {
+      setError('Please enter at least one valid URL (including https://)');
+      return;
+    }
+
+    const batch: BatchRow[] = urls.map((url, id) => ({
+      id,
+      request: { url, viewport, includeShadows },
+      status: 'queued',
+    }));
+
+    setError(null);
+    setRows(batch);
+    setRunning(true);
+    try {
+      await runWithConcurrency(batch, concurrency, runRow);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    const failed = rows.filter((row) => row.status === 'failed');
+    failed.forEach((row) => updateRow(row.id, { status: 'queued' }));
+    setRunning(true);
+    try {
+      await runWithConcurrency(failed, concurrency, runRow);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleRetryRow = async (row: BatchRow) => {
+    setRunning(true);
+    try {
+      await runRow(row);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleDownloadZip = () => {
+    const results = rows.flatMap((row) => (row.result ? [row.result] : []));
+    const zip = buildCssZip(results);
+    downloadBlob(
+      new Blob([zip], { type: 'application/zip' }),
+      'critical-css.zip'
+    );
+  };
+
+  const finished = rows.filter(
+    (row) => row.status === 'done' || row.status === 'failed'
+  ).length;
+  const succeeded = rows.filter((row) => row.status === 'done').length;
+  const failedCount = rows.filter((row) => row.status === 'failed').length;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+              <ListChecks className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle>Batch Extraction</CardTitle>
+              <CardDescription>
+                Extract critical CSS for a list of pages in one run
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleRun} className="space-y-6">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="batch-urls" className="text-sm font-medium">
+                  URLs
+                </Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={running}
+                  className="h-8 px-2"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Sitemap / CSV
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".xml,.csv,.txt,text/xml,text/csv,text/plain"
+                  onChange={handleFileUpload}
+                  className="hidden"
+                />
+              </div>
+              <Textarea
+                id="batch-urls"
+                placeholder={'https://example.com\nhttps://example.com/about'}
+                value={urlList}
+                onChange={(e) => setUrlList(e.target.value)}
+                disabled={running}
+                className="min-h-[160px] font-mono border-border/50"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Viewport</Label>
+                <Tabs
+                  value={viewport}
+                  onValueChange={(value) => setViewport(value as Viewport)}
+                  className="w-full"
+                >
+                  <TabsList className="grid w-full grid-cols-3 h-11">
+                    <TabsTrigger
+                      value="mobile"
+                      className="h-9"
+                      disabled={running}
+                    >
+                      <Smartphone className="w-4 h-4" />
+                    </TabsTrigger>
+                    <TabsTrigger
+                      value="desktop"
+                      className="h-9"
+                      disabled={running}
+                    >
+                      <Monitor className="w-4 h-4" />
+                    </TabsTrigger>
+                    <TabsTrigger
+                      value="both"
+                      className="h-9"
+                      disabled={running}
+                    >
+                      <Layers className="w-4 h-4" />
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
+
+              <div className="space-y-3">
+                <Label htmlFor="concurrency" className="text-sm font-medium">
+                  Concurrency
+                </Label>
+                <Input
+                  id="concurrency"
+                  type="number"
+                  min={1}
+                  max={MAX_BATCH_CONCURRENCY}
+                  value={concurrency}
+                  onChange={(e) =>
+                    setConcurrency(
+                      Math.min(
+                        MAX_BATCH_CONCURRENCY,
+                        Math.max(1, Number(e.target.value) || 1)
+                      )
+                    )
+                  }
+                  disabled={running}
+                  className="h-11 border-border/50"
+                />
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Options</Label>
+                <div className="flex items-center gap-3 h-11 px-3 rounded-md border border-border/50 bg-background/50">
+                  <Checkbox
+                    id="batch-shadows"
+                    checked={includeShadows}
+                    onCheckedChange={(checked) =>
+                      setIncludeShadows(checked as boolean)
+                    }
+                    disabled={running}
+                    className="border-primary"
+                  />
+                  <Label
+                    htmlFor="batch-shadows"
+                    className="text-sm cursor-pointer"
+                  >
+                    Include box-shadow
+                  </Label>
+                </div>
+              </div>
+            </div>
+
+            {running && (
+              <div className="space-y-3 animate-scale-in">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {finished} of {rows.length} pages processed
+                  </span>
+                </div>
+                <Progress
+                  value={(finished / Math.max(rows.length, 1)) * 100}
+                  className="h-2"
+                />
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              disabled={running}
+              className="w-full h-11 text-base font-medium"
+            >
+              {running ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Extracting...
+                </>
+              ) : (
+                <>
+                  <Play className="w-4 h-4 mr-2" />
+                  Run Batch
+                </>
+              )}
+            </Button>
+
+            {error && (
+              <div className="flex items-start gap-3 p-4 rounded-lg border border-destructive/30 bg-destructive/10 animate-scale-in">
+                <AlertCircle className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
+                <p className="text-sm text-destructive/80">{error}</p>
+              </div>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      {rows.length > 0 && (
+        <Card className="border-border/50 bg-card/50 backdrop-blur-sm animate-slide-up">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Results</CardTitle>
+                <CardDescription>
+                  {succeeded} succeeded, {failedCount} failed of {rows.length}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRetryFailed}
+                  disabled={running || failedCount === 0}
+                >
+                  <RotateCw className="w-4 h-4 mr-2" />
+                  Retry failed
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleDownloadZip}
+                  disabled={succeeded === 0}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Download zip
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-lg border border-border/50 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-muted-foreground">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium">URL</th>
+                    <th className="px-4 py-2 text-left font-medium">Status</th>
+                    <th className="px-4 py-2 text-right font-medium">Size</th>
+                    <th className="px-4 py-2 text-right font-medium">Time</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.id} className="border-t border-border/50">
+                      <td className="px-4 py-2 font-mono text-xs break-all">
+                        {row.request.url}
+                        {row.error && (
+                          <p className="mt-1 font-sans text-destructive/80">
+                            {row.error}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <Badge variant={statusVariants[row.status]}>
+                          {row.status === 'running' && (
+                            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                          )}
+                          {row.status}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono">
+                        {row.result
+                          ? formatBytes(getResultSize(row.result))
+                          : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono">
+                        {row.time !== undefined ? formatTime(row.time) : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {row.status === 'failed' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRetryRow(row)}
+                            disabled={running}
+                            className="h-8 px-2"
+                            aria-label={`Retry ${row.request.url}`}
+                          >
+                            <RotateCw className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
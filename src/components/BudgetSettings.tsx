@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronDown, Gauge } from 'lucide-react';
+import {
+  DEFAULT_BUDGETS,
+  METRIC_LABELS,
+  type SizeBudgets,
+  type SizeMetric,
+} from '@/lib/budgets';
+import { cn } from '@/lib/utils';
+
+interface BudgetSettingsProps {
+  budgets: SizeBudgets;
+  onChange: (budgets: SizeBudgets) => void;
+  /** Output keys that can get their own limit, e.g. `mobile` or `tablet`. */
+  viewportKeys: string[];
+  disabled?: boolean;
+}
+
+const toKb = (bytes: number) => Math.round((bytes / 1024) * 10) / 10;
+const fromKb = (value: string) => Math.max(0, Number(value) || 0) * 1024;
+
+export default function BudgetSettings({
+  budgets,
+  onChange,
+  viewportKeys,
+  disabled = false,
+}: BudgetSettingsProps) {
+  const [open, setOpen] = useState(false);
+
+  const update = (patch: Partial<SizeBudgets>) =>
+    onChange({ ...budgets, ...patch });
+
+  const setOverride = (key: string, value: string) => {
+    const { [key]: _removed, ...rest } = budgets.overrides;
+    update({
+      overrides: value.trim() ? { ...rest, [key]: fromKb(value) } : rest,
+    });
+  };
+
+  const customized =
+    JSON.stringify(budgets) !== JSON.stringify(DEFAULT_BUDGETS);
+
+  return (
+    <div className="rounded-md border border-border/50 bg-background/50">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        aria-controls="budget-settings"
+        className="flex w-full items-center justify-between h-11 px-3 text-sm font-medium"
+      >
+        <span className="flex items-center gap-2">
+          <Gauge className="w-4 h-4" />
+          Size budgets
+          <Badge variant="secondary" className="font-mono">
+            {toKb(budgets.viewport)} KB {METRIC_LABELS[budgets.metric]}
+          </Badge>
+          {customized && <Badge variant="secondary">customized</Badge>}
+        </span>
+        <ChevronDown
+          className={cn('w-4 h-4 transition-transform', open && 'rotate-180')}
+        />
+      </button>
+
+      {open && (
+        <div
+          id="budget-settings"
+          className="space-y-6 border-t border-border/50 p-4 animate-scale-in"
+        >
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Measure</Label>
+              <Select
+                value={budgets.metric}
+                onValueChange={(metric) =>
+                  update({ metric: metric as SizeMetric })
+                }
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-9 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="raw">Raw bytes</SelectItem>
+                  <SelectItem value="gzip">gzip</SelectItem>
+                  <SelectItem value="brotli">brotli</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-viewport" className="text-sm font-medium">
+                Per viewport (KB)
+              </Label>
+              <Input
+                id="budget-viewport"
+                type="number"
+                min={0}
+                step={0.5}
+                value={toKb(budgets.viewport)}
+                onChange={(e) => update({ viewport: fromKb(e.target.value) })}
+                disabled={disabled}
+                className="h-9 border-border/50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-combined" className="text-sm font-medium">
+                Combined (KB)
+              </Label>
+              <Input
+                id="budget-combined"
+                type="number"
+                min={0}
+                step={0.5}
+                value={toKb(budgets.combined)}
+                onChange={(e) => update({ combined: fromKb(e.target.value) })}
+                disabled={disabled}
+                className="h-9 border-border/50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-warn" className="text-sm font-medium">
+                Warn above (%)
+              </Label>
+              <Input
+                id="budget-warn"
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(budgets.warnRatio * 100)}
+                onChange={(e) =>
+                  update({
+                    warnRatio:
+                      Math.min(100, Math.max(0, Number(e.target.value) || 0)) /
+                      100,
+                  })
+                }
+                disabled={disabled}
+                className="h-9 border-border/50"
+              />
+            </div>
+          </div>
+
+          {viewportKeys.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">
+                Per-viewport overrides (KB)
+              </Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {viewportKeys.map((key) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <span className="w-20 truncate text-sm capitalize text-muted-foreground">
+                      {key}
+                    </span>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={
+                        budgets.overrides[key] !== undefined
+                          ? toKb(budgets.overrides[key])
+                          : ''
+                      }
+                      placeholder={String(toKb(budgets.viewport))}
+                      onChange={(e) => setOverride(key, e.target.value)}
+                      disabled={disabled}
+                      aria-label={`Budget for ${key}`}
+                      className="h-9 border-border/50"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave empty to use the per-viewport budget. A limit of 0
+                disables the check.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
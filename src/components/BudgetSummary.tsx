@@ -0,0 +1,174 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ChevronDown, Loader2 } from 'lucide-react';
+import {
+  METRIC_LABELS,
+  worstStatus,
+  type BudgetCheck,
+  type BudgetStatus,
+  type SizeBudgets,
+} from '@/lib/budgets';
+import { cn, formatBytes } from '@/lib/utils';
+
+const STATUS_BADGES: Record<
+  BudgetStatus,
+  { label: string; variant: 'success' | 'warning' | 'destructive' }
+> = {
+  pass: { label: 'Pass', variant: 'success' },
+  warn: { label: 'Warn', variant: 'warning' },
+  fail: { label: 'Fail', variant: 'destructive' },
+};
+
+/** Breakdown rows shown per output before the rest is summed up. */
+const BREAKDOWN_LIMIT = 6;
+
+interface BudgetSummaryProps {
+  /** From `useBudgetChecks`; null while measuring. */
+  checks: BudgetCheck[] | null;
+  error: string | null;
+  budgets: SizeBudgets;
+}
+
+export default function BudgetSummary({
+  checks,
+  error,
+  budgets,
+}: BudgetSummaryProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (error) {
+    return <p className="text-sm text-destructive/80">{error}</p>;
+  }
+
+  if (!checks) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Measuring compressed sizes...
+      </div>
+    );
+  }
+
+  if (checks.length === 0) return null;
+  const overall = STATUS_BADGES[worstStatus(checks)];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Size budget</p>
+        <Badge variant={overall.variant}>{overall.label}</Badge>
+      </div>
+      <div className="overflow-x-auto rounded-lg border border-border/50">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50 text-muted-foreground">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium">Output</th>
+              {(['raw', 'gzip', 'brotli'] as const).map((metric) => (
+                <th
+                  key={metric}
+                  className={cn(
+                    'px-4 py-2 text-right font-medium',
+                    metric === budgets.metric && 'text-foreground'
+                  )}
+                >
+                  {METRIC_LABELS[metric]}
+                </th>
+              ))}
+              <th className="px-4 py-2 text-right font-medium">Budget</th>
+              <th className="px-4 py-2 text-right font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {checks.map((check) => {
+              const status = STATUS_BADGES[check.status];
+              const isExpanded = expanded === check.key;
+              const shown = check.breakdown.slice(0, BREAKDOWN_LIMIT);
+              const rest = check.breakdown
+                .slice(BREAKDOWN_LIMIT)
+                .reduce((sum, item) => sum + item.size, 0);
+              return (
+                <Fragment key={check.key}>
+                  <tr className="border-t border-border/50">
+                    <td className="px-4 py-2 font-sans">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setExpanded(isExpanded ? null : check.key)
+                        }
+                        aria-expanded={isExpanded}
+                        className="flex items-center gap-1 capitalize hover:text-foreground"
+                      >
+                        <ChevronDown
+                          className={cn(
+                            'w-3 h-3 transition-transform',
+                            !isExpanded && '-rotate-90'
+                          )}
+                        />
+                        {check.kind === 'single' ? 'Critical CSS' : check.key}
+                      </button>
+                    </td>
+                    {(['raw', 'gzip', 'brotli'] as const).map((metric) => (
+                      <td
+                        key={metric}
+                        className={cn(
+                          'px-4 py-2 text-right',
+                          metric !== budgets.metric && 'text-muted-foreground'
+                        )}
+                      >
+                        {formatBytes(check.sizes[metric])}
+                      </td>
+                    ))}
+                    <td className="px-4 py-2 text-right">
+                      {check.limit > 0 ? formatBytes(check.limit) : '–'}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="border-t border-border/50 bg-muted/20">
+                      <td colSpan={6} className="px-4 py-3">
+                        <ul className="space-y-2 font-sans text-xs">
+                          {shown.map((item) => (
+                            <li
+                              key={item.label}
+                              className="grid grid-cols-[minmax(0,1fr)_8rem_4rem] items-center gap-3"
+                            >
+                              <span className="truncate" title={item.label}>
+                                {item.label}
+                              </span>
+                              <Progress
+                                value={
+                                  check.sizes.raw > 0
+                                    ? (item.size / check.sizes.raw) * 100
+                                    : 0
+                                }
+                                className="h-1.5"
+                              />
+                              <span className="text-right font-mono">
+                                {formatBytes(item.size)}
+                              </span>
+                            </li>
+                          ))}
+                          {rest > 0 && (
+                            <li className="text-muted-foreground">
+                              {check.breakdown.length - BREAKDOWN_LIMIT} more,{' '}
+                              {formatBytes(rest)}
+                            </li>
+                          )}
+                        </ul>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
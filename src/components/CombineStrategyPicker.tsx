@@ -0,0 +1,100 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  COMBINE_STRATEGIES,
+  combinedSizes,
+  type CombineSettings,
+} from '@/lib/combine';
+import type { ExtractionResult } from '@/lib/types';
+import { cn, formatBytes } from '@/lib/utils';
+
+interface CombineStrategyPickerProps {
+  /** The result as extracted, not the re-merged one. */
+  result: ExtractionResult;
+  value: CombineSettings;
+  onChange: (value: CombineSettings) => void;
+}
+
+export default function CombineStrategyPicker({
+  result,
+  value,
+  onChange,
+}: CombineStrategyPickerProps) {
+  const sizes = useMemo(
+    () => combinedSizes(result, value.breakpoint),
+    [result, value.breakpoint]
+  );
+  const smallest = Math.min(...Object.values(sizes));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Label className="text-sm font-medium">Merge strategy</Label>
+        <div className="flex items-center gap-2">
+          <Label
+            htmlFor="combine-breakpoint"
+            className="text-sm text-muted-foreground"
+          >
+            Desktop from
+          </Label>
+          <Input
+            id="combine-breakpoint"
+            type="number"
+            min={1}
+            value={value.breakpoint}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                breakpoint: Math.max(1, Number(e.target.value) || 1),
+              })
+            }
+            disabled={
+              value.strategy === 'extracted' || value.strategy === 'union'
+            }
+            className="h-8 w-20 border-border/50"
+          />
+          <span className="text-sm text-muted-foreground">px</span>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2">
+        {COMBINE_STRATEGIES.map((strategy) => {
+          const size = sizes[strategy.id] ?? 0;
+          const selected = value.strategy === strategy.id;
+          return (
+            <Button
+              key={strategy.id}
+              type="button"
+              variant={selected ? 'secondary' : 'outline'}
+              onClick={() => onChange({ ...value, strategy: strategy.id })}
+              aria-pressed={selected}
+              title={strategy.description}
+              className="h-auto flex-col items-start gap-1 px-3 py-2 border-border/50 text-left whitespace-normal"
+            >
+              <span className="text-sm font-medium">{strategy.label}</span>
+              <span
+                className={cn(
+                  'font-mono text-xs text-muted-foreground',
+                  size === smallest && 'text-emerald-500'
+                )}
+              >
+                {formatBytes(size)}
+              </span>
+            </Button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {
+          COMBINE_STRATEGIES.find((strategy) => strategy.id === value.strategy)
+            ?.description
+        }
+        {value.strategy === 'media-blocks' &&
+          '; the integration snippet emits them as two <style media> blocks'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { ShortcutKeys } from '@/components/ShortcutsDialog';
+import { SHORTCUTS, type ShortcutId } from '@/lib/shortcuts';
+
+export interface PaletteAction {
+  id: string;
+  group: string;
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+  /** Shown next to the label when the action has a shortcut. */
+  shortcut?: ShortcutId;
+  /** Extra words the search matches, e.g. `tab` for a result tab. */
+  keywords?: string[];
+  disabled?: boolean;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  actions: PaletteAction[];
+}
+
+export default function CommandPalette({
+  open,
+  onOpenChange,
+  actions,
+}: CommandPaletteProps) {
+  const groups = Array.from(new Set(actions.map((action) => action.group)));
+
+  // Closing first returns focus to where it was, so an action that moves
+  // focus has to run after that.
+  const select = (action: PaletteAction) => {
+    onOpenChange(false);
+    setTimeout(action.run, 0);
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Type a command…" />
+      <CommandList>
+        <CommandEmpty>No matching commands.</CommandEmpty>
+        {groups.map((group) => (
+          <CommandGroup key={group} heading={group}>
+            {actions
+              .filter((action) => action.group === group)
+              .map((action) => {
+                const keys = SHORTCUTS.find(
+                  (shortcut) => shortcut.id === action.shortcut
+                )?.keys;
+                return (
+                  <CommandItem
+                    key={action.id}
+                    value={`${action.group} ${action.label}`}
+                    keywords={action.keywords}
+                    disabled={action.disabled}
+                    onSelect={() => select(action)}
+                  >
+                    <action.icon className="w-4 h-4 mr-2" />
+                    {action.label}
+                    {keys && (
+                      <CommandShortcut>
+                        <ShortcutKeys keys={keys} />
+                      </CommandShortcut>
+                    )}
+                  </CommandItem>
+                );
+              })}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+}
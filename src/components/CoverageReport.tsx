@@ -0,0 +1,327 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, ArrowUpDown, Search } from 'lucide-react';
+import {
+  REASON_LABELS,
+  filterReportRows,
+  getReportRows,
+  reasonLabel,
+  sortReportRows,
+  summarizeStylesheets,
+  type ReportFilter,
+  type ReportSortKey,
+} from '@/lib/report';
+import type { CoverageReport as CoverageReportData } from '@/lib/types';
+import { cn, formatBytes } from '@/lib/utils';
+
+/** Rows rendered at once; the rest are revealed on demand. */
+const PAGE_SIZE = 200;
+
+const DEFAULT_FILTER: ReportFilter = {
+  query: '',
+  status: 'all',
+  reason: 'all',
+  stylesheet: 'all',
+};
+
+function stylesheetLabel(url: string) {
+  if (url === 'inline') return 'inline <style>';
+  try {
+    const { pathname, host } = new URL(url);
+    return `${host}${pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+interface CoverageReportProps {
+  report: CoverageReportData;
+}
+
+export default function CoverageReport({ report }: CoverageReportProps) {
+  const [filter, setFilter] = useState(DEFAULT_FILTER);
+  const [sortKey, setSortKey] = useState<ReportSortKey>('size');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const rows = useMemo(() => getReportRows(report), [report]);
+  const summaries = useMemo(() => summarizeStylesheets(report), [report]);
+  const visibleRows = useMemo(
+    () =>
+      sortReportRows(filterReportRows(rows, filter), sortKey, sortDirection),
+    [rows, filter, sortKey, sortDirection]
+  );
+
+  const updateFilter = (patch: Partial<ReportFilter>) => {
+    setFilter((prev) => ({ ...prev, ...patch }));
+    setLimit(PAGE_SIZE);
+  };
+
+  const toggleSort = (key: ReportSortKey) => {
+    if (key === sortKey) {
+      setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortKey(key);
+      setSortDirection(
+        key === 'selector' || key === 'stylesheet' ? 'asc' : 'desc'
+      );
+    }
+  };
+
+  const sortHeader = (
+    key: ReportSortKey,
+    label: string,
+    alignRight = false
+  ) => {
+    const Icon =
+      key !== sortKey
+        ? ArrowUpDown
+        : sortDirection === 'asc'
+          ? ArrowUp
+          : ArrowDown;
+    return (
+      <th
+        className={cn(
+          'px-4 py-2 font-medium',
+          alignRight ? 'text-right' : 'text-left'
+        )}
+        aria-sort={
+          key === sortKey
+            ? sortDirection === 'asc'
+              ? 'ascending'
+              : 'descending'
+            : undefined
+        }
+      >
+        <button
+          type="button"
+          onClick={() => toggleSort(key)}
+          className="inline-flex items-center gap-1 hover:text-foreground"
+        >
+          {label}
+          <Icon className="w-3 h-3" />
+        </button>
+      </th>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto rounded-lg border border-border/50">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50 text-muted-foreground">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium">Stylesheet</th>
+              <th className="px-4 py-2 text-right font-medium">Rules kept</th>
+              <th className="px-4 py-2 text-right font-medium">Total</th>
+              <th className="px-4 py-2 text-right font-medium">Critical</th>
+              <th className="px-4 py-2 font-medium w-40">Coverage</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {summaries.map((summary) => {
+              const percent =
+                summary.totalSize > 0
+                  ? (summary.criticalSize / summary.totalSize) * 100
+                  : 0;
+              return (
+                <tr
+                  key={summary.stylesheet}
+                  className="border-t border-border/50"
+                >
+                  <td
+                    className="px-4 py-2 font-sans max-w-xs truncate"
+                    title={summary.stylesheet}
+                  >
+                    {stylesheetLabel(summary.stylesheet)}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {summary.keptRules}/{summary.totalRules}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {formatBytes(summary.totalSize)}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {formatBytes(summary.criticalSize)}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center gap-2">
+                      <Progress value={percent} className="h-1.5" />
+                      <span className="w-10 text-right text-xs">
+                        {percent.toFixed(0)}%
+                      </span>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={filter.query}
+            onChange={(e) => updateFilter({ query: e.target.value })}
+            placeholder="Filter selectors"
+            aria-label="Filter selectors"
+            className="h-9 pl-9 border-border/50"
+          />
+        </div>
+        <Select
+          value={filter.status}
+          onValueChange={(status) =>
+            updateFilter({ status: status as ReportFilter['status'] })
+          }
+        >
+          <SelectTrigger className="h-9 border-border/50" aria-label="Status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Kept and dropped</SelectItem>
+            <SelectItem value="kept">Kept ({report.kept.length})</SelectItem>
+            <SelectItem value="dropped">
+              Dropped ({report.dropped.length})
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={filter.reason}
+          onValueChange={(reason) =>
+            updateFilter({ reason: reason as ReportFilter['reason'] })
+          }
+        >
+          <SelectTrigger className="h-9 border-border/50" aria-label="Reason">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any reason</SelectItem>
+            {Object.entries(REASON_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filter.stylesheet}
+          onValueChange={(stylesheet) => updateFilter({ stylesheet })}
+        >
+          <SelectTrigger
+            className="h-9 border-border/50"
+            aria-label="Stylesheet"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All stylesheets</SelectItem>
+            {summaries.map(({ stylesheet }) => (
+              <SelectItem key={stylesheet} value={stylesheet}>
+                {stylesheetLabel(stylesheet)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-border/50">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50 text-muted-foreground">
+            <tr>
+              {sortHeader('selector', 'Rule')}
+              <th className="px-4 py-2 text-left font-medium">Reason</th>
+              {sortHeader('stylesheet', 'Stylesheet')}
+              {sortHeader('matchedElements', 'Elements', true)}
+              {sortHeader('size', 'Size', true)}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.slice(0, limit).map((row) => (
+              <tr key={row.id} className="border-t border-border/50 align-top">
+                <td className="px-4 py-2 font-mono text-xs break-all">
+                  {row.media && (
+                    <span className="block text-muted-foreground">
+                      {row.media}
+                    </span>
+                  )}
+                  {row.selector}
+                </td>
+                <td className="px-4 py-2">
+                  <div className="flex flex-wrap gap-1">
+                    <Badge
+                      variant={row.status === 'kept' ? 'success' : 'secondary'}
+                      className="whitespace-nowrap"
+                    >
+                      {reasonLabel(row.reason)}
+                    </Badge>
+                    {row.viewports.map((viewport) => (
+                      <Badge
+                        key={viewport}
+                        variant="outline"
+                        className="capitalize"
+                      >
+                        {viewport}
+                      </Badge>
+                    ))}
+                  </div>
+                </td>
+                <td
+                  className="px-4 py-2 text-xs text-muted-foreground max-w-[12rem] truncate"
+                  title={row.stylesheet}
+                >
+                  {stylesheetLabel(row.stylesheet)}
+                </td>
+                <td className="px-4 py-2 text-right font-mono">
+                  {row.status === 'kept' ? row.matchedElements : '–'}
+                </td>
+                <td className="px-4 py-2 text-right font-mono">
+                  {formatBytes(row.size)}
+                </td>
+              </tr>
+            ))}
+            {visibleRows.length === 0 && (
+              <tr className="border-t border-border/50">
+                <td
+                  colSpan={5}
+                  className="px-4 py-6 text-center text-muted-foreground"
+                >
+                  No rules match these filters
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {visibleRows.length > limit && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Showing {limit} of {visibleRows.length} rules
+          </span>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setLimit((prev) => prev + PAGE_SIZE)}
+          >
+            Show more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
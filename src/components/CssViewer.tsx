@@ -0,0 +1,399 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  FoldVertical,
+  Search,
+  UnfoldVertical,
+} from 'lucide-react';
+import { formatCss, parseCss, stringifyNode } from '@/lib/css';
+import {
+  findMatches,
+  getFoldRanges,
+  lineText,
+  tokenizeCss,
+  type CssToken,
+  type CssTokenType,
+  type TextMatch,
+} from '@/lib/css-highlight';
+import { cn } from '@/lib/utils';
+
+type ViewMode = 'pretty' | 'minified';
+
+/** Fixed row height in px; rendering relies on every line having it. */
+const ROW_HEIGHT = 20;
+const VIEWPORT_HEIGHT = 384;
+/** Extra rows rendered above and below the visible window. */
+const OVERSCAN = 20;
+
+const TOKEN_CLASSES: Record<CssTokenType, string> = {
+  atrule: 'text-rose-600 dark:text-rose-400',
+  params: 'text-amber-700 dark:text-amber-300',
+  selector: 'text-sky-700 dark:text-sky-300',
+  property: 'text-violet-700 dark:text-violet-300',
+  value: 'text-emerald-700 dark:text-emerald-300',
+  string: 'text-amber-700 dark:text-amber-300',
+  important: 'text-destructive font-semibold',
+  comment: 'text-muted-foreground italic',
+  punctuation: 'text-muted-foreground',
+  whitespace: '',
+};
+
+function toDisplayText(css: string, mode: ViewMode) {
+  if (mode === 'pretty') return formatCss(css);
+  // One top-level block per line keeps minified output scannable.
+  return parseCss(css)
+    .map((node) => stringifyNode(node))
+    .join('\n');
+}
+
+function renderTokens(
+  tokens: CssToken[],
+  matches: TextMatch[],
+  activeMatch: TextMatch | undefined
+) {
+  const parts: JSX.Element[] = [];
+  let offset = 0;
+
+  tokens.forEach((token, tokenIndex) => {
+    const start = offset;
+    const end = offset + token.text.length;
+    offset = end;
+    let cursor = start;
+
+    const pushText = (from: number, to: number, match?: TextMatch) => {
+      if (from >= to) return;
+      const text = token.text.slice(from - start, to - start);
+      const key = `${tokenIndex}-${from}`;
+      parts.push(
+        match ? (
+          <mark
+            key={key}
+            data-active-match={match === activeMatch || undefined}
+            className={cn(
+              'rounded-sm bg-amber-300/60 text-inherit dark:bg-amber-400/40',
+              match === activeMatch &&
+                'bg-orange-400 ring-1 ring-orange-500 dark:bg-orange-500/70'
+            )}
+          >
+            <span className={TOKEN_CLASSES[token.type]}>{text}</span>
+          </mark>
+        ) : (
+          <span key={key} className={TOKEN_CLASSES[token.type]}>
+            {text}
+          </span>
+        )
+      );
+    };
+
+    for (const match of matches) {
+      if (match.end <= start || match.start >= end) continue;
+      const from = Math.max(match.start, start);
+      const to = Math.min(match.end, end);
+      pushText(cursor, from);
+      pushText(from, to, match);
+      cursor = to;
+    }
+    pushText(cursor, end);
+  });
+
+  return parts;
+}
+
+interface CssViewerProps {
+  css: string;
+}
+
+export default function CssViewer({ css }: CssViewerProps) {
+  const [mode, setMode] = useState<ViewMode>('pretty');
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [folded, setFolded] = useState<Set<number>>(new Set());
+  const [scrollTop, setScrollTop] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pendingLineRef = useRef<number | null>(null);
+  const revealMatchRef = useRef(false);
+
+  const text = useMemo(() => toDisplayText(css, mode), [css, mode]);
+  const tokens = useMemo(() => tokenizeCss(text), [text]);
+  const lines = useMemo(() => tokens.map(lineText), [tokens]);
+  const foldRanges = useMemo(() => getFoldRanges(lines), [lines]);
+  const foldEnds = useMemo(
+    () => new Map(foldRanges.map((range) => [range.start, range.end])),
+    [foldRanges]
+  );
+  const matches = useMemo(() => findMatches(lines, query), [lines, query]);
+  const matchesByLine = useMemo(() => {
+    const byLine = new Map<number, TextMatch[]>();
+    for (const match of matches) {
+      byLine.set(match.line, [...(byLine.get(match.line) ?? []), match]);
+    }
+    return byLine;
+  }, [matches]);
+
+  // Folded blocks collapse to their first line; everything through the
+  // closing brace is skipped.
+  const visibleLines = useMemo(() => {
+    const visible: number[] = [];
+    for (let line = 0; line < lines.length; line++) {
+      visible.push(line);
+      if (folded.has(line)) line = foldEnds.get(line) ?? line;
+    }
+    return visible;
+  }, [lines, folded, foldEnds]);
+
+  useEffect(() => {
+    setFolded(new Set());
+    setActiveIndex(0);
+    setScrollTop(0);
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+  }, [text]);
+
+  const activeMatch = matches[activeIndex];
+
+  const unfoldAround = useCallback(
+    (line: number) =>
+      setFolded((prev) => {
+        const hiding = foldRanges.filter(
+          (range) =>
+            prev.has(range.start) && range.start < line && line <= range.end
+        );
+        if (hiding.length === 0) return prev;
+        const next = new Set(prev);
+        hiding.forEach((range) => next.delete(range.start));
+        return next;
+      }),
+    [foldRanges]
+  );
+
+  useEffect(() => {
+    // Jump to the first match while typing.
+    if (matches.length === 0) return;
+    unfoldAround(matches[0].line);
+    pendingLineRef.current = matches[0].line;
+  }, [matches, unfoldAround]);
+
+  useEffect(() => {
+    const line = pendingLineRef.current;
+    const container = containerRef.current;
+    if (line === null || !container) return;
+    pendingLineRef.current = null;
+    const row = visibleLines.indexOf(line);
+    if (row === -1) return;
+    const top = Math.max(
+      0,
+      row * ROW_HEIGHT - container.clientHeight / 2 + ROW_HEIGHT / 2
+    );
+    container.scrollTop = top;
+    setScrollTop(top);
+    revealMatchRef.current = true;
+  }, [visibleLines, activeIndex, matches]);
+
+  useEffect(() => {
+    // Once the match row is rendered, bring long minified lines into view.
+    if (!revealMatchRef.current) return;
+    revealMatchRef.current = false;
+    containerRef.current
+      ?.querySelector('[data-active-match]')
+      ?.scrollIntoView({ block: 'nearest', inline: 'center' });
+  });
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const next = (index + matches.length) % matches.length;
+    const { line } = matches[next];
+    unfoldAround(line);
+    setActiveIndex(next);
+    pendingLineRef.current = line;
+  };
+
+  const toggleFold = (line: number) =>
+    setFolded((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(line)) next.add(line);
+      return next;
+    });
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(
+    visibleLines.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+  const gutterWidth = `${String(lines.length).length + 3}ch`;
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card overflow-hidden">
+      <div className="flex flex-wrap items-center gap-2 border-b border-border/50 p-2">
+        <div className="flex rounded-md border border-border/50 p-0.5">
+          {(['pretty', 'minified'] as const).map((value) => (
+            <Button
+              key={value}
+              type="button"
+              variant={mode === value ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setMode(value)}
+              aria-pressed={mode === value}
+              className="h-7 px-2 text-xs capitalize"
+            >
+              {value}
+            </Button>
+          ))}
+        </div>
+        {foldRanges.length > 0 && (
+          <>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setFolded(new Set(foldRanges.map((range) => range.start)))
+              }
+              className="h-8 px-2 text-xs"
+            >
+              <FoldVertical className="w-4 h-4 mr-1" />
+              Fold all
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setFolded(new Set())}
+              disabled={folded.size === 0}
+              className="h-8 px-2 text-xs"
+            >
+              <UnfoldVertical className="w-4 h-4 mr-1" />
+              Unfold all
+            </Button>
+          </>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setActiveIndex(0);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  goToMatch(activeIndex + (e.shiftKey ? -1 : 1));
+                }
+              }}
+              placeholder="Find in CSS"
+              aria-label="Find in CSS"
+              className="h-8 w-48 pl-8 text-xs border-border/50"
+            />
+          </div>
+          <span
+            className="w-16 text-center text-xs text-muted-foreground tabular-nums"
+            aria-live="polite"
+          >
+            {query
+              ? matches.length > 0
+                ? `${activeIndex + 1} of ${matches.length}`
+                : 'No results'
+              : ''}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => goToMatch(activeIndex - 1)}
+            disabled={matches.length === 0}
+            className="h-8 px-2"
+            aria-label="Previous match"
+          >
+            <ChevronUp className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => goToMatch(activeIndex + 1)}
+            disabled={matches.length === 0}
+            className="h-8 px-2"
+            aria-label="Next match"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="relative overflow-auto font-mono text-xs"
+        style={{ height: VIEWPORT_HEIGHT }}
+      >
+        <div
+          className="relative min-w-full w-max"
+          style={{ height: visibleLines.length * ROW_HEIGHT }}
+        >
+          <div
+            className="absolute left-0 min-w-full"
+            style={{ top: firstRow * ROW_HEIGHT }}
+          >
+            {visibleLines.slice(firstRow, lastRow).map((line) => {
+              const isFoldStart = foldEnds.has(line);
+              const isFolded = folded.has(line);
+              return (
+                <div
+                  key={line}
+                  className="flex whitespace-pre"
+                  style={{ height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }}
+                >
+                  <div
+                    className="sticky left-0 flex shrink-0 items-center justify-end gap-0.5 bg-card pr-2 text-right text-muted-foreground/60 select-none"
+                    style={{ width: gutterWidth }}
+                  >
+                    {line + 1}
+                    {isFoldStart ? (
+                      <button
+                        type="button"
+                        onClick={() => toggleFold(line)}
+                        aria-expanded={!isFolded}
+                        aria-label={isFolded ? 'Unfold block' : 'Fold block'}
+                        className="hover:text-foreground"
+                      >
+                        {isFolded ? (
+                          <ChevronRight className="w-3 h-3" />
+                        ) : (
+                          <ChevronDown className="w-3 h-3" />
+                        )}
+                      </button>
+                    ) : (
+                      <span className="w-3" />
+                    )}
+                  </div>
+                  <div className="pl-2 pr-4 text-foreground/90">
+                    {renderTokens(
+                      tokens[line],
+                      matchesByLine.get(line) ?? [],
+                      activeMatch
+                    )}
+                    {isFolded && (
+                      <button
+                        type="button"
+                        onClick={() => toggleFold(line)}
+                        className="ml-1 rounded bg-muted px-1 text-muted-foreground hover:text-foreground"
+                      >
+                        … {(foldEnds.get(line) ?? line) - line - 1} lines {'}'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
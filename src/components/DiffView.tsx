@@ -0,0 +1,416 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, GitCompare, Upload } from 'lucide-react';
+import { useExtractionHistory } from '@/hooks/use-extraction-history';
+import { getCssOutputs } from '@/lib/results';
+import { formatCss } from '@/lib/css';
+import { diffCss, diffLines, type DiffLine } from '@/lib/css-diff';
+import { parseResultFile, type HistoryEntry } from '@/lib/history';
+import type { ExtractionResult } from '@/lib/types';
+import { cn, formatBytes } from '@/lib/utils';
+
+interface DiffSource {
+  label: string;
+  result: ExtractionResult;
+}
+
+const SIZE_KEYS = ['mobile', 'desktop', 'combined', 'single'];
+
+const lineStyles: Record<DiffLine['type'], [string, string]> = {
+  same: ['', ''],
+  removed: ['bg-destructive/15', 'bg-muted/30'],
+  added: ['bg-muted/30', 'bg-emerald-500/15'],
+  changed: ['bg-destructive/15', 'bg-emerald-500/15'],
+};
+
+function outputsOf(source: DiffSource | null) {
+  const outputs: Record<string, string> = {};
+  for (const { key, css } of source ? getCssOutputs(source.result) : []) {
+    outputs[key] = css;
+  }
+  return outputs;
+}
+
+function formatDelta(before: number, after: number) {
+  const delta = after - before;
+  const sign = delta > 0 ? '+' : delta < 0 ? '−' : '±';
+  const percent =
+    before > 0
+      ? ` (${sign}${Math.abs((delta / before) * 100).toFixed(1)}%)`
+      : '';
+  return `${sign}${formatBytes(Math.abs(delta))}${percent}`;
+}
+
+interface SourcePickerProps {
+  id: string;
+  entries: HistoryEntry[];
+  title: string;
+  source: DiffSource | null;
+  onChange: (source: DiffSource) => void;
+  onError: (message: string) => void;
+}
+
+function SourcePicker({
+  id,
+  entries,
+  title,
+  source,
+  onChange,
+  onError,
+}: SourcePickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [entryId, setEntryId] = useState('');
+
+  const handleSelect = (value: string) => {
+    const entry = entries.find((e) => e.id === value);
+    if (!entry) return;
+    setEntryId(value);
+    onChange({
+      label: `${entry.request.url} · ${new Date(entry.createdAt).toLocaleString()}`,
+      result: entry.result,
+    });
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onChange({
+        label: file.name,
+        result: parseResultFile(await file.text(), file.name),
+      });
+      setEntryId('');
+    } catch (err) {
+      onError(
+        `${file.name}: ${err instanceof Error ? err.message : 'unreadable file'}`
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-sm font-medium">
+        {title}
+      </Label>
+      <div className="flex gap-2">
+        <Select value={entryId} onValueChange={handleSelect}>
+          <SelectTrigger id={id} className="border-border/50">
+            <SelectValue placeholder={source?.label ?? 'Choose from history'} />
+          </SelectTrigger>
+          <SelectContent>
+            {entries.map((entry) => (
+              <SelectItem key={entry.id} value={entry.id}>
+                {entry.request.url} ·{' '}
+                {new Date(entry.createdAt).toLocaleString()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => fileInputRef.current?.click()}
+          aria-label={`Upload ${title.toLowerCase()} file`}
+        >
+          <Upload className="w-4 h-4" />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.css,application/json,text/css"
+          onChange={handleUpload}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function DiffView() {
+  const { entries } = useExtractionHistory();
+  const [before, setBefore] = useState<DiffSource | null>(null);
+  const [after, setAfter] = useState<DiffSource | null>(null);
+  const [outputKey, setOutputKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const beforeOutputs = useMemo(() => outputsOf(before), [before]);
+  const afterOutputs = useMemo(() => outputsOf(after), [after]);
+  const keys = Array.from(
+    new Set([...Object.keys(beforeOutputs), ...Object.keys(afterOutputs)])
+  );
+  const activeKey =
+    outputKey && keys.includes(outputKey)
+      ? outputKey
+      : (keys.find((k) => k in beforeOutputs && k in afterOutputs) ?? keys[0]);
+
+  const comparison = useMemo(() => {
+    if (!before || !after || !activeKey) return null;
+    const beforeCss = formatCss(beforeOutputs[activeKey] ?? '');
+    const afterCss = formatCss(afterOutputs[activeKey] ?? '');
+    return {
+      rules: diffCss(beforeCss, afterCss),
+      lines: diffLines(beforeCss, afterCss),
+      beforeCss,
+      afterCss,
+    };
+  }, [before, after, activeKey, beforeOutputs, afterOutputs]);
+
+  const sizeRows = SIZE_KEYS.filter(
+    (key) => key in beforeOutputs || key in afterOutputs
+  ).map((key) => ({
+    key,
+    before: new Blob([beforeOutputs[key] ?? '']).size,
+    after: new Blob([afterOutputs[key] ?? '']).size,
+  }));
+
+  const handleSourceChange =
+    (setter: (source: DiffSource) => void) => (source: DiffSource) => {
+      setError(null);
+      setter(source);
+    };
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+              <GitCompare className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle>Compare Results</CardTitle>
+              <CardDescription>
+                See how critical CSS changed between two extractions
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <SourcePicker
+              id="diff-before"
+              entries={entries}
+              title="Baseline"
+              source={before}
+              onChange={handleSourceChange(setBefore)}
+              onError={setError}
+            />
+            <SourcePicker
+              id="diff-after"
+              entries={entries}
+              title="Comparison"
+              source={after}
+              onChange={handleSourceChange(setAfter)}
+              onError={setError}
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-3 p-4 rounded-lg border border-destructive/30 bg-destructive/10 animate-scale-in">
+              <AlertCircle className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
+              <p className="text-sm text-destructive/80">{error}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {before && after && comparison && (
+        <Card className="border-border/50 bg-card/50 backdrop-blur-sm animate-slide-up">
+          <CardHeader>
+            <div className="overflow-x-auto rounded-lg border border-border/50">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-muted-foreground">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium">Output</th>
+                    <th className="px-4 py-2 text-right font-medium">
+                      Baseline
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium">
+                      Comparison
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium">Delta</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {sizeRows.map((row) => (
+                    <tr key={row.key} className="border-t border-border/50">
+                      <td className="px-4 py-2 font-sans capitalize">
+                        {row.key}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {formatBytes(row.before)}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {formatBytes(row.after)}
+                      </td>
+                      <td
+                        className={cn(
+                          'px-4 py-2 text-right',
+                          row.after > row.before && 'text-destructive',
+                          row.after < row.before && 'text-emerald-500'
+                        )}
+                      >
+                        {formatDelta(row.before, row.after)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="success">
+                  {comparison.rules.added.length} added
+                </Badge>
+                <Badge variant="destructive">
+                  {comparison.rules.removed.length} removed
+                </Badge>
+                <Badge variant="warning">
+                  {comparison.rules.changed.length} changed
+                </Badge>
+                <Badge variant="secondary">
+                  {comparison.rules.moved.length +
+                    comparison.rules.movedBlocks.length}{' '}
+                  moved
+                </Badge>
+              </div>
+              <Select value={activeKey} onValueChange={setOutputKey}>
+                <SelectTrigger className="w-40 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {keys.map((key) => (
+                    <SelectItem key={key} value={key} className="capitalize">
+                      {key}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <ScrollArea className="h-64 rounded-lg border border-border/50">
+              <ul className="p-4 space-y-2 text-sm font-mono">
+                {comparison.rules.added.map((rule) => (
+                  <li
+                    key={`added-${rule.context}-${rule.selector}`}
+                    className="text-emerald-500"
+                  >
+                    + {rule.context && `${rule.context} `}
+                    {rule.selector}
+                  </li>
+                ))}
+                {comparison.rules.removed.map((rule) => (
+                  <li
+                    key={`removed-${rule.context}-${rule.selector}`}
+                    className="text-destructive"
+                  >
+                    − {rule.context && `${rule.context} `}
+                    {rule.selector}
+                  </li>
+                ))}
+                {comparison.rules.changed.map((rule) => (
+                  <li key={`changed-${rule.context}-${rule.selector}`}>
+                    <span className="text-amber-500">
+                      ~ {rule.context && `${rule.context} `}
+                      {rule.selector}
+                    </span>
+                    <ul className="pl-6 text-xs text-muted-foreground">
+                      {rule.changes.map((change) => (
+                        <li key={change.property}>
+                          {change.property}: {change.before ?? '∅'} →{' '}
+                          {change.after ?? '∅'}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+                {comparison.rules.moved.map((move) => (
+                  <li
+                    key={`moved-${move.from}-${move.selector}`}
+                    className="text-muted-foreground"
+                  >
+                    ↷ {move.selector}: {move.from || 'top level'} →{' '}
+                    {move.to || 'top level'}
+                  </li>
+                ))}
+                {comparison.rules.movedBlocks.map((label) => (
+                  <li key={`block-${label}`} className="text-muted-foreground">
+                    ↷ {label} block reordered
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            <div className="rounded-lg border border-border/50 bg-card overflow-hidden">
+              <div className="grid grid-cols-2 border-b border-border/50 text-xs text-muted-foreground">
+                <p className="px-4 py-2 truncate">{before.label}</p>
+                <p className="px-4 py-2 truncate border-l border-border/50">
+                  {after.label}
+                </p>
+              </div>
+              <ScrollArea className="h-96">
+                {comparison.lines ? (
+                  <div className="text-xs font-mono leading-relaxed">
+                    {comparison.lines.map((line, idx) => (
+                      <div key={idx} className="grid grid-cols-2">
+                        <pre
+                          className={cn(
+                            'px-4 whitespace-pre-wrap break-all',
+                            lineStyles[line.type][0]
+                          )}
+                        >
+                          {line.left ?? ' '}
+                        </pre>
+                        <pre
+                          className={cn(
+                            'px-4 whitespace-pre-wrap break-all border-l border-border/50',
+                            lineStyles[line.type][1]
+                          )}
+                        >
+                          {line.right ?? ' '}
+                        </pre>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 text-xs font-mono leading-relaxed">
+                    <pre className="p-4 whitespace-pre-wrap break-all">
+                      {comparison.beforeCss}
+                    </pre>
+                    <pre className="p-4 whitespace-pre-wrap break-all border-l border-border/50">
+                      {comparison.afterCss}
+                    </pre>
+                  </div>
+                )}
+              </ScrollArea>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
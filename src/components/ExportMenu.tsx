@@ -0,0 +1,62 @@
+'use client';
+
+import { Fragment } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ChevronDown, FileDown } from 'lucide-react';
+import { EXPORT_FORMATS, buildExport, type ExportFormat } from '@/lib/export';
+import type { ResultOutput } from '@/lib/results';
+import type { ExtractionResult } from '@/lib/types';
+import { downloadBlob } from '@/lib/utils';
+
+interface ExportMenuProps {
+  result: ExtractionResult;
+  /** Outputs with the CSS as currently shown, post-processing included. */
+  outputs: ResultOutput[];
+}
+
+const GROUPS = Array.from(new Set(EXPORT_FORMATS.map((f) => f.group)));
+
+export default function ExportMenu({ result, outputs }: ExportMenuProps) {
+  const handleExport = (format: ExportFormat) => {
+    const { blob, filename } = buildExport(format, result, outputs);
+    downloadBlob(blob, filename);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8">
+          <FileDown className="w-4 h-4 mr-2" />
+          Export
+          <ChevronDown className="w-4 h-4 ml-1 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        {GROUPS.map((group, i) => (
+          <Fragment key={group}>
+            {i > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel className="text-xs font-medium text-muted-foreground">
+              {group}
+            </DropdownMenuLabel>
+            {EXPORT_FORMATS.filter((f) => f.group === group).map((format) => (
+              <DropdownMenuItem
+                key={format.id}
+                onSelect={() => handleExport(format.id)}
+              >
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
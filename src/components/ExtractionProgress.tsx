@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Progress } from '@/components/ui/progress';
+import { Check, Circle, Info, Loader2 } from 'lucide-react';
+import {
+  getProgressPercent,
+  getStageLabel,
+  type StageProgress,
+} from '@/lib/progress';
+import { cn, formatTime } from '@/lib/utils';
+
+interface ExtractionProgressProps {
+  stages: StageProgress[];
+  startedAt: number;
+  /** Transient status such as a pending retry. */
+  notice?: string | null;
+}
+
+export default function ExtractionProgress({
+  stages,
+  startedAt,
+  notice,
+}: ExtractionProgressProps) {
+  const [now, setNow] = useState(() => performance.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(performance.now()), 100);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Backends that answer with plain JSON never report a stage.
+  const streaming = stages.some((s) => s.status !== 'pending');
+  const active = stages.find((s) => s.status === 'active');
+
+  return (
+    <div className="space-y-3 animate-scale-in">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {active ? `${getStageLabel(active)}...` : 'Extracting...'}
+        </span>
+        <span className="font-mono text-xs text-muted-foreground">
+          {formatTime(now - startedAt)}
+        </span>
+      </div>
+      {streaming ? (
+        <>
+          <Progress value={getProgressPercent(stages)} className="h-2" />
+          <ul className="space-y-1.5">
+            {stages.map((stage) => (
+              <li
+                key={stage.id}
+                className={cn(
+                  'flex items-center justify-between text-sm',
+                  stage.status === 'pending' && 'text-muted-foreground/60'
+                )}
+              >
+                <span className="flex items-center gap-2">
+                  {stage.status === 'done' ? (
+                    <Check className="w-3.5 h-3.5 text-emerald-500" />
+                  ) : stage.status === 'active' ? (
+                    <Loader2 className="w-3.5 h-3.5 text-primary animate-spin" />
+                  ) : (
+                    <Circle className="w-3.5 h-3.5" />
+                  )}
+                  {getStageLabel(stage)}
+                </span>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {stage.status === 'active' && stage.startedAt !== undefined
+                    ? formatTime(stage.elapsed + now - stage.startedAt)
+                    : stage.status === 'done'
+                      ? formatTime(stage.elapsed)
+                      : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <Progress value={50} className="h-2 animate-pulse" />
+      )}
+      {notice && (
+        <p className="flex items-start gap-2 text-xs text-amber-500/80">
+          <Info className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+          {notice}
+        </p>
+      )}
+    </div>
+  );
+}
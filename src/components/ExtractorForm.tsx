@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,10 +13,34 @@ import {
 } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { ScrollArea } from '@/components/ui/scroll-area';
-import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { Checkbox } from '@/components/ui/checkbox';
+import ExtractionProgress from '@/components/ExtractionProgress';
+import IntegrationSnippet from '@/components/IntegrationSnippet';
+import HistoryPanel from '@/components/HistoryPanel';
+import AdvancedOptions from '@/components/AdvancedOptions';
+import AuthOptions from '@/components/AuthOptions';
+import ShareLink from '@/components/ShareLink';
+import CoverageReport from '@/components/CoverageReport';
+import BudgetSettings from '@/components/BudgetSettings';
+import BudgetSummary from '@/components/BudgetSummary';
+import CombineStrategyPicker from '@/components/CombineStrategyPicker';
+import PostProcessPanel from '@/components/PostProcessPanel';
+import CssViewer from '@/components/CssViewer';
+import ExportMenu from '@/components/ExportMenu';
+import OfflineUpload from '@/components/OfflineUpload';
+import PreviewPanel from '@/components/PreviewPanel';
+import ProjectPanel from '@/components/ProjectPanel';
+import CommandPalette, {
+  type PaletteAction,
+} from '@/components/CommandPalette';
+import ShortcutsDialog, { ShortcutKeys } from '@/components/ShortcutsDialog';
+import { useTheme } from '@/components/theme-provider';
+import { useExtractionHistory } from '@/hooks/use-extraction-history';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { useBudgetChecks } from '@/hooks/use-budget-checks';
+import { usePostProcessed } from '@/hooks/use-post-processed';
+import { useProjects } from '@/hooks/use-projects';
 import {
   Loader2,
   Play,
@@ -30,68 +54,223 @@ import {
   FileCode,
   AlertCircle,
   Info,
+  X,
+  Code2,
+  Frame,
+  Share2,
+  ListTree,
+  Eye,
+  Globe,
+  Upload,
+  History,
+  Keyboard,
+  SlidersHorizontal,
+  SunMoon,
 } from 'lucide-react';
+import { extractCriticalCss } from '@/lib/api';
+import { exportBaseName } from '@/lib/export';
+import { EMPTY_AUTH, normalizeAuth, validateAuth } from '@/lib/auth';
+import {
+  DEFAULT_BUDGETS,
+  withBudgetValidation,
+  type SizeBudgets,
+} from '@/lib/budgets';
+import {
+  canCombine,
+  withCombinedStrategy,
+  type CombineSettings,
+} from '@/lib/combine';
+import { createHistoryEntry, type HistoryEntry } from '@/lib/history';
+import {
+  DEFAULT_EXTRACTION_OPTIONS,
+  normalizeOptions,
+  validateOptions,
+} from '@/lib/options';
+import {
+  DEFAULT_POST_PROCESS,
+  STEP_LABELS,
+  type PostProcessResult,
+} from '@/lib/postprocess';
+import {
+  parseResultFragment,
+  type Permalink,
+  type SharedRequest,
+} from '@/lib/permalink';
+import {
+  extractOffline,
+  isUploadedPageUrl,
+  planOfflineStages,
+  uploadedPageUrl,
+  type UploadedPage,
+} from '@/lib/offline';
+import { getPreviewTargets } from '@/lib/preview';
+import { projectUrl, type Project } from '@/lib/projects';
+import {
+  applyProgressEvent,
+  planStages,
+  type StageProgress,
+} from '@/lib/progress';
+import { getCssOutputs, type ResultOutput } from '@/lib/results';
+import { DEFAULT_BREAKPOINT } from '@/lib/snippet';
+import type {
+  AuthOptions as AuthOptionsValue,
+  ExtractRequest,
+  ExtractionOptions,
+  ExtractionProgressEvent,
+  ExtractionResult,
+} from '@/lib/types';
+import { downloadBlob, formatBytes, formatTime } from '@/lib/utils';
 
-export interface ExtractionResult {
-  success: boolean;
-  url: string;
-  viewport: 'mobile' | 'desktop' | 'both';
-  css?: string;
-  size?: number;
-  extractionTime?: number;
-  mobile?: { css: string; size: number; extractionTime: number };
-  desktop?: { css: string; size: number; extractionTime: number };
-  combined?: { css: string; size: number };
-  processingTime?: number;
-  validation?: {
-    isValid: boolean;
-    errors: string[];
-    warnings: string[];
-  };
-}
+export type { ExtractionResult };
 
-interface FormState {
-  url: string;
-  viewport: 'mobile' | 'desktop' | 'both';
-  includeShadows: boolean;
+const DEFAULT_TIMEOUT_SECONDS = 120;
+
+interface FormState extends ExtractRequest {
+  options: ExtractionOptions;
+  auth: AuthOptionsValue;
+  budgets: SizeBudgets;
+  /** Client-side timeout in seconds; 0 disables it. */
+  timeout: number;
 }
 
+/** Where the page comes from: a public URL or uploaded files. */
+type PageSource = 'url' | 'upload';
+
 interface ExtractorFormProps {
-  initialUrl?: string;
+  /** Configuration from a shared link, applied on first render. */
+  permalink?: Permalink | null;
 }
 
-export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
+export default function ExtractorForm({ permalink }: ExtractorFormProps) {
   const [formState, setFormState] = useState<FormState>({
-    url: initialUrl,
+    url: '',
     viewport: 'both',
     includeShadows: false,
+    options: DEFAULT_EXTRACTION_OPTIONS,
+    ...permalink?.request,
+    auth: EMPTY_AUTH,
+    budgets: DEFAULT_BUDGETS,
+    timeout: DEFAULT_TIMEOUT_SECONDS,
   });
+  const [source, setSource] = useState<PageSource>('url');
+  const [uploadedPage, setUploadedPage] = useState<UploadedPage | null>(null);
   const [loading, setLoading] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [progressText, setProgressText] = useState('');
+  const [stages, setStages] = useState<StageProgress[]>([]);
+  const [startedAt, setStartedAt] = useState(0);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
   const [result, setResult] = useState<ExtractionResult | null>(null);
+  // History entry id of the shown result; remounts the result card on change.
+  const [resultId, setResultId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState<string | null>(null);
+  const [showShare, setShowShare] = useState(false);
+  const [postProcess, setPostProcess] = useState(DEFAULT_POST_PROCESS);
+  const [combine, setCombine] = useState<CombineSettings>({
+    strategy: 'extracted',
+    breakpoint: DEFAULT_BREAKPOINT,
+  });
+  const [activeTab, setActiveTab] = useState('');
+  const [advancedOpen, setAdvancedOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const formRef = useRef<HTMLFormElement>(null);
+  const submitRef = useRef<HTMLButtonElement>(null);
+  const errorRef = useRef<HTMLDivElement>(null);
+  const resultHeadingRef = useRef<HTMLDivElement>(null);
+  const historyRef = useRef<HTMLElement>(null);
+  const advancedRef = useRef<HTMLDivElement>(null);
+  // Where focus goes once a run ends; the disabled form dropped it.
+  const focusAfterRunRef = useRef<'result' | 'error' | 'form' | null>(null);
+  const { theme, setTheme } = useTheme();
+  const history = useExtractionHistory();
+  const projects = useProjects();
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Applies the shared link once on mount. Holding the first render's
+  // closure keeps later permalink or form changes from re-running it.
+  const permalinkAppliedRef = useRef(false);
+  const applyPermalinkRef = useRef(() => {
+    const shared = parseResultFragment(window.location.hash);
+    if (shared) {
+      setResult(shared);
+      setResultId(crypto.randomUUID());
+    } else if (permalink?.autoRun) {
+      runExtraction(formState);
+    }
+  });
+  useEffect(() => {
+    if (permalinkAppliedRef.current) return;
+    permalinkAppliedRef.current = true;
+    applyPermalinkRef.current();
+  }, []);
+
+  const applyProject = useCallback(
+    (project: Project) =>
+      setFormState((prev) => ({
+        ...prev,
+        url: projectUrl(project) || prev.url,
+        viewport: project.viewport,
+        includeShadows: project.includeShadows,
+        options: project.options,
+        budgets: project.budgets,
+      })),
+    []
+  );
+
+  // Restores the project selected in a previous session, unless a shared
+  // link already configured the form.
+  const projectRestoredRef = useRef(false);
+  useEffect(() => {
+    if (projectRestoredRef.current || !projects.activeProject) return;
+    projectRestoredRef.current = true;
+    if (!permalink) applyProject(projects.activeProject);
+  }, [projects.activeProject, permalink, applyProject]);
+
+  const handleSelectProject = (project: Project | null) => {
+    projectRestoredRef.current = true;
+    projects.setActiveId(project?.id ?? null);
+    if (project) applyProject(project);
+  };
+
+  const handleImportProjects = async (json: string) => {
+    const count = await projects.importProjects(json);
+    await history.refresh();
+    return count;
+  };
+
+  const sharedRequest = useMemo<SharedRequest>(
+    () => ({
+      url: formState.url,
+      viewport: formState.viewport,
+      includeShadows: formState.includeShadows,
+      options: formState.options,
+    }),
+    [
+      formState.url,
+      formState.viewport,
+      formState.includeShadows,
+      formState.options,
+    ]
+  );
 
   const handleInputChange = useCallback(
-    (field: keyof FormState, value: string | boolean) => {
+    (
+      field: keyof FormState,
+      value:
+        | string
+        | boolean
+        | number
+        | ExtractionOptions
+        | AuthOptionsValue
+        | SizeBudgets
+    ) => {
       setFormState((prev) => ({ ...prev, [field]: value }));
     },
     []
   );
 
-  const formatBytes = useCallback((bytes: number) => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
-  }, []);
-
-  const formatTime = useCallback((ms: number) => {
-    return (ms / 1000).toFixed(2) + 's';
-  }, []);
-
   const copyToClipboard = useCallback(async (text: string, key: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -103,67 +282,141 @@ export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
   }, []);
 
   const downloadCSS = useCallback((css: string, filename: string) => {
-    const blob = new Blob([css], { type: 'text/css' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([css], { type: 'text/css' }), filename);
   }, []);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  /** Extracts from `page` in the browser when given, else via the backend. */
+  const runExtraction = async (
+    state: FormState,
+    page: UploadedPage | null = null
+  ) => {
+    if (!page) {
+      if (!state.url.trim()) {
+        setError('Please enter a valid URL');
+        return;
+      }
 
-    if (!formState.url.trim()) {
-      setError('Please enter a valid URL');
-      return;
+      try {
+        new URL(state.url);
+      } catch {
+        setError('Please enter a valid URL (including https://)');
+        return;
+      }
     }
 
-    try {
-      new URL(formState.url);
-    } catch {
-      setError('Please enter a valid URL (including https://)');
+    const optionErrors = [
+      ...validateOptions(state.options),
+      ...(page ? [] : validateAuth(state.auth)),
+    ];
+    if (optionErrors.length > 0) {
+      setError(optionErrors.join('. '));
       return;
     }
 
+    const { timeout, options, auth, budgets, ...rest } = state;
+    const request = page
+      ? {
+          ...rest,
+          url: uploadedPageUrl(page),
+          options: normalizeOptions(options),
+        }
+      : {
+          ...rest,
+          options: normalizeOptions(options),
+          auth: normalizeAuth(auth),
+        };
+
     setLoading(true);
     setError(null);
     setResult(null);
-    setProgress(0);
-    setProgressText('Extracting...');
+    setStages(page ? planOfflineStages(request) : planStages(request));
+    setStartedAt(performance.now());
 
-    try {
-      const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || '';
-
-      const response = await fetch(`${BACKEND_URL}/api/extract`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formState),
-      });
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-      const data = await response.json();
+    const onProgress = (event: ExtractionProgressEvent) =>
+      setStages((prev) => applyProgressEvent(prev, event, performance.now()));
 
-      if (!response.ok) {
-        throw new Error(data.message || 'Extraction failed');
-      }
+    try {
+      const response = page
+        ? await extractOffline(page, request, {
+            signal: controller.signal,
+            timeout: timeout * 1000,
+            onProgress,
+          })
+        : await extractCriticalCss(request, {
+            signal: controller.signal,
+            timeout: timeout * 1000,
+            onProgress,
+            onRetry: (attempt, delay, err) =>
+              setRetryNotice(
+                `${err.message}. Retrying in ${formatTime(delay)} (attempt ${attempt})`
+              ),
+          });
 
-      setProgress(100);
-      setProgressText('Complete!');
+      const data = {
+        ...response,
+        options: response.options ?? request.options,
+      };
+      const entry = createHistoryEntry(
+        request,
+        data,
+        projects.activeProject?.id
+      );
       setResult(data);
+      setResultId(entry.id);
+      if (data.success) {
+        history.addEntry(entry);
+      }
+      focusAfterRunRef.current = data.success ? 'result' : 'form';
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : 'An unknown error occurred'
-      );
+      // A user cancel is not an error; a timeout is reported by the client.
+      if (!controller.signal.aborted) {
+        setError(
+          err instanceof Error ? err.message : 'An unknown error occurred'
+        );
+        focusAfterRunRef.current = 'error';
+      } else {
+        focusAfterRunRef.current = 'form';
+      }
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
-      if (!result) {
-        setProgress(0);
-        setProgressText('');
-      }
+      setStages([]);
+      setRetryNotice(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (source === 'upload' && !uploadedPage) {
+      setError('Choose an HTML file to extract from');
+      return;
     }
+    runExtraction(formState, source === 'upload' ? uploadedPage : null);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleLoadHistory = (entry: HistoryEntry) => {
+    setError(null);
+    setResult(entry.result);
+    setResultId(entry.id);
+  };
+
+  const handleRerunHistory = (entry: HistoryEntry) => {
+    if (isUploadedPageUrl(entry.request.url)) return;
+    const next = {
+      ...formState,
+      ...entry.request,
+      options: entry.request.options ?? DEFAULT_EXTRACTION_OPTIONS,
+    };
+    setFormState(next);
+    setSource('url');
+    runExtraction(next);
   };
 
   const getViewportIcon = (viewport: string) => {
@@ -178,21 +431,25 @@ export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
   };
 
   const renderCodeBlock = (
-    css: string,
+    { css, steps }: PostProcessResult,
     size: number,
-    extractionTime: number,
+    extractionTime: number | undefined,
     key: string
   ) => (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
           <Badge variant="secondary" className="font-mono">
-            {formatBytes(size)}
-          </Badge>
-          <Badge variant="outline">
-            <Clock className="w-3 h-3 mr-1" />
-            {formatTime(extractionTime)}
+            {steps.length > 0
+              ? `${formatBytes(size)} → ${formatBytes(steps[steps.length - 1].after)}`
+              : formatBytes(size)}
           </Badge>
+          {extractionTime !== undefined && (
+            <Badge variant="outline">
+              <Clock className="w-3 h-3 mr-1" />
+              {formatTime(extractionTime)}
+            </Badge>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <Button
@@ -210,56 +467,404 @@ export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => downloadCSS(css, `critical-${key}.css`)}
+            onClick={() =>
+              downloadCSS(
+                css,
+                result
+                  ? `${exportBaseName(result)}-${key}.css`
+                  : `critical-${key}.css`
+              )
+            }
             className="h-8 px-2"
           >
             <Download className="w-4 h-4" />
           </Button>
         </div>
       </div>
-      <div className="rounded-lg border border-border/50 bg-card overflow-hidden">
-        <ScrollArea className="h-80">
-          <pre className="p-4 text-sm font-mono leading-relaxed">
-            <code className="text-foreground/90">{css}</code>
-          </pre>
-        </ScrollArea>
-      </div>
+      {steps.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {steps.map((step) => (
+            <Badge key={step.id} variant="outline" className="font-normal">
+              {STEP_LABELS[step.id]}
+              <span className="ml-1 font-mono text-muted-foreground">
+                {formatBytes(step.before)} → {formatBytes(step.after)}
+              </span>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <CssViewer css={css} />
     </div>
   );
 
+  // The result with its combined output merged by the chosen strategy.
+  const shownResult = useMemo(
+    () => (result ? withCombinedStrategy(result, combine) : null),
+    [result, combine]
+  );
+  const outputs = useMemo(
+    () => (shownResult ? getCssOutputs(shownResult) : []),
+    [shownResult]
+  );
+  const processed = usePostProcessed(outputs, postProcess);
+  // Budgets gate the CSS as shown, after the combine strategy and
+  // post-processing; sizes are still shown when measuring fails.
+  const budgetChecks = useBudgetChecks(
+    shownResult,
+    processed.outputs,
+    formState.budgets
+  );
+  const checkedResult = useMemo(
+    () =>
+      shownResult && budgetChecks.checks
+        ? withBudgetValidation(
+            shownResult,
+            budgetChecks.checks,
+            formState.budgets.metric
+          )
+        : shownResult,
+    [shownResult, budgetChecks.checks, formState.budgets.metric]
+  );
+  const validation = checkedResult?.validation;
+  const hasCustomViewports = formState.options.viewports.length > 0;
+  const budgetViewportKeys = hasCustomViewports
+    ? formState.options.viewports.map((vp) => vp.name.trim()).filter(Boolean)
+    : formState.viewport === 'both'
+      ? ['mobile', 'desktop']
+      : [];
+
+  const getOutputIcon = (kind: ResultOutput['kind']) => {
+    switch (kind) {
+      case 'custom':
+        return <Frame className="w-4 h-4" />;
+      case 'single':
+        return getViewportIcon(result?.viewport ?? 'both');
+      default:
+        return getViewportIcon(kind);
+    }
+  };
+
+  const integrationTrigger = (
+    <TabsTrigger value="integration" className="h-9">
+      <Code2 className="w-4 h-4 mr-2" />
+      Integration
+    </TabsTrigger>
+  );
+
+  const integrationContent = shownResult && (
+    <TabsContent value="integration">
+      <IntegrationSnippet result={shownResult} combine={combine} />
+    </TabsContent>
+  );
+
+  const reportTrigger = result?.report && (
+    <TabsTrigger value="report" className="h-9">
+      <ListTree className="w-4 h-4 mr-2" />
+      Report
+    </TabsTrigger>
+  );
+
+  const reportContent = result?.report && (
+    <TabsContent value="report">
+      <CoverageReport report={result.report} />
+    </TabsContent>
+  );
+
+  const previewTargets = useMemo(
+    () => (result ? getPreviewTargets(result) : []),
+    [result]
+  );
+
+  const previewTrigger = previewTargets.length > 0 && (
+    <TabsTrigger value="preview" className="h-9">
+      <Eye className="w-4 h-4 mr-2" />
+      Preview
+    </TabsTrigger>
+  );
+
+  const previewContent = result && previewTargets.length > 0 && (
+    <TabsContent value="preview">
+      <PreviewPanel result={result} targets={previewTargets} />
+    </TabsContent>
+  );
+
+  const extraTabCount =
+    1 + (result?.report ? 1 : 0) + (previewTargets.length > 0 ? 1 : 0);
+
+  // Result tabs in the order they are shown; a tab picked for an earlier
+  // result stays selected when the new one has it too.
+  const tabs = [
+    ...outputs.map((output) => ({
+      key: output.key,
+      label: output.kind === 'single' ? 'Critical CSS' : output.key,
+    })),
+    ...(result?.report ? [{ key: 'report', label: 'Report' }] : []),
+    ...(previewTargets.length > 0
+      ? [{ key: 'preview', label: 'Preview' }]
+      : []),
+    { key: 'integration', label: 'Integration' },
+  ];
+  const currentTab = tabs.some((tab) => tab.key === activeTab)
+    ? activeTab
+    : (outputs[0]?.key ?? '');
+  const activeOutput = result?.success
+    ? outputs.find((output) => output.key === currentTab)
+    : undefined;
+
+  const copyActive = () => {
+    if (activeOutput) {
+      copyToClipboard(processed.get(activeOutput).css, activeOutput.key);
+    }
+  };
+
+  const downloadActive = () => {
+    if (activeOutput && result) {
+      downloadCSS(
+        processed.get(activeOutput).css,
+        `${exportBaseName(result)}-${activeOutput.key}.css`
+      );
+    }
+  };
+
+  const runFromKeyboard = () => {
+    if (!loading) formRef.current?.requestSubmit();
+  };
+
+  const showHistory = () => {
+    historyRef.current?.scrollIntoView({ behavior: 'smooth' });
+    historyRef.current?.focus({ preventScroll: true });
+  };
+
+  const showAdvancedOptions = () => {
+    setAdvancedOpen(true);
+    advancedRef.current?.scrollIntoView({ behavior: 'smooth' });
+    advancedRef.current
+      ?.querySelector<HTMLElement>('[aria-controls="advanced-options"]')
+      ?.focus({ preventScroll: true });
+  };
+
+  const toggleTheme = () => setTheme(theme === 'dark' ? 'light' : 'dark');
+
+  useKeyboardShortcuts({
+    palette: () => setPaletteOpen((prev) => !prev),
+    run: runFromKeyboard,
+    cancel: loading ? handleCancel : undefined,
+    'result-tab': (index = 0) => {
+      if (result?.success && tabs[index]) setActiveTab(tabs[index].key);
+    },
+    copy: activeOutput ? copyActive : undefined,
+    download: activeOutput ? downloadActive : undefined,
+    history: showHistory,
+    advanced: showAdvancedOptions,
+    theme: toggleTheme,
+    help: () => setShortcutsOpen(true),
+  });
+
+  useEffect(() => {
+    if (loading || !focusAfterRunRef.current) return;
+    const target = {
+      result: resultHeadingRef.current,
+      error: errorRef.current,
+      form: submitRef.current,
+    }[focusAfterRunRef.current];
+    focusAfterRunRef.current = null;
+    target?.focus();
+  }, [loading, result, error]);
+
+  const paletteActions: PaletteAction[] = [
+    {
+      id: 'run',
+      group: 'Extraction',
+      label: 'Run extraction',
+      icon: Play,
+      shortcut: 'run',
+      disabled: loading,
+      run: runFromKeyboard,
+    },
+    {
+      id: 'cancel',
+      group: 'Extraction',
+      label: 'Cancel extraction',
+      icon: X,
+      shortcut: 'cancel',
+      disabled: !loading,
+      run: handleCancel,
+    },
+    ...(['mobile', 'desktop', 'both'] as const).map((viewport) => ({
+      id: `viewport-${viewport}`,
+      group: 'Extraction',
+      label: `Extract for ${viewport === 'both' ? 'mobile + desktop' : viewport}`,
+      icon:
+        viewport === 'mobile'
+          ? Smartphone
+          : viewport === 'desktop'
+            ? Monitor
+            : Layers,
+      keywords: ['viewport'],
+      disabled: loading || hasCustomViewports,
+      run: () => handleInputChange('viewport', viewport),
+    })),
+    {
+      id: 'advanced',
+      group: 'Extraction',
+      label: 'Go to advanced options',
+      icon: SlidersHorizontal,
+      shortcut: 'advanced',
+      run: showAdvancedOptions,
+    },
+    ...(result?.success
+      ? tabs.map((tab, index) => ({
+          id: `tab-${tab.key}`,
+          group: 'Result',
+          label: `Show ${tab.label} tab`,
+          icon: Layers,
+          keywords: ['tab', 'viewport', String(index + 1)],
+          run: () => setActiveTab(tab.key),
+        }))
+      : []),
+    {
+      id: 'copy',
+      group: 'Result',
+      label: activeOutput ? `Copy ${activeOutput.key} CSS` : 'Copy CSS',
+      icon: Copy,
+      shortcut: 'copy',
+      disabled: !activeOutput,
+      run: copyActive,
+    },
+    {
+      id: 'download',
+      group: 'Result',
+      label: activeOutput ? `Download ${activeOutput.key} CSS` : 'Download CSS',
+      icon: Download,
+      shortcut: 'download',
+      disabled: !activeOutput,
+      run: downloadActive,
+    },
+    {
+      id: 'history',
+      group: 'General',
+      label: 'Open history',
+      icon: History,
+      shortcut: 'history',
+      run: showHistory,
+    },
+    {
+      id: 'theme',
+      group: 'General',
+      label:
+        theme === 'dark' ? 'Switch to light theme' : 'Switch to dark theme',
+      icon: SunMoon,
+      shortcut: 'theme',
+      run: toggleTheme,
+    },
+    {
+      id: 'help',
+      group: 'General',
+      label: 'Show keyboard shortcuts',
+      icon: Keyboard,
+      shortcut: 'help',
+      run: () => setShortcutsOpen(true),
+    },
+  ];
+
   return (
     <div className="space-y-6">
       <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
         <CardHeader>
-          <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
-              <FileCode className="w-5 h-5 text-primary" />
-            </div>
-            <div>
-              <CardTitle>Extract Critical CSS</CardTitle>
-              <CardDescription>
-                Analyze any URL and extract above-the-fold CSS
-              </CardDescription>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <FileCode className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle>Extract Critical CSS</CardTitle>
+                <CardDescription>
+                  Analyze any URL and extract above-the-fold CSS
+                </CardDescription>
+              </div>
             </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setPaletteOpen(true)}
+              className="h-8 px-2 text-muted-foreground"
+              aria-label="Open the command palette"
+            >
+              <Keyboard className="w-4 h-4 mr-2" />
+              <ShortcutKeys keys={['Mod', 'K']} />
+            </Button>
           </div>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-6">
+          <form ref={formRef} onSubmit={handleSubmit} className="space-y-6">
+            <ProjectPanel
+              projects={projects.projects}
+              activeProject={projects.activeProject}
+              entries={history.entries}
+              settings={{
+                viewport: formState.viewport,
+                includeShadows: formState.includeShadows,
+                options: formState.options,
+                budgets: formState.budgets,
+              }}
+              disabled={loading}
+              onSelect={handleSelectProject}
+              onSave={projects.saveProject}
+              onDelete={(project) => projects.removeProject(project.id)}
+              onImport={handleImportProjects}
+              onOpenPath={(url) => handleInputChange('url', url)}
+            />
+
             <div className="space-y-3">
-              <Label htmlFor="url" className="text-sm font-medium">
-                Target URL
-              </Label>
-              <div className="relative">
-                <Input
-                  id="url"
-                  type="url"
-                  placeholder="https://example.com"
-                  value={formState.url}
-                  onChange={(e) => handleInputChange('url', e.target.value)}
+              <div className="flex items-center justify-between gap-3">
+                <Label
+                  htmlFor={source === 'url' ? 'url' : undefined}
+                  className="text-sm font-medium"
+                >
+                  {source === 'url' ? 'Target URL' : 'Page files'}
+                </Label>
+                <div className="flex rounded-md border border-border/50 p-0.5">
+                  {(['url', 'upload'] as const).map((value) => (
+                    <Button
+                      key={value}
+                      type="button"
+                      variant={source === value ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setSource(value)}
+                      disabled={loading}
+                      aria-pressed={source === value}
+                      className="h-7 px-2 text-xs"
+                    >
+                      {value === 'url' ? (
+                        <Globe className="w-3.5 h-3.5 mr-1.5" />
+                      ) : (
+                        <Upload className="w-3.5 h-3.5 mr-1.5" />
+                      )}
+                      {value === 'url' ? 'URL' : 'Upload files'}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {source === 'url' ? (
+                <div className="relative">
+                  <Input
+                    id="url"
+                    type="url"
+                    placeholder="https://example.com"
+                    value={formState.url}
+                    onChange={(e) => handleInputChange('url', e.target.value)}
+                    disabled={loading}
+                    className="h-11 pl-4 pr-4 border-border/50 focus:border-primary focus:ring-1 focus:ring-primary"
+                  />
+                </div>
+              ) : (
+                <OfflineUpload
+                  page={uploadedPage}
+                  onChange={setUploadedPage}
                   disabled={loading}
-                  className="h-11 pl-4 pr-4 border-border/50 focus:border-primary focus:ring-1 focus:ring-primary"
                 />
-              </div>
+              )}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -276,7 +881,7 @@ export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
                     <TabsTrigger
                       value="mobile"
                       className="h-9"
-                      disabled={loading}
+                      disabled={loading || hasCustomViewports}
                     >
                       <Smartphone className="w-4 h-4 mr-2" />
                       Mobile
@@ -284,7 +889,7 @@ export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
                     <TabsTrigger
                       value="desktop"
                       className="h-9"
-                      disabled={loading}
+                      disabled={loading || hasCustomViewports}
                     >
                       <Monitor className="w-4 h-4 mr-2" />
                       Desktop
@@ -292,13 +897,19 @@ export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
                     <TabsTrigger
                       value="both"
                       className="h-9"
-                      disabled={loading}
+                      disabled={loading || hasCustomViewports}
                     >
                       <Layers className="w-4 h-4 mr-2" />
                       Both
                     </TabsTrigger>
                   </TabsList>
                 </Tabs>
+                {hasCustomViewports && (
+                  <p className="text-xs text-muted-foreground">
+                    Using {formState.options.viewports.length} custom
+                    viewport(s) from advanced options
+                  </p>
+                )}
               </div>
 
               <div className="space-y-3">
@@ -317,38 +928,118 @@ export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
                     Include box-shadow properties
                   </Label>
                 </div>
+                <div className="flex items-center justify-between gap-3 h-11 px-3 rounded-md border border-border/50 bg-background/50">
+                  <Label htmlFor="timeout" className="text-sm">
+                    Timeout in seconds (0 = none)
+                  </Label>
+                  <Input
+                    id="timeout"
+                    type="number"
+                    min={0}
+                    value={formState.timeout}
+                    onChange={(e) =>
+                      handleInputChange(
+                        'timeout',
+                        Math.max(0, Number(e.target.value) || 0)
+                      )
+                    }
+                    disabled={loading}
+                    className="h-8 w-20 border-border/50"
+                  />
+                </div>
               </div>
             </div>
 
-            {loading && (
-              <div className="space-y-3 animate-scale-in">
-                <div className="flex items-center justify-between text-sm">
-                  <span className="text-muted-foreground">{progressText}</span>
-                </div>
-                <Progress value={50} className="h-2 animate-pulse" />
-              </div>
+            <div ref={advancedRef}>
+              <AdvancedOptions
+                options={formState.options}
+                onChange={(options) => handleInputChange('options', options)}
+                disabled={loading}
+                open={advancedOpen}
+                onOpenChange={setAdvancedOpen}
+              />
+            </div>
+
+            {source === 'url' && (
+              <AuthOptions
+                auth={formState.auth}
+                onChange={(auth) => handleInputChange('auth', auth)}
+                disabled={loading}
+              />
             )}
 
-            <Button
-              type="submit"
+            <BudgetSettings
+              budgets={formState.budgets}
+              onChange={(budgets) => handleInputChange('budgets', budgets)}
+              viewportKeys={budgetViewportKeys}
               disabled={loading}
-              className="w-full h-11 text-base font-medium"
-            >
-              {loading ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Extracting...
-                </>
-              ) : (
-                <>
-                  <Play className="w-4 h-4 mr-2" />
-                  Extract Critical CSS
-                </>
+            />
+
+            {loading && (
+              <ExtractionProgress
+                stages={stages}
+                startedAt={startedAt}
+                notice={retryNotice}
+              />
+            )}
+
+            <div className="flex gap-3">
+              <Button
+                ref={submitRef}
+                type="submit"
+                disabled={loading}
+                className="flex-1 h-11 text-base font-medium"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Extracting...
+                  </>
+                ) : (
+                  <>
+                    <Play className="w-4 h-4 mr-2" />
+                    Extract Critical CSS
+                  </>
+                )}
+              </Button>
+              {loading && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleCancel}
+                  className="h-11"
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
               )}
-            </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowShare((prev) => !prev)}
+                disabled={source === 'upload' || !formState.url.trim()}
+                aria-expanded={showShare}
+                className="h-11"
+              >
+                <Share2 className="w-4 h-4 mr-2" />
+                Share
+              </Button>
+            </div>
+
+            {showShare && source === 'url' && formState.url.trim() && (
+              <ShareLink
+                request={sharedRequest}
+                result={result?.success ? result : null}
+              />
+            )}
 
             {error && (
-              <div className="flex items-start gap-3 p-4 rounded-lg border border-destructive/30 bg-destructive/10 animate-scale-in">
+              <div
+                ref={errorRef}
+                role="alert"
+                tabIndex={-1}
+                className="flex items-start gap-3 p-4 rounded-lg border border-destructive/30 bg-destructive/10 animate-scale-in focus:outline-none"
+              >
                 <AlertCircle className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
                 <div className="space-y-1">
                   <p className="text-sm font-medium text-destructive">
@@ -363,10 +1054,17 @@ export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
       </Card>
 
       {result && result.success && (
-        <Card className="border-border/50 bg-card/50 backdrop-blur-sm animate-slide-up">
+        <Card
+          key={resultId}
+          className="border-border/50 bg-card/50 backdrop-blur-sm animate-slide-up"
+        >
           <CardHeader>
             <div className="flex items-center justify-between">
-              <div className="flex items-center gap-3">
+              <div
+                ref={resultHeadingRef}
+                tabIndex={-1}
+                className="flex items-center gap-3 focus:outline-none"
+              >
                 <div className="w-10 h-10 rounded-lg bg-emerald-500/10 flex items-center justify-center">
                   <Check className="w-5 h-5 text-emerald-500" />
                 </div>
@@ -376,27 +1074,42 @@ export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
                     <span>{result.url}</span>
                     <Separator orientation="vertical" className="h-4" />
                     <span className="flex items-center gap-1">
-                      {getViewportIcon(result.viewport)}
-                      {result.viewport === 'both'
-                        ? 'Mobile + Desktop'
-                        : result.viewport}
+                      {result.viewports ? (
+                        <>
+                          <Frame className="w-4 h-4" />
+                          {Object.keys(result.viewports).join(', ')}
+                        </>
+                      ) : (
+                        <>
+                          {getViewportIcon(result.viewport)}
+                          {result.viewport === 'both'
+                            ? 'Mobile + Desktop'
+                            : result.viewport}
+                        </>
+                      )}
                     </span>
                   </CardDescription>
                 </div>
               </div>
-              {result.processingTime && (
-                <Badge variant="success" className="font-mono">
-                  <Clock className="w-3 h-3 mr-1" />
-                  {formatTime(result.processingTime)}
-                </Badge>
-              )}
+              <div className="flex items-center gap-2">
+                {result.processingTime && (
+                  <Badge variant="success" className="font-mono">
+                    <Clock className="w-3 h-3 mr-1" />
+                    {formatTime(result.processingTime)}
+                  </Badge>
+                )}
+                <ExportMenu
+                  result={checkedResult ?? result}
+                  outputs={processed.outputs}
+                />
+              </div>
             </div>
           </CardHeader>
           <CardContent>
-            {(result.validation?.errors.length ?? 0) > 0 ||
-            (result.validation?.warnings.length ?? 0) > 0 ? (
+            {(validation?.errors.length ?? 0) > 0 ||
+            (validation?.warnings.length ?? 0) > 0 ? (
               <div className="space-y-3 mb-6">
-                {result.validation?.errors.map((err, idx) => (
+                {validation?.errors.map((err, idx) => (
                   <div
                     key={`error-${idx}`}
                     className="flex items-start gap-3 p-3 rounded-lg border border-destructive/30 bg-destructive/5"
@@ -405,7 +1118,7 @@ export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
                     <p className="text-sm text-destructive/80">{err}</p>
                   </div>
                 ))}
-                {result.validation?.warnings.map((warn, idx) => (
+                {validation?.warnings.map((warn, idx) => (
                   <div
                     key={`warning-${idx}`}
                     className="flex items-start gap-3 p-3 rounded-lg border border-amber-500/30 bg-amber-500/5"
@@ -417,86 +1130,116 @@ export default function ExtractorForm({ initialUrl = '' }: ExtractorFormProps) {
               </div>
             ) : null}
 
-            {formState.viewport === 'both' &&
-            result.mobile &&
-            result.desktop ? (
-              <Tabs defaultValue="combined" className="w-full">
-                <TabsList className="grid w-full grid-cols-3 h-11 mb-4">
-                  <TabsTrigger value="combined" className="h-9">
-                    <Layers className="w-4 h-4 mr-2" />
-                    Combined
-                    <Badge
-                      variant="secondary"
-                      className="ml-2 font-mono text-xs"
-                    >
-                      {formatBytes(result.combined?.size ?? 0)}
-                    </Badge>
-                  </TabsTrigger>
-                  <TabsTrigger value="mobile" className="h-9">
-                    <Smartphone className="w-4 h-4 mr-2" />
-                    Mobile
-                    <Badge
-                      variant="secondary"
-                      className="ml-2 font-mono text-xs"
-                    >
-                      {formatBytes(result.mobile.size)}
-                    </Badge>
-                  </TabsTrigger>
-                  <TabsTrigger value="desktop" className="h-9">
-                    <Monitor className="w-4 h-4 mr-2" />
-                    Desktop
-                    <Badge
-                      variant="secondary"
-                      className="ml-2 font-mono text-xs"
+            <div className="mb-6 space-y-6">
+              <BudgetSummary
+                checks={budgetChecks.checks}
+                error={budgetChecks.error}
+                budgets={formState.budgets}
+              />
+              <PostProcessPanel
+                options={postProcess}
+                onChange={setPostProcess}
+                pending={processed.pending}
+                error={processed.error}
+              />
+            </div>
+
+            {outputs.length > 0 && (
+              <Tabs
+                value={currentTab}
+                onValueChange={setActiveTab}
+                className="w-full"
+              >
+                <TabsList
+                  className="grid w-full h-11 mb-4"
+                  style={{
+                    gridTemplateColumns: `repeat(${outputs.length + extraTabCount}, minmax(0, 1fr))`,
+                  }}
+                >
+                  {outputs.map((output) => (
+                    <TabsTrigger
+                      key={output.key}
+                      value={output.key}
+                      className="h-9"
                     >
-                      {formatBytes(result.desktop.size)}
-                    </Badge>
-                  </TabsTrigger>
+                      {getOutputIcon(output.kind)}
+                      <span className="ml-2 truncate capitalize">
+                        {output.kind === 'single' ? 'Critical CSS' : output.key}
+                      </span>
+                      {output.kind !== 'single' && (
+                        <Badge
+                          variant="secondary"
+                          className="ml-2 font-mono text-xs"
+                        >
+                          {formatBytes(output.size)}
+                        </Badge>
+                      )}
+                    </TabsTrigger>
+                  ))}
+                  {reportTrigger}
+                  {previewTrigger}
+                  {integrationTrigger}
                 </TabsList>
 
-                <TabsContent value="combined">
-                  {result.combined &&
-                    renderCodeBlock(
-                      result.combined.css,
-                      result.combined.size,
-                      (result.mobile?.extractionTime ?? 0) +
-                        (result.desktop?.extractionTime ?? 0),
-                      'combined'
-                    )}
-                </TabsContent>
-
-                <TabsContent value="mobile">
-                  {result.mobile &&
-                    renderCodeBlock(
-                      result.mobile.css,
-                      result.mobile.size,
-                      result.mobile.extractionTime,
-                      'mobile'
+                {outputs.map((output) => (
+                  <TabsContent
+                    key={output.key}
+                    value={output.key}
+                    className="space-y-4"
+                  >
+                    {output.kind === 'combined' && canCombine(result) && (
+                      <CombineStrategyPicker
+                        result={result}
+                        value={combine}
+                        onChange={setCombine}
+                      />
                     )}
-                </TabsContent>
-
-                <TabsContent value="desktop">
-                  {result.desktop &&
-                    renderCodeBlock(
-                      result.desktop.css,
-                      result.desktop.size,
-                      result.desktop.extractionTime,
-                      'desktop'
+                    {renderCodeBlock(
+                      processed.get(output),
+                      output.size,
+                      output.extractionTime,
+                      output.key
                     )}
-                </TabsContent>
+                  </TabsContent>
+                ))}
+
+                {reportContent}
+                {previewContent}
+                {integrationContent}
               </Tabs>
-            ) : (
-              result.css &&
-              renderCodeBlock(
-                result.css,
-                result.size ?? 0,
-                result.extractionTime ?? 0,
-                'single'
-              )
             )}
           </CardContent>
         </Card>
       )}
+
+      <section
+        ref={historyRef}
+        tabIndex={-1}
+        aria-label="Extraction history"
+        className="focus:outline-none"
+      >
+        <HistoryPanel
+          entries={
+            projects.activeProject
+              ? history.entries.filter(
+                  (entry) => entry.projectId === projects.activeProject?.id
+                )
+              : history.entries
+          }
+          disabled={loading}
+          onLoad={handleLoadHistory}
+          onRerun={handleRerunHistory}
+          onDelete={(entry) => history.removeEntry(entry.id)}
+          onImport={history.importEntries}
+        />
+      </section>
+
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        actions={paletteActions}
+      />
+      <ShortcutsDialog open={shortcutsOpen} onOpenChange={setShortcutsOpen} />
     </div>
   );
 }
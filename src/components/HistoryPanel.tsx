@@ -0,0 +1,205 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertCircle,
+  Download,
+  Eye,
+  History,
+  Layers,
+  Monitor,
+  RotateCw,
+  Smartphone,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import { serializeHistory, type HistoryEntry } from '@/lib/history';
+import { isUploadedPageUrl } from '@/lib/offline';
+import { downloadBlob, formatBytes } from '@/lib/utils';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  disabled?: boolean;
+  onLoad: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  onImport: (json: string) => Promise<number>;
+}
+
+const viewportIcons = {
+  mobile: Smartphone,
+  desktop: Monitor,
+  both: Layers,
+};
+
+export default function HistoryPanel({
+  entries,
+  disabled = false,
+  onLoad,
+  onRerun,
+  onDelete,
+  onImport,
+}: HistoryPanelProps) {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob([serializeHistory(entries)], { type: 'application/json' }),
+      `critical-css-history-${new Date().toISOString().slice(0, 10)}.json`
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      await onImport(await file.text());
+      setError(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? `Import failed: ${err.message}` : 'Import failed'
+      );
+    }
+  };
+
+  return (
+    <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+              <History className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle>History</CardTitle>
+              <CardDescription>
+                Past extractions saved in this browser
+              </CardDescription>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              className="h-8 px-2"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleExport}
+              disabled={entries.length === 0}
+              className="h-8 px-2"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <div className="flex items-start gap-3 p-3 rounded-lg border border-destructive/30 bg-destructive/5">
+            <AlertCircle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+            <p className="text-sm text-destructive/80">{error}</p>
+          </div>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No extractions yet. Results are saved here automatically.
+          </p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto rounded-lg border border-border/50">
+            <ul className="divide-y divide-border/50">
+              {entries.map((entry) => {
+                const ViewportIcon = viewportIcons[entry.request.viewport];
+                const size = entry.sizes.combined ?? entry.sizes.single;
+                return (
+                  <li
+                    key={entry.id}
+                    className="flex items-center justify-between gap-3 px-4 py-2"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <p className="font-mono text-xs truncate">
+                        {entry.request.url}
+                      </p>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <ViewportIcon className="w-3 h-3" />
+                        <span>
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </span>
+                        {size !== undefined && (
+                          <Badge variant="secondary" className="font-mono">
+                            {formatBytes(size)}
+                          </Badge>
+                        )}
+                        {entry.request.includeShadows && (
+                          <Badge variant="outline">shadows</Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onLoad(entry)}
+                        className="h-8 px-2"
+                        aria-label="Show result"
+                      >
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onRerun(entry)}
+                        disabled={
+                          disabled || isUploadedPageUrl(entry.request.url)
+                        }
+                        className="h-8 px-2"
+                        aria-label="Re-run extraction"
+                      >
+                        <RotateCw className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onDelete(entry)}
+                        className="h-8 px-2"
+                        aria-label="Delete entry"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, Copy, Download } from 'lucide-react';
+import ApplyToHtml from '@/components/ApplyToHtml';
+import type { CombineSettings } from '@/lib/combine';
+import { exportBaseName } from '@/lib/export';
+import type { ApplyOptions } from '@/lib/html-inject';
+import {
+  DEFAULT_BREAKPOINT,
+  buildHeadSnippet,
+  canSplitViewports,
+  type StylesheetLoading,
+} from '@/lib/snippet';
+import type { ExtractionResult } from '@/lib/types';
+import { downloadBlob, formatBytes } from '@/lib/utils';
+
+interface IntegrationSnippetProps {
+  result: ExtractionResult;
+  /** With `media-blocks`, the viewports are always split at its breakpoint. */
+  combine?: CombineSettings;
+}
+
+export default function IntegrationSnippet({
+  result,
+  combine,
+}: IntegrationSnippetProps) {
+  const [stylesheetList, setStylesheetList] = useState(
+    (result.stylesheets ?? []).join('\n')
+  );
+  const [loading, setLoading] = useState<StylesheetLoading>('preload');
+  const [nonce, setNonce] = useState('');
+  const [splitViewports, setSplitViewports] = useState(false);
+  const [breakpoint, setBreakpoint] = useState(DEFAULT_BREAKPOINT);
+  const [copied, setCopied] = useState(false);
+
+  const splittable = canSplitViewports(result);
+  const forceSplit = splittable && combine?.strategy === 'media-blocks';
+  const split = forceSplit || (splittable && splitViewports);
+  const splitAt = forceSplit ? combine.breakpoint : breakpoint;
+
+  const applyOptions = useMemo<ApplyOptions>(
+    () => ({
+      loading,
+      nonce: nonce.trim() || undefined,
+      splitViewports: split,
+      breakpoint: splitAt,
+    }),
+    [loading, nonce, split, splitAt]
+  );
+
+  const snippet = useMemo(
+    () =>
+      buildHeadSnippet(result, {
+        ...applyOptions,
+        stylesheets: stylesheetList
+          .split('\n')
+          .map((line) => line.trim())
+          .filter(Boolean),
+      }),
+    [result, applyOptions, stylesheetList]
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2 md:row-span-2">
+          <Label htmlFor="stylesheets" className="text-sm font-medium">
+            Original stylesheets
+          </Label>
+          <Textarea
+            id="stylesheets"
+            placeholder="/assets/main.css"
+            value={stylesheetList}
+            onChange={(e) => setStylesheetList(e.target.value)}
+            className="min-h-[120px] font-mono text-xs border-border/50"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Async loading</Label>
+          <Select
+            value={loading}
+            onValueChange={(value) => setLoading(value as StylesheetLoading)}
+          >
+            <SelectTrigger className="border-border/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="preload">
+                rel=&quot;preload&quot; + onload
+              </SelectItem>
+              <SelectItem value="media-print">
+                media=&quot;print&quot; swap
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="nonce" className="text-sm font-medium">
+            CSP nonce
+          </Label>
+          <Input
+            id="nonce"
+            placeholder="Optional"
+            value={nonce}
+            onChange={(e) => setNonce(e.target.value)}
+            className="font-mono border-border/50"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 h-11 px-3 rounded-md border border-border/50 bg-background/50">
+        <Switch
+          id="split-viewports"
+          checked={split}
+          onCheckedChange={setSplitViewports}
+          disabled={!splittable || forceSplit}
+        />
+        <Label htmlFor="split-viewports" className="text-sm">
+          Split mobile and desktop with <code>media</code> at
+        </Label>
+        <Input
+          type="number"
+          min={1}
+          value={splitAt}
+          onChange={(e) =>
+            setBreakpoint(Math.max(1, Number(e.target.value) || 1))
+          }
+          disabled={!split || forceSplit}
+          className="h-8 w-20 border-border/50"
+          aria-label="Desktop breakpoint in pixels"
+        />
+        <span className="text-sm text-muted-foreground">px</span>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Badge variant="secondary" className="font-mono">
+            {formatBytes(new Blob([snippet]).size)}
+          </Badge>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleCopy}
+              className="h-8 px-2"
+            >
+              {copied ? (
+                <Check className="w-4 h-4 text-emerald-500" />
+              ) : (
+                <Copy className="w-4 h-4" />
+              )}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                downloadBlob(
+                  new Blob([snippet], { type: 'text/html' }),
+                  `${exportBaseName(result)}-head.html`
+                )
+              }
+              className="h-8 px-2"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="rounded-lg border border-border/50 bg-card overflow-hidden">
+          <ScrollArea className="h-80">
+            <pre className="p-4 text-sm font-mono leading-relaxed whitespace-pre-wrap break-all">
+              <code className="text-foreground/90">{snippet}</code>
+            </pre>
+          </ScrollArea>
+        </div>
+      </div>
+
+      <ApplyToHtml result={result} options={applyOptions} />
+    </div>
+  );
+}
@@ -0,0 +1,660 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Activity,
+  AlertCircle,
+  BellRing,
+  History,
+  Loader2,
+  Lock,
+  Pause,
+  Play,
+  Plus,
+  RotateCw,
+  Trash2,
+} from 'lucide-react';
+import {
+  DEFAULT_MONITOR_INPUT,
+  MONITOR_INTERVALS,
+  formatGrowth,
+  intervalLabel,
+  type MonitorInput,
+  type MonitorRun,
+} from '@/lib/monitor';
+import {
+  createMonitor,
+  deleteMonitor,
+  fetchMonitorRuns,
+  fetchMonitors,
+  runMonitorNow,
+  setMonitorToken,
+  testMonitorWebhook,
+  updateMonitor,
+  MonitorAuthError,
+  type MonitorSummary,
+} from '@/lib/monitor-api';
+import type { Viewport } from '@/lib/types';
+import { formatBytes } from '@/lib/utils';
+
+/** Picks up runs made by the job runner while the tab is open. */
+const REFRESH_INTERVAL = 30 * 1000;
+
+const changeVariants = {
+  initial: 'outline',
+  unchanged: 'secondary',
+  changed: 'warning',
+} as const;
+
+function formatDate(time: number | undefined) {
+  return time ? new Date(time).toLocaleString() : '—';
+}
+
+function RunStatus({ run }: { run: MonitorRun | null }) {
+  if (!run) return <span className="text-muted-foreground">Not run yet</span>;
+  if (run.status === 'failed') {
+    return <Badge variant="destructive">failed</Badge>;
+  }
+  return <Badge variant={changeVariants[run.change!]}>{run.change}</Badge>;
+}
+
+function AlertStatus({ run }: { run: MonitorRun }) {
+  if (!run.alert) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span
+      className={run.alert.delivered ? 'text-amber-500' : 'text-destructive/80'}
+      title={run.alert.error}
+    >
+      {run.alert.reasons.join(', ')}
+      {run.alert.delivered ? ' · sent' : ' · not sent'}
+    </span>
+  );
+}
+
+export default function MonitorPanel() {
+  const [monitors, setMonitors] = useState<MonitorSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<MonitorInput>(DEFAULT_MONITOR_INPUT);
+  const [threshold, setThreshold] = useState(
+    String(DEFAULT_MONITOR_INPUT.growthThreshold)
+  );
+  const [creating, setCreating] = useState(false);
+  const [busy, setBusy] = useState<Record<string, string>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<MonitorRun[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [authError, setAuthError] = useState<MonitorAuthError | null>(null);
+  const [token, setToken] = useState('');
+
+  /** Shows a failed request, or the token prompt when it was refused. */
+  const showError = useCallback((err: unknown, fallback: string) => {
+    if (err instanceof MonitorAuthError) setAuthError(err);
+    else setError(err instanceof Error ? err.message : fallback);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setMonitors(await fetchMonitors());
+      setAuthError(null);
+    } catch (err) {
+      showError(err, 'Could not load monitors');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const selected = monitors.find((monitor) => monitor.id === selectedId);
+  const lastRunId = selected?.lastRun?.id;
+  useEffect(() => {
+    if (!selectedId) return;
+    fetchMonitorRuns(selectedId)
+      .then(setRuns)
+      .catch((err) => showError(err, 'Could not load the timeline'));
+  }, [selectedId, lastRunId, showError]);
+
+  /** Runs `action` for one monitor, showing its spinner meanwhile. */
+  const withMonitor = async (
+    id: string,
+    label: string,
+    action: () => Promise<void>
+  ) => {
+    setBusy((current) => ({ ...current, [id]: label }));
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      showError(err, 'Monitor request failed');
+    } finally {
+      setBusy(({ [id]: _, ...rest }) => rest);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const growthThreshold = threshold.trim() === '' ? null : Number(threshold);
+    if (growthThreshold !== null && !(growthThreshold >= 0)) {
+      setError('Growth threshold must be a percentage of 0 or more');
+      return;
+    }
+    setCreating(true);
+    setError(null);
+    try {
+      const monitor = await createMonitor({
+        ...draft,
+        growthThreshold,
+        webhookUrl: draft.webhookUrl?.trim() || undefined,
+      });
+      setDraft({ ...DEFAULT_MONITOR_INPUT, webhookUrl: draft.webhookUrl });
+      setSelectedId(monitor.id);
+      await refresh();
+    } catch (err) {
+      showError(err, 'Could not add monitor');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = (monitor: MonitorSummary) => {
+    if (!window.confirm(`Stop monitoring ${monitor.url}?`)) return;
+    withMonitor(monitor.id, 'delete', async () => {
+      await deleteMonitor(monitor.id);
+      if (selectedId === monitor.id) setSelectedId(null);
+    });
+  };
+
+  const handleTestWebhook = (monitor: MonitorSummary) =>
+    withMonitor(monitor.id, 'webhook', async () => {
+      const delivery = await testMonitorWebhook(monitor.id);
+      setNotice(`Test event delivered (HTTP ${delivery.status})`);
+    });
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    setMonitorToken(token.trim() || null);
+    setToken('');
+    setError(null);
+    refresh();
+  };
+
+  if (authError) {
+    return (
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+              <Lock className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle>Monitor Pages</CardTitle>
+              <CardDescription>{authError.message}</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        {authError.status === 401 && (
+          <CardContent>
+            <form onSubmit={handleUnlock} className="flex gap-3">
+              <Input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                placeholder="MONITOR_API_TOKEN"
+                aria-label="Monitor API token"
+                autoComplete="off"
+                required
+                className="h-11 border-border/50"
+              />
+              <Button type="submit" className="h-11">
+                Unlock
+              </Button>
+            </form>
+          </CardContent>
+        )}
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+              <Activity className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle>Monitor Pages</CardTitle>
+              <CardDescription>
+                Re-extract pages on a schedule and get alerted when their
+                critical CSS drifts
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="space-y-6">
+            <div className="space-y-3">
+              <Label htmlFor="monitor-url" className="text-sm font-medium">
+                Page URL
+              </Label>
+              <Input
+                id="monitor-url"
+                type="url"
+                value={draft.url}
+                onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                placeholder="https://example.com"
+                required
+                disabled={creating}
+                className="h-11 border-border/50"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Viewport</Label>
+                <Select
+                  value={draft.viewport}
+                  onValueChange={(value) =>
+                    setDraft({ ...draft, viewport: value as Viewport })
+                  }
+                  disabled={creating}
+                >
+                  <SelectTrigger
+                    className="h-11 border-border/50"
+                    aria-label="Viewport"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mobile">Mobile</SelectItem>
+                    <SelectItem value="desktop">Desktop</SelectItem>
+                    <SelectItem value="both">Both</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Schedule</Label>
+                <Select
+                  value={String(draft.intervalMinutes)}
+                  onValueChange={(value) =>
+                    setDraft({ ...draft, intervalMinutes: Number(value) })
+                  }
+                  disabled={creating}
+                >
+                  <SelectTrigger
+                    className="h-11 border-border/50"
+                    aria-label="Schedule"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MONITOR_INTERVALS.map(({ minutes, label }) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-3">
+                <Label
+                  htmlFor="monitor-threshold"
+                  className="text-sm font-medium"
+                >
+                  Alert on growth over (%)
+                </Label>
+                <Input
+                  id="monitor-threshold"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  placeholder="Off"
+                  disabled={creating}
+                  className="h-11 border-border/50"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="monitor-webhook" className="text-sm font-medium">
+                Webhook URL
+              </Label>
+              <Input
+                id="monitor-webhook"
+                type="url"
+                value={draft.webhookUrl ?? ''}
+                onChange={(e) =>
+                  setDraft({ ...draft, webhookUrl: e.target.value })
+                }
+                placeholder="https://hooks.example.com/critical-css"
+                disabled={creating}
+                className="h-11 border-border/50"
+              />
+              <p className="text-xs text-muted-foreground">
+                Alerts are POSTed as JSON. Try it locally with{' '}
+                <code className="font-mono">npm run webhook:receive</code> and
+                http://localhost:4000.
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  id="monitor-change"
+                  checked={draft.alertOnChange}
+                  onCheckedChange={(checked) =>
+                    setDraft({ ...draft, alertOnChange: checked as boolean })
+                  }
+                  disabled={creating}
+                  className="border-primary"
+                />
+                <Label
+                  htmlFor="monitor-change"
+                  className="text-sm cursor-pointer"
+                >
+                  Alert on any change
+                </Label>
+              </div>
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  id="monitor-shadows"
+                  checked={draft.includeShadows}
+                  onCheckedChange={(checked) =>
+                    setDraft({ ...draft, includeShadows: checked as boolean })
+                  }
+                  disabled={creating}
+                  className="border-primary"
+                />
+                <Label
+                  htmlFor="monitor-shadows"
+                  className="text-sm cursor-pointer"
+                >
+                  Include box-shadow
+                </Label>
+              </div>
+            </div>
+
+            <Button
+              type="submit"
+              disabled={creating}
+              className="w-full h-11 text-base font-medium"
+            >
+              {creating ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4 mr-2" />
+              )}
+              Add monitor
+            </Button>
+
+            {error && (
+              <div className="flex items-start gap-3 p-4 rounded-lg border border-destructive/30 bg-destructive/10 animate-scale-in">
+                <AlertCircle className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
+                <p className="text-sm text-destructive/80">{error}</p>
+              </div>
+            )}
+            {notice && (
+              <p className="text-sm text-muted-foreground">{notice}</p>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      {(loading || monitors.length > 0) && (
+        <Card className="border-border/50 bg-card/50 backdrop-blur-sm animate-slide-up">
+          <CardHeader>
+            <CardTitle>Monitors</CardTitle>
+            <CardDescription>
+              Due monitors run each time the job route is called, e.g. every
+              minute by <code className="font-mono">npm run monitor</code>
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <Loader2 className="w-5 h-5 mx-auto animate-spin text-muted-foreground" />
+            ) : (
+              <div className="rounded-lg border border-border/50 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 text-muted-foreground">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium">URL</th>
+                      <th className="px-4 py-2 text-left font-medium">
+                        Schedule
+                      </th>
+                      <th className="px-4 py-2 text-left font-medium">
+                        Last run
+                      </th>
+                      <th className="px-4 py-2 text-left font-medium">
+                        Next run
+                      </th>
+                      <th className="px-4 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {monitors.map((monitor) => {
+                      const action = busy[monitor.id];
+                      return (
+                        <tr
+                          key={monitor.id}
+                          className="border-t border-border/50"
+                        >
+                          <td className="px-4 py-2 font-mono text-xs break-all">
+                            {monitor.url}
+                            {monitor.lastRun?.error && (
+                              <p className="mt-1 font-sans text-destructive/80">
+                                {monitor.lastRun.error}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 whitespace-nowrap">
+                            {intervalLabel(monitor.intervalMinutes)}
+                            <span className="text-muted-foreground">
+                              {' '}
+                              · {monitor.viewport}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2">
+                            <RunStatus run={monitor.lastRun} />
+                          </td>
+                          <td className="px-4 py-2 text-xs text-muted-foreground whitespace-nowrap">
+                            {monitor.enabled
+                              ? formatDate(monitor.nextRunAt)
+                              : 'Paused'}
+                          </td>
+                          <td className="px-4 py-2">
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() =>
+                                  withMonitor(monitor.id, 'run', async () => {
+                                    await runMonitorNow(monitor.id);
+                                  })
+                                }
+                                disabled={!!action}
+                                className="h-8 px-2"
+                                aria-label={`Run ${monitor.url} now`}
+                              >
+                                {action === 'run' ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <RotateCw className="w-4 h-4" />
+                                )}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleTestWebhook(monitor)}
+                                disabled={!!action || !monitor.webhookUrl}
+                                className="h-8 px-2"
+                                aria-label={`Send a test alert for ${monitor.url}`}
+                              >
+                                <BellRing className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() =>
+                                  withMonitor(
+                                    monitor.id,
+                                    'toggle',
+                                    async () => {
+                                      await updateMonitor(monitor.id, {
+                                        enabled: !monitor.enabled,
+                                      });
+                                    }
+                                  )
+                                }
+                                disabled={!!action}
+                                className="h-8 px-2"
+                                aria-label={`${monitor.enabled ? 'Pause' : 'Resume'} ${monitor.url}`}
+                              >
+                                {monitor.enabled ? (
+                                  <Pause className="w-4 h-4" />
+                                ) : (
+                                  <Play className="w-4 h-4" />
+                                )}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() =>
+                                  setSelectedId(
+                                    selectedId === monitor.id
+                                      ? null
+                                      : monitor.id
+                                  )
+                                }
+                                aria-pressed={selectedId === monitor.id}
+                                className="h-8 px-2"
+                                aria-label={`Timeline of ${monitor.url}`}
+                              >
+                                <History className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(monitor)}
+                                disabled={!!action}
+                                className="h-8 px-2"
+                                aria-label={`Delete monitor for ${monitor.url}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {selected && (
+        <Card className="border-border/50 bg-card/50 backdrop-blur-sm animate-slide-up">
+          <CardHeader>
+            <CardTitle>Timeline</CardTitle>
+            <CardDescription className="font-mono text-xs break-all">
+              {selected.url}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No runs yet; the first run records the baseline.
+              </p>
+            ) : (
+              <div className="rounded-lg border border-border/50 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 text-muted-foreground">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium">Run</th>
+                      <th className="px-4 py-2 text-left font-medium">
+                        Result
+                      </th>
+                      <th className="px-4 py-2 text-right font-medium">Size</th>
+                      <th className="px-4 py-2 text-right font-medium">
+                        Growth
+                      </th>
+                      <th className="px-4 py-2 text-left font-medium">Hash</th>
+                      <th className="px-4 py-2 text-left font-medium">Alert</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {runs.map((run) => (
+                      <tr key={run.id} className="border-t border-border/50">
+                        <td className="px-4 py-2 text-xs whitespace-nowrap">
+                          {formatDate(run.startedAt)}
+                        </td>
+                        <td className="px-4 py-2">
+                          <RunStatus run={run} />
+                          {run.error && (
+                            <p className="mt-1 text-xs text-destructive/80">
+                              {run.error}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right font-mono">
+                          {run.size !== undefined ? formatBytes(run.size) : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-right font-mono">
+                          {run.growth !== undefined
+                            ? formatGrowth(run.growth)
+                            : '—'}
+                        </td>
+                        <td
+                          className="px-4 py-2 font-mono text-xs text-muted-foreground"
+                          title={run.hash}
+                        >
+                          {run.hash?.slice(0, 12) ?? '—'}
+                        </td>
+                        <td className="px-4 py-2 text-xs">
+                          <AlertStatus run={run} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
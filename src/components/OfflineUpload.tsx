@@ -0,0 +1,158 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, FileCode, Info, Loader2, Upload, X } from 'lucide-react';
+import { readUploadedPage, type UploadedPage } from '@/lib/offline';
+import { cn, formatBytes } from '@/lib/utils';
+
+interface OfflineUploadProps {
+  page: UploadedPage | null;
+  onChange: (page: UploadedPage | null) => void;
+  disabled?: boolean;
+}
+
+export default function OfflineUpload({
+  page,
+  onChange,
+  disabled,
+}: OfflineUploadProps) {
+  const [reading, setReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setReading(true);
+    setError(null);
+    try {
+      onChange(await readUploadedPage(files));
+    } catch (err) {
+      onChange(null);
+      setError(err instanceof Error ? err.message : 'Could not read the files');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    if (!disabled) handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          'flex flex-col items-center gap-3 rounded-md border border-dashed border-border/50 bg-background/50 px-4 py-6 text-center',
+          dragging && 'border-primary bg-primary/5'
+        )}
+      >
+        <p className="text-sm text-muted-foreground">
+          Drop an HTML file with its CSS files, or a zip of the built site
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || reading}
+        >
+          {reading ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Upload className="w-4 h-4 mr-2" />
+          )}
+          Choose files
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept=".html,.htm,.css,.zip,text/html,text/css,application/zip"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            handleFiles(files);
+          }}
+          className="hidden"
+        />
+      </div>
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-destructive/80">
+          <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+          {error}
+        </p>
+      )}
+
+      {page && (
+        <div className="space-y-2 rounded-md border border-border/50 p-3">
+          <div className="flex items-center gap-2">
+            <FileCode className="w-4 h-4 text-muted-foreground" />
+            <span className="font-mono text-sm truncate">{page.htmlPath}</span>
+            <Badge variant="outline" className="shrink-0">
+              {page.files.length} file{page.files.length === 1 ? '' : 's'}
+            </Badge>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(null)}
+              disabled={disabled}
+              aria-label="Remove uploaded files"
+              className="ml-auto h-7 px-2"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          {page.stylesheets.length > 0 ? (
+            <ul className="space-y-1">
+              {page.stylesheets.map((sheet, i) => (
+                <li
+                  key={`${sheet.href}-${i}`}
+                  className="flex items-center justify-between gap-3 text-xs"
+                >
+                  <span className="font-mono text-muted-foreground truncate">
+                    {sheet.href === 'inline' ? '<style>' : sheet.href}
+                  </span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {formatBytes(new Blob([sheet.css]).size)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              The page has no stylesheets
+            </p>
+          )}
+          {page.missing.map((href) => (
+            <p
+              key={href}
+              className="flex items-start gap-2 text-xs text-amber-500/80"
+            >
+              <Info className="w-3.5 h-3.5 shrink-0 mt-0.5 text-amber-500" />
+              {href} is linked but was not uploaded
+            </p>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Runs in your browser without the backend: the page is rendered without
+        scripts, so content that JavaScript adds or reveals is not covered.
+        Images that are not in the upload render at their attribute size.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Loader2, Wand2 } from 'lucide-react';
+import {
+  STEP_LABELS,
+  TARGET_PRESETS,
+  type OutputFormat,
+  type PostProcessOptions,
+} from '@/lib/postprocess';
+
+type ToggleStep = keyof Pick<
+  PostProcessOptions,
+  | 'mergeMedia'
+  | 'dropUnusedFontFace'
+  | 'dropUnusedKeyframes'
+  | 'dropUnusedCustomProperties'
+  | 'stripPrefixes'
+>;
+
+const TOGGLE_STEPS: ToggleStep[] = [
+  'mergeMedia',
+  'dropUnusedFontFace',
+  'dropUnusedKeyframes',
+  'dropUnusedCustomProperties',
+  'stripPrefixes',
+];
+
+interface PostProcessPanelProps {
+  options: PostProcessOptions;
+  onChange: (options: PostProcessOptions) => void;
+  pending?: boolean;
+  error?: string | null;
+}
+
+export default function PostProcessPanel({
+  options,
+  onChange,
+  pending = false,
+  error,
+}: PostProcessPanelProps) {
+  const update = (patch: Partial<PostProcessOptions>) =>
+    onChange({ ...options, ...patch });
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border/50 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <Wand2 className="w-4 h-4" />
+          Post-processing
+          {pending && (
+            <Loader2 className="w-3.5 h-3.5 animate-spin text-muted-foreground" />
+          )}
+        </p>
+        <Select
+          value={options.format}
+          onValueChange={(format) => update({ format: format as OutputFormat })}
+        >
+          <SelectTrigger
+            className="h-8 w-40 border-border/50"
+            aria-label="Output format"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="original">As returned</SelectItem>
+            <SelectItem value="pretty">Pretty-printed</SelectItem>
+            <SelectItem value="minified">Re-minified</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {TOGGLE_STEPS.map((step) => (
+          <div
+            key={step}
+            className="flex items-center gap-3 h-10 px-3 rounded-md border border-border/50"
+          >
+            <Switch
+              id={`post-${step}`}
+              checked={options[step]}
+              onCheckedChange={(checked) => update({ [step]: checked })}
+            />
+            <Label htmlFor={`post-${step}`} className="text-sm">
+              {STEP_LABELS[step]}
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      {options.stripPrefixes && (
+        <div className="space-y-2">
+          <Label htmlFor="post-target" className="text-sm font-medium">
+            Browserslist target
+          </Label>
+          <Input
+            id="post-target"
+            list="post-target-presets"
+            value={options.target}
+            onChange={(e) => update({ target: e.target.value })}
+            className="h-9 font-mono text-xs border-border/50"
+          />
+          <datalist id="post-target-presets">
+            {TARGET_PRESETS.map((preset) => (
+              <option key={preset} value={preset} />
+            ))}
+          </datalist>
+          <p className="text-xs text-muted-foreground">
+            Prefixes these browsers no longer need are removed
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-destructive/80">
+          <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, Info, Loader2 } from 'lucide-react';
+import {
+  buildPreviewDocument,
+  diffImages,
+  loadImagePixels,
+  type ImageDiff,
+  type PreviewTarget,
+} from '@/lib/preview';
+import type { ExtractionResult } from '@/lib/types';
+
+type PreviewMode = 'side-by-side' | 'diff';
+
+const DEFAULT_THRESHOLD = 32;
+
+interface ScaledFrameProps {
+  title: string;
+  width: number;
+  height: number;
+  srcDoc: string;
+}
+
+/** Renders an iframe at the viewport size, scaled down to fit its column. */
+function ScaledFrame({ title, width, height, srcDoc }: ScaledFrameProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState(1);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setScale(Math.min(1, entry.contentRect.width / width))
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [width]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative overflow-hidden bg-white"
+      style={{ height: height * scale }}
+    >
+      <iframe
+        title={title}
+        srcDoc={srcDoc}
+        // No scripts, forms or same-origin access: the page is only drawn.
+        sandbox=""
+        className="absolute left-0 top-0 origin-top-left border-0"
+        style={{ width, height, transform: `scale(${scale})` }}
+      />
+    </div>
+  );
+}
+
+interface PreviewPanelProps {
+  result: ExtractionResult;
+  targets: PreviewTarget[];
+}
+
+export default function PreviewPanel({ result, targets }: PreviewPanelProps) {
+  const [activeKey, setActiveKey] = useState(targets[0]?.key);
+  const [mode, setMode] = useState<PreviewMode>('side-by-side');
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+  const [diff, setDiff] = useState<ImageDiff | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [diffing, setDiffing] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const target = targets.find((t) => t.key === activeKey) ?? targets[0];
+  const canDiff = !!(target?.full && target.critical);
+
+  const documents = useMemo(() => {
+    if (!target || !result.html) return null;
+    return {
+      full: buildPreviewDocument(result.html, result.url),
+      critical: buildPreviewDocument(result.html, result.url, target.css),
+    };
+  }, [target, result.html, result.url]);
+
+  useEffect(() => {
+    if (mode !== 'diff' || !target?.full || !target.critical) return;
+    let cancelled = false;
+    setDiffing(true);
+    setDiffError(null);
+    Promise.all([
+      loadImagePixels(target.full),
+      loadImagePixels(target.critical),
+    ])
+      .then(([full, critical]) => {
+        if (!cancelled) setDiff(diffImages(full, critical, threshold));
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setDiff(null);
+        setDiffError(
+          err instanceof Error ? err.message : 'Could not compare the images'
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setDiffing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, target, threshold]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !diff) return;
+    canvas.width = diff.width;
+    canvas.height = diff.height;
+    const image = context.createImageData(diff.width, diff.height);
+    image.data.set(diff.pixels);
+    context.putImageData(image, 0, 0);
+    context.strokeStyle = 'rgb(234, 88, 12)';
+    context.lineWidth = 2;
+    for (const region of diff.regions) {
+      context.strokeRect(region.x, region.y, region.width, region.height);
+    }
+  }, [diff]);
+
+  if (!target) return null;
+
+  const renderCapture = (kind: 'full' | 'critical') => {
+    const src = target[kind];
+    if (src) {
+      return (
+        // Captures are data URLs; there is nothing to optimize.
+        <Image
+          src={src}
+          alt={`${kind === 'full' ? 'Full' : 'Critical CSS only'} render at ${target.key}`}
+          width={target.width}
+          height={target.height}
+          unoptimized
+          className="w-full h-auto bg-white"
+        />
+      );
+    }
+    if (documents) {
+      return (
+        <ScaledFrame
+          title={`${kind === 'full' ? 'Full' : 'Critical CSS only'} render at ${target.key}`}
+          width={target.width}
+          height={target.height}
+          srcDoc={documents[kind]}
+        />
+      );
+    }
+    return (
+      <p className="p-4 text-sm text-muted-foreground">
+        The backend sent no capture for this render
+      </p>
+    );
+  };
+
+  const changedPercent = diff
+    ? (diff.changedPixels / (diff.width * diff.height)) * 100
+    : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex rounded-md border border-border/50 p-0.5">
+          {targets.map((t) => (
+            <Button
+              key={t.key}
+              type="button"
+              variant={t.key === target.key ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveKey(t.key)}
+              aria-pressed={t.key === target.key}
+              className="h-7 px-2 text-xs capitalize"
+            >
+              {t.key}
+            </Button>
+          ))}
+        </div>
+        <Badge variant="outline" className="font-mono">
+          {target.width}×{target.height}
+        </Badge>
+        <div className="ml-auto flex rounded-md border border-border/50 p-0.5">
+          {(['side-by-side', 'diff'] as const).map((value) => (
+            <Button
+              key={value}
+              type="button"
+              variant={mode === value ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setMode(value)}
+              disabled={value === 'diff' && !canDiff}
+              aria-pressed={mode === value}
+              className="h-7 px-2 text-xs"
+            >
+              {value === 'diff' ? 'Pixel diff' : 'Side by side'}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {!canDiff && (
+        <p className="flex items-start gap-2 text-xs text-muted-foreground">
+          <Info className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+          {documents
+            ? 'Rendered locally from the page HTML without scripts. A pixel diff needs both captures from the backend.'
+            : 'A pixel diff needs both captures from the backend.'}
+        </p>
+      )}
+
+      {mode === 'side-by-side' || !canDiff ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(['full', 'critical'] as const).map((kind) => (
+            <figure
+              key={kind}
+              className="overflow-hidden rounded-lg border border-border/50"
+            >
+              <figcaption className="border-b border-border/50 bg-muted/50 px-4 py-2 text-xs font-medium text-muted-foreground">
+                {kind === 'full' ? 'Full render' : 'Critical CSS only'}
+              </figcaption>
+              {renderCapture(kind)}
+            </figure>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <Label htmlFor="diff-threshold" className="text-sm">
+              Tolerance
+            </Label>
+            <input
+              id="diff-threshold"
+              type="range"
+              min={0}
+              max={128}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-40 accent-primary"
+            />
+            <span className="w-8 font-mono text-xs text-muted-foreground">
+              {threshold}
+            </span>
+            {diffing && (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            )}
+            {diff && (
+              <>
+                <Badge
+                  variant={diff.changedPixels === 0 ? 'success' : 'warning'}
+                  className="font-mono"
+                >
+                  {changedPercent.toFixed(2)}% of pixels differ
+                </Badge>
+                {diff.regions.length > 0 && (
+                  <Badge variant="outline">
+                    {diff.regions.length} region
+                    {diff.regions.length === 1 ? '' : 's'}
+                  </Badge>
+                )}
+              </>
+            )}
+          </div>
+          {diffError ? (
+            <p className="flex items-start gap-2 text-sm text-destructive/80">
+              <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+              {diffError}
+            </p>
+          ) : (
+            <div className="overflow-hidden rounded-lg border border-border/50">
+              <canvas
+                ref={canvasRef}
+                className="block w-full h-auto"
+                aria-label={`Differences between the full and critical-only render at ${target.key}`}
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Red pixels differ between the two renders; outlined areas group
+            them. Missing styles and layout shifts show up as large regions.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
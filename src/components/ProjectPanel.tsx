@@ -0,0 +1,353 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertCircle,
+  Download,
+  FolderKanban,
+  Pencil,
+  Plus,
+  Save,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import type { HistoryEntry } from '@/lib/history';
+import {
+  createProject,
+  normalizeOrigin,
+  normalizePaths,
+  projectUrl,
+  serializeProjects,
+  type Project,
+  type ProjectSettings,
+} from '@/lib/projects';
+import { downloadBlob } from '@/lib/utils';
+
+/** Select value for "no project"; Radix reserves the empty string. */
+const NO_PROJECT = 'none';
+
+interface Draft {
+  project: Project;
+  origin: string;
+  paths: string;
+}
+
+interface ProjectPanelProps {
+  projects: Project[];
+  activeProject: Project | null;
+  /** History is exported together with the projects it belongs to. */
+  entries: HistoryEntry[];
+  /** Current form settings, stored as the project defaults on request. */
+  settings: ProjectSettings;
+  disabled?: boolean;
+  onSelect: (project: Project | null) => void;
+  onSave: (project: Project) => Promise<void>;
+  onDelete: (project: Project) => Promise<void>;
+  onImport: (json: string) => Promise<number>;
+  onOpenPath: (url: string) => void;
+}
+
+export default function ProjectPanel({
+  projects,
+  activeProject,
+  entries,
+  settings,
+  disabled = false,
+  onSelect,
+  onSave,
+  onDelete,
+  onImport,
+  onOpenPath,
+}: ProjectPanelProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startEdit = (project: Project) => {
+    setDraft({
+      project,
+      origin: project.origin,
+      paths: project.paths.join('\n'),
+    });
+    setError(null);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    const name = draft.project.name.trim();
+    const origin = normalizeOrigin(draft.origin);
+    if (!name) {
+      setError('Project name is required');
+      return;
+    }
+    if (!origin) {
+      setError('Base URL must be an http(s) URL such as https://example.com');
+      return;
+    }
+    const project = {
+      ...draft.project,
+      name,
+      origin,
+      paths: normalizePaths(draft.paths),
+    };
+    try {
+      await onSave(project);
+      onSelect(project);
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save project');
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!activeProject) return;
+    await onSave({ ...activeProject, ...settings });
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleDelete = async () => {
+    if (!activeProject) return;
+    if (!window.confirm(`Delete project "${activeProject.name}"?`)) return;
+    await onDelete(activeProject);
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob([serializeProjects(projects, entries)], {
+        type: 'application/json',
+      }),
+      `critical-css-projects-${new Date().toISOString().slice(0, 10)}.json`
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      await onImport(await file.text());
+      setError(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? `Import failed: ${err.message}` : 'Import failed'
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-border/50 bg-background/50 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <FolderKanban className="w-4 h-4 text-muted-foreground" />
+        <Select
+          value={activeProject?.id ?? NO_PROJECT}
+          onValueChange={(id) =>
+            onSelect(projects.find((project) => project.id === id) ?? null)
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger
+            className="h-8 w-56 border-border/50"
+            aria-label="Project"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PROJECT}>No project</SelectItem>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => startEdit({ ...createProject(''), ...settings })}
+          disabled={disabled}
+          className="h-8 px-2"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New
+        </Button>
+        {activeProject && (
+          <>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => startEdit(activeProject)}
+              disabled={disabled}
+              className="h-8 px-2"
+            >
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleSaveSettings}
+              disabled={disabled}
+              className="h-8 px-2"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saved ? 'Saved' : 'Save settings'}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleDelete}
+              disabled={disabled}
+              className="h-8 px-2"
+              aria-label="Delete project"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            className="h-8 px-2"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={handleExport}
+            disabled={projects.length === 0}
+            className="h-8 px-2"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {activeProject && !draft && activeProject.paths.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {activeProject.paths.map((path) => (
+            <Button
+              key={path}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onOpenPath(projectUrl(activeProject, path))}
+              disabled={disabled}
+              className="h-7 px-2 font-mono text-xs"
+            >
+              {path}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <div className="space-y-4 border-t border-border/50 pt-3 animate-scale-in">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="project-name" className="text-sm font-medium">
+                Name
+              </Label>
+              <Input
+                id="project-name"
+                value={draft.project.name}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    project: { ...draft.project, name: e.target.value },
+                  })
+                }
+                placeholder="Client site"
+                className="h-9 border-border/50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-origin" className="text-sm font-medium">
+                Base URL
+              </Label>
+              <Input
+                id="project-origin"
+                type="url"
+                value={draft.origin}
+                onChange={(e) => setDraft({ ...draft, origin: e.target.value })}
+                placeholder="https://example.com"
+                className="h-9 border-border/50"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-paths" className="text-sm font-medium">
+              Page paths
+            </Label>
+            <Textarea
+              id="project-paths"
+              value={draft.paths}
+              onChange={(e) => setDraft({ ...draft, paths: e.target.value })}
+              placeholder={'/\n/pricing\n/blog'}
+              className="min-h-[96px] font-mono text-xs border-border/50"
+            />
+            <p className="text-xs text-muted-foreground">
+              One path per line, resolved against the base URL
+            </p>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button type="button" size="sm" onClick={handleSaveDraft}>
+              Save project
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-destructive/80">
+          <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Check, Copy, Info } from 'lucide-react';
+import { buildPermalink, type SharedRequest } from '@/lib/permalink';
+import type { ExtractionResult } from '@/lib/types';
+
+/** Links longer than this may be cut off by chat apps and some browsers. */
+const LONG_LINK_LENGTH = 8000;
+
+interface ShareLinkProps {
+  request: SharedRequest;
+  result: ExtractionResult | null;
+}
+
+export default function ShareLink({ request, result }: ShareLinkProps) {
+  const [autoRun, setAutoRun] = useState(false);
+  const [embedResult, setEmbedResult] = useState(false);
+  const [base, setBase] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setBase(`${window.location.origin}${window.location.pathname}`);
+  }, []);
+
+  const link = useMemo(
+    () =>
+      base &&
+      buildPermalink(base, request, {
+        autoRun,
+        result: embedResult && result ? result : undefined,
+      }),
+    [base, request, autoRun, embedResult, result]
+  );
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border border-border/50 bg-background/50 p-4 animate-scale-in">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="flex items-center gap-3 h-11 px-3 rounded-md border border-border/50">
+          <Switch
+            id="share-auto-run"
+            checked={autoRun}
+            onCheckedChange={setAutoRun}
+          />
+          <Label htmlFor="share-auto-run" className="text-sm">
+            Run extraction when opened
+          </Label>
+        </div>
+        <div className="flex items-center gap-3 h-11 px-3 rounded-md border border-border/50">
+          <Switch
+            id="share-embed-result"
+            checked={embedResult && Boolean(result)}
+            onCheckedChange={setEmbedResult}
+            disabled={!result}
+          />
+          <Label htmlFor="share-embed-result" className="text-sm">
+            Embed current result
+          </Label>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          readOnly
+          value={link}
+          onFocus={(e) => e.target.select()}
+          aria-label="Shareable link"
+          className="h-9 font-mono text-xs border-border/50"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={copyLink}
+          disabled={!link}
+          className="h-9"
+        >
+          {copied ? (
+            <Check className="w-4 h-4 mr-2" />
+          ) : (
+            <Copy className="w-4 h-4 mr-2" />
+          )}
+          {copied ? 'Copied' : 'Copy link'}
+        </Button>
+      </div>
+
+      <p className="flex items-start gap-2 text-xs text-muted-foreground">
+        <Info className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+        {link.length > LONG_LINK_LENGTH
+          ? `This link is ${link.length.toLocaleString()} characters long and may be truncated by some apps.`
+          : 'Credentials from the authentication panel are never included.'}
+      </p>
+    </div>
+  );
+}
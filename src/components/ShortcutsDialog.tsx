@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SHORTCUTS, formatKey, isMacPlatform } from '@/lib/shortcuts';
+
+interface ShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ShortcutKeys({ keys }: { keys: string[] }) {
+  // The platform is only known in the browser; render Ctrl until mounted.
+  const [mac, setMac] = useState(false);
+  useEffect(() => setMac(isMacPlatform()), []);
+
+  return (
+    <span className="flex items-center gap-1">
+      {keys.map((key) => (
+        <kbd
+          key={key}
+          className="min-w-[1.5rem] rounded border border-border/50 bg-muted/50 px-1.5 py-0.5 text-center font-mono text-xs text-muted-foreground"
+        >
+          {formatKey(key, mac)}
+        </kbd>
+      ))}
+    </span>
+  );
+}
+
+export default function ShortcutsDialog({
+  open,
+  onOpenChange,
+}: ShortcutsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Single-key shortcuts work when no field has focus.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="divide-y divide-border/50">
+          {SHORTCUTS.map((shortcut) => (
+            <li
+              key={shortcut.id}
+              className="flex items-center justify-between gap-4 py-2 text-sm"
+            >
+              <span>{shortcut.description}</span>
+              <ShortcutKeys keys={shortcut.keys} />
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  evaluateBudgets,
+  type BudgetCheck,
+  type SizeBudgets,
+} from '@/lib/budgets';
+import type { ResultOutput } from '@/lib/results';
+import type { ExtractionResult } from '@/lib/types';
+
+/**
+ * Measures `outputs`, the CSS as shown after post-processing and the combine
+ * strategy, against `budgets`. `checks` is null while measuring.
+ */
+export function useBudgetChecks(
+  result: ExtractionResult | null,
+  outputs: ResultOutput[],
+  budgets: SizeBudgets
+) {
+  const [checks, setChecks] = useState<BudgetCheck[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!result) return;
+    let cancelled = false;
+    setChecks(null);
+    evaluateBudgets(result, budgets, { outputs })
+      .then((next) => {
+        if (cancelled) return;
+        setChecks(next);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(
+          err instanceof Error ? err.message : 'Could not measure sizes'
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [result, outputs, budgets]);
+
+  return { checks, error };
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  deleteHistoryEntry,
+  listHistory,
+  parseHistory,
+  pruneHistory,
+  saveHistoryEntry,
+  type HistoryEntry,
+} from '@/lib/history';
+
+export function useExtractionHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listHistory());
+    } catch (err) {
+      // IndexedDB is unavailable in some private browsing modes.
+      console.error('Failed to load history:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const addEntry = useCallback(
+    async (entry: HistoryEntry) => {
+      try {
+        await saveHistoryEntry(entry);
+        await pruneHistory();
+      } catch (err) {
+        console.error('Failed to save history entry:', err);
+      }
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const removeEntry = useCallback(
+    async (id: string) => {
+      try {
+        await deleteHistoryEntry(id);
+      } catch (err) {
+        console.error('Failed to delete history entry:', err);
+      }
+      await refresh();
+    },
+    [refresh]
+  );
+
+  /** Merges an exported history file; entries with the same id are replaced. */
+  const importEntries = useCallback(
+    async (json: string) => {
+      const imported = parseHistory(json);
+      for (const entry of imported) {
+        await saveHistoryEntry(entry);
+      }
+      await pruneHistory();
+      await refresh();
+      return imported.length;
+    },
+    [refresh]
+  );
+
+  return { entries, refresh, addEntry, removeEntry, importEntries };
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { matchShortcut, type ShortcutId } from '@/lib/shortcuts';
+
+export type ShortcutHandlers = Partial<
+  Record<ShortcutId, (index?: number) => void>
+>;
+
+/**
+ * Calls the handler of each shortcut from `SHORTCUTS` pressed on the page.
+ * Shortcuts without a handler keep the browser's default behaviour.
+ */
+export function useKeyboardShortcuts(handlers: ShortcutHandlers) {
+  // Read at key time, so the listener is attached once.
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+      const match = matchShortcut(event);
+      const handler = match && handlersRef.current[match.id];
+      if (!handler) return;
+      event.preventDefault();
+      handler(match.index);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+}
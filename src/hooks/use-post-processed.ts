@@ -0,0 +1,68 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  postProcessCss,
+  type PostProcessOptions,
+  type PostProcessResult,
+} from '@/lib/postprocess';
+import type { ResultOutput } from '@/lib/results';
+
+/**
+ * Runs the post-processing pipeline over every output. Until the first run
+ * finishes, and whenever it fails, outputs fall back to the backend CSS.
+ */
+export function usePostProcessed(
+  outputs: ResultOutput[],
+  options: PostProcessOptions
+) {
+  const [processed, setProcessed] = useState<{
+    source: ResultOutput[];
+    results: Record<string, PostProcessResult>;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPending(true);
+    Promise.all(outputs.map((output) => postProcessCss(output.css, options)))
+      .then((results) => {
+        if (cancelled) return;
+        setProcessed({
+          source: outputs,
+          results: Object.fromEntries(
+            outputs.map((output, i) => [output.key, results[i]])
+          ),
+        });
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setProcessed(null);
+        setError(err instanceof Error ? err.message : 'Post-processing failed');
+      })
+      .finally(() => {
+        if (!cancelled) setPending(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [outputs, options]);
+
+  // Results computed for a previous set of outputs are never shown.
+  const current = processed?.source === outputs ? processed.results : null;
+  const get = (output: ResultOutput): PostProcessResult =>
+    current?.[output.key] ?? { css: output.css, steps: [] };
+  // Stable between renders, so it can feed effects such as budget checks.
+  const shown = useMemo(
+    () =>
+      outputs.map((output) => {
+        const css = current?.[output.key]?.css ?? output.css;
+        return { ...output, css, size: new Blob([css]).size };
+      }),
+    [outputs, current]
+  );
+
+  return { get, outputs: shown, error, pending };
+}
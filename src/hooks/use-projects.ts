@@ -0,0 +1,85 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { pruneHistory, saveHistoryEntry } from '@/lib/history';
+import {
+  deleteProject,
+  listProjects,
+  parseProjects,
+  saveProject,
+  type Project,
+} from '@/lib/projects';
+
+const ACTIVE_PROJECT_KEY = 'crit-css-active-project';
+
+export function useProjects() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeId, setActiveIdState] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error('Failed to load projects:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    setActiveIdState(localStorage.getItem(ACTIVE_PROJECT_KEY));
+  }, [refresh]);
+
+  const setActiveId = useCallback((id: string | null) => {
+    setActiveIdState(id);
+    if (id) {
+      localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_PROJECT_KEY);
+    }
+  }, []);
+
+  const upsertProject = useCallback(
+    async (project: Project) => {
+      await saveProject(project);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const removeProject = useCallback(
+    async (id: string) => {
+      await deleteProject(id);
+      if (id === activeId) setActiveId(null);
+      await refresh();
+    },
+    [activeId, refresh, setActiveId]
+  );
+
+  /**
+   * Merges an exported projects file, including its history. Projects and
+   * entries with the same id are replaced.
+   */
+  const importProjects = useCallback(
+    async (json: string) => {
+      const { projects: imported, history } = parseProjects(json);
+      for (const project of imported) await saveProject(project);
+      for (const entry of history) await saveHistoryEntry(entry);
+      await pruneHistory();
+      await refresh();
+      return imported.length;
+    },
+    [refresh]
+  );
+
+  const activeProject =
+    projects.find((project) => project.id === activeId) ?? null;
+
+  return {
+    projects,
+    activeProject,
+    setActiveId,
+    saveProject: upsertProject,
+    removeProject,
+    importProjects,
+  };
+}
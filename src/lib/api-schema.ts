@@ -0,0 +1,106 @@
+import {
+  array,
+  boolean,
+  literal,
+  number,
+  object,
+  optional,
+  record,
+  string,
+} from '@/lib/schema';
+import type {
+  CoverageReport,
+  CustomViewport,
+  DroppedRule,
+  ExtractionOptions,
+  ExtractionProgressEvent,
+  ExtractionResult,
+  KeptRule,
+  ViewportPreview,
+  ViewportResult,
+} from '@/lib/types';
+
+const viewportResultSchema = object<ViewportResult>({
+  css: string(),
+  size: number(),
+  extractionTime: number(),
+});
+
+const viewportPreviewSchema = object<ViewportPreview>({
+  width: number(),
+  height: number(),
+  full: optional(string()),
+  critical: optional(string()),
+});
+
+const customViewportSchema = object<CustomViewport>({
+  name: string(),
+  width: number(),
+  height: number(),
+  deviceScaleFactor: number(),
+});
+
+export const optionsSchema = object<ExtractionOptions>({
+  viewports: array(customViewportSchema),
+  forceInclude: array(string()),
+  forceExclude: array(string()),
+  foldMultiplier: number(),
+  keepFontFace: boolean(),
+});
+
+const keptRuleSchema = object<KeptRule>({
+  selector: string(),
+  stylesheet: string(),
+  media: optional(string()),
+  size: number(),
+  reason: string(),
+  matchedElements: number(),
+  viewports: optional(array(string())),
+});
+
+const droppedRuleSchema = object<DroppedRule>({
+  selector: string(),
+  stylesheet: string(),
+  media: optional(string()),
+  size: number(),
+  reason: string(),
+});
+
+const coverageReportSchema = object<CoverageReport>({
+  kept: array(keptRuleSchema),
+  dropped: array(droppedRuleSchema),
+});
+
+export const extractionResultSchema = object<ExtractionResult>({
+  success: boolean(),
+  url: string(),
+  viewport: literal('mobile', 'desktop', 'both'),
+  css: optional(string()),
+  size: optional(number()),
+  extractionTime: optional(number()),
+  mobile: optional(viewportResultSchema),
+  desktop: optional(viewportResultSchema),
+  viewports: optional(record(viewportResultSchema)),
+  combined: optional(object({ css: string(), size: number() })),
+  stylesheets: optional(array(string())),
+  processingTime: optional(number()),
+  report: optional(coverageReportSchema),
+  options: optional(optionsSchema),
+  previews: optional(record(viewportPreviewSchema)),
+  html: optional(string()),
+  validation: optional(
+    object({
+      isValid: boolean(),
+      errors: array(string()),
+      warnings: array(string()),
+    })
+  ),
+});
+
+export const progressEventSchema = object<ExtractionProgressEvent>({
+  type: literal('progress'),
+  stage: literal('navigation', 'lcp', 'stylesheets', 'coverage', 'minify'),
+  status: literal('start', 'done'),
+  viewport: optional(string()),
+  elapsed: optional(number()),
+});
@@ -0,0 +1,378 @@
+import { extractionResultSchema, progressEventSchema } from '@/lib/api-schema';
+import { SchemaError, validate } from '@/lib/schema';
+import type {
+  ExtractRequest,
+  ExtractionProgressEvent,
+  ExtractionResult,
+} from '@/lib/types';
+import { formatTime } from '@/lib/utils';
+
+/**
+ * Extractions go through this app's own route, which proxies them to the
+ * server-only backend URL; the browser never calls the backend directly.
+ */
+const EXTRACT_ENDPOINT = '/api/extract';
+
+const STREAM_ACCEPT =
+  'application/x-ndjson, text/event-stream;q=0.9, application/json;q=0.8';
+
+/**
+ * Rate limiting and gateway errors worth retrying; the backend never started
+ * the work.
+ */
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY = 1000;
+/** Upper bound for a single wait, including a backend's `Retry-After`. */
+const MAX_RETRY_DELAY = 10000;
+/** A 429 may ask for the rest of the rate limit's one-minute window. */
+const MAX_RATE_LIMIT_DELAY = 60000;
+
+type StreamMessage =
+  | ExtractionProgressEvent
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; message?: string };
+
+type StreamFormat = 'ndjson' | 'sse';
+
+export type ApiErrorKind =
+  | 'http'
+  /** The backend reported a failure inside a streamed response. */
+  | 'backend'
+  | 'network'
+  | 'invalid-response'
+  | 'timeout'
+  | 'aborted';
+
+/** Every failure of `extractCriticalCss`, with a message fit for display. */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ApiErrorKind,
+    /** HTTP status, when the backend answered. */
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface ExtractOptions {
+  onProgress?: (event: ExtractionProgressEvent) => void;
+  /** Called before each retry of a 429, 502, 503 or 504 response. */
+  onRetry?: (attempt: number, delay: number, error: ApiError) => void;
+  signal?: AbortSignal;
+  /** Client-side timeout in ms; 0 or undefined waits indefinitely. */
+  timeout?: number;
+  /** Retries for 429, 502, 503 and 504 responses; defaults to 2. */
+  retries?: number;
+  /**
+   * Origin of the app serving the extract route, for callers outside the
+   * browser such as the CLI; the browser uses the page's own origin.
+   */
+  baseUrl?: string;
+}
+
+function invalidResponse(err: unknown) {
+  return new ApiError(
+    err instanceof SchemaError
+      ? err.message
+      : 'Backend sent a response that is not valid JSON',
+    'invalid-response'
+  );
+}
+
+function parseResult(data: unknown) {
+  try {
+    return validate(extractionResultSchema, data, 'Backend response');
+  } catch (err) {
+    throw invalidResponse(err);
+  }
+}
+
+function parseMessage(text: string): StreamMessage | null {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw invalidResponse(err);
+  }
+}
+
+function parseNdjsonLine(line: string): StreamMessage | null {
+  return line.trim() ? parseMessage(line) : null;
+}
+
+function parseSseEvent(block: string): StreamMessage | null {
+  let eventName: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith(':')) continue;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') eventName = value;
+    if (field === 'data') data.push(value);
+  }
+
+  if (data.length === 0) return null;
+  const payload = parseMessage(data.join('\n'));
+  return { type: eventName, ...payload } as StreamMessage;
+}
+
+async function readExtractionStream(
+  body: ReadableStream<Uint8Array>,
+  format: StreamFormat,
+  onProgress?: (event: ExtractionProgressEvent) => void
+): Promise<ExtractionResult> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const separator = format === 'sse' ? /\r?\n\r?\n/ : /\r?\n/;
+  const parse = format === 'sse' ? parseSseEvent : parseNdjsonLine;
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const chunks = buffer.split(separator);
+    buffer = done ? '' : (chunks.pop() ?? '');
+
+    for (const chunk of chunks) {
+      const message = parse(chunk);
+      if (!message) continue;
+      if (message.type === 'progress') {
+        // Progress is informational; skip events from a newer backend.
+        try {
+          onProgress?.(
+            validate(progressEventSchema, message, 'Progress event')
+          );
+        } catch (err) {
+          if (!(err instanceof SchemaError)) throw err;
+        }
+      } else if (message.type === 'result') {
+        await reader.cancel();
+        return parseResult(message.result);
+      } else if (message.type === 'error') {
+        await reader.cancel();
+        throw new ApiError(message.message || 'Extraction failed', 'backend');
+      }
+    }
+
+    if (done) break;
+  }
+
+  throw new ApiError(
+    'Extraction stream ended without a result',
+    'invalid-response'
+  );
+}
+
+/**
+ * Tells the backend to stop an extraction and release its browser. Failures
+ * are ignored: the backend also gives up once the client disconnects.
+ */
+export function cancelExtraction(requestId: string, baseUrl = '') {
+  fetch(`${baseUrl}${EXTRACT_ENDPOINT}/${encodeURIComponent(requestId)}`, {
+    method: 'DELETE',
+    keepalive: true,
+  }).catch(() => {});
+}
+
+/**
+ * Posts an extraction request. Backends that support streaming answer with
+ * NDJSON or Server-Sent Events and report each stage through `onProgress`;
+ * a plain JSON response is accepted as well and reports no progress.
+ *
+ * 429, 502, 503 and 504 responses are retried after their `Retry-After`, or
+ * with exponential backoff. Every failure rejects with an `ApiError`:
+ * aborting `signal` with kind `aborted`, hitting `timeout` with kind
+ * `timeout`, and either way the backend is asked to cancel. Results are
+ * validated against the response schema.
+ */
+export async function extractCriticalCss(
+  request: ExtractRequest,
+  {
+    onProgress,
+    onRetry,
+    signal,
+    timeout,
+    retries = DEFAULT_RETRIES,
+    baseUrl = '',
+  }: ExtractOptions = {}
+): Promise<ExtractionResult> {
+  const requestId = crypto.randomUUID();
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  let timedOut = false;
+
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort);
+  const timer = timeout
+    ? setTimeout(() => {
+        timedOut = true;
+        abort();
+      }, timeout)
+    : undefined;
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await postExtraction(
+          `${baseUrl}${EXTRACT_ENDPOINT}`,
+          { ...request, requestId },
+          controller.signal,
+          onProgress
+        );
+      } catch (err) {
+        if (
+          !(err instanceof RetryableError) ||
+          attempt >= retries ||
+          controller.signal.aborted
+        ) {
+          throw err instanceof RetryableError ? err.error : err;
+        }
+        const delay = Math.min(
+          err.retryAfter ??
+            RETRY_BASE_DELAY * 2 ** attempt * (1 + Math.random()),
+          err.error.status === 429 ? MAX_RATE_LIMIT_DELAY : MAX_RETRY_DELAY
+        );
+        onRetry?.(attempt + 1, delay, err.error);
+        await wait(delay, controller.signal);
+      }
+    }
+  } catch (err) {
+    if (controller.signal.aborted) {
+      cancelExtraction(requestId, baseUrl);
+      if (timedOut) {
+        throw new ApiError(
+          `Extraction timed out after ${formatTime(timeout!)}`,
+          'timeout'
+        );
+      }
+      throw new ApiError('Extraction cancelled', 'aborted');
+    }
+    throw err instanceof ApiError
+      ? err
+      : new ApiError(
+          err instanceof Error ? err.message : 'An unknown error occurred',
+          'network'
+        );
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+/** Wraps a retryable error so the retry loop can tell it apart. */
+class RetryableError extends Error {
+  constructor(
+    readonly error: ApiError,
+    /** Delay in ms requested through `Retry-After`. */
+    readonly retryAfter?: number
+  ) {
+    super(error.message);
+  }
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError('Extraction cancelled', 'aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function parseRetryAfter(value: string | null) {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Turns an error response into an `ApiError`, preferring the backend's
+ * `message` and falling back to the status line or a short body excerpt.
+ */
+async function toHttpError(response: Response) {
+  const text = await response.text().catch(() => '');
+  let message: string | undefined;
+  try {
+    const data = JSON.parse(text);
+    message = data?.message || data?.error;
+  } catch {
+    const excerpt = text
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (excerpt) message = excerpt.slice(0, 200);
+  }
+  const status = `HTTP ${response.status}${
+    response.statusText ? ` ${response.statusText}` : ''
+  }`;
+  return new ApiError(
+    message ? `${message} (${status})` : `Backend responded with ${status}`,
+    'http',
+    response.status
+  );
+}
+
+async function postExtraction(
+  endpoint: string,
+  request: ExtractRequest,
+  signal: AbortSignal,
+  onProgress?: (event: ExtractionProgressEvent) => void
+): Promise<ExtractionResult> {
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: STREAM_ACCEPT },
+      body: JSON.stringify(request),
+      signal,
+    });
+  } catch (err) {
+    if (signal.aborted) throw err;
+    throw new ApiError(
+      'Could not reach the server. Check your connection and try again.',
+      'network'
+    );
+  }
+
+  if (!response.ok) {
+    const error = await toHttpError(response);
+    if (RETRYABLE_STATUSES.includes(response.status)) {
+      throw new RetryableError(
+        error,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    throw error;
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const format: StreamFormat | null = contentType.includes('ndjson')
+    ? 'ndjson'
+    : contentType.includes('text/event-stream')
+      ? 'sse'
+      : null;
+
+  if (response.body && format) {
+    return readExtractionStream(response.body, format, onProgress);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (err) {
+    if (signal.aborted) throw err;
+    throw invalidResponse(err);
+  }
+  return parseResult(data);
+}
@@ -0,0 +1,148 @@
+import type { AuthOptions, RequestCookie } from '@/lib/types';
+
+export const EMPTY_AUTH: AuthOptions = { headers: [], cookies: [] };
+
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+export function hasAuth(auth: AuthOptions) {
+  return (
+    auth.headers.some((h) => h.name.trim()) ||
+    auth.cookies.length > 0 ||
+    Boolean(auth.basicAuth?.username) ||
+    Boolean(auth.userAgent?.trim())
+  );
+}
+
+/** Drops blank rows and empty fields; returns undefined when nothing is set. */
+export function normalizeAuth(auth: AuthOptions): AuthOptions | undefined {
+  if (!hasAuth(auth)) return undefined;
+  return {
+    headers: auth.headers
+      .map((h) => ({ name: h.name.trim(), value: h.value }))
+      .filter((h) => h.name),
+    cookies: auth.cookies,
+    basicAuth: auth.basicAuth?.username ? auth.basicAuth : undefined,
+    userAgent: auth.userAgent?.trim() || undefined,
+  };
+}
+
+export function validateAuth(auth: AuthOptions): string[] {
+  return auth.headers
+    .filter((h) => h.name.trim() && !HEADER_NAME.test(h.name.trim()))
+    .map((h) => `Invalid header name "${h.name.trim()}"`);
+}
+
+/** Parses a `Cookie:` header value such as `a=1; b=2`. */
+export function parseCookieHeader(text: string): RequestCookie[] {
+  return text
+    .replace(/^cookie:\s*/i, '')
+    .split(';')
+    .map((pair) => pair.trim())
+    .filter((pair) => pair.includes('='))
+    .map((pair) => {
+      const eq = pair.indexOf('=');
+      return { name: pair.slice(0, eq).trim(), value: pair.slice(eq + 1) };
+    });
+}
+
+function parseNetscapeCookies(text: string): RequestCookie[] {
+  const cookies: RequestCookie[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine;
+    let httpOnly = false;
+    if (line.startsWith('#HttpOnly_')) {
+      line = line.slice('#HttpOnly_'.length);
+      httpOnly = true;
+    } else if (line.startsWith('#') || !line.trim()) {
+      continue;
+    }
+
+    const fields = line.split('\t');
+    if (fields.length < 7) continue;
+    const [domain, , path, secure, expires, name, ...value] = fields;
+    const expiresAt = Number(expires);
+    cookies.push({
+      name,
+      value: value.join('\t'),
+      domain,
+      path,
+      secure: secure.toUpperCase() === 'TRUE',
+      httpOnly,
+      expires: expiresAt > 0 ? expiresAt : undefined,
+    });
+  }
+  return cookies;
+}
+
+interface JsonCookie {
+  name?: unknown;
+  value?: unknown;
+  domain?: unknown;
+  path?: unknown;
+  secure?: unknown;
+  httpOnly?: unknown;
+  expires?: unknown;
+  expirationDate?: unknown;
+}
+
+function parseJsonCookies(text: string): RequestCookie[] {
+  const data = JSON.parse(text);
+  // Accepts a bare array (browser extensions) or Playwright storage state.
+  const list: JsonCookie[] = Array.isArray(data) ? data : data?.cookies;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected an array of cookies');
+  }
+  return list
+    .filter(
+      (c) =>
+        c &&
+        typeof c === 'object' &&
+        typeof c.name === 'string' &&
+        typeof c.value === 'string'
+    )
+    .map((c) => {
+      const expires = Number(c.expires ?? c.expirationDate);
+      return {
+        name: c.name as string,
+        value: c.value as string,
+        domain: typeof c.domain === 'string' ? c.domain : undefined,
+        path: typeof c.path === 'string' ? c.path : undefined,
+        secure: c.secure === true,
+        httpOnly: c.httpOnly === true,
+        expires: expires > 0 ? expires : undefined,
+      };
+    });
+}
+
+/**
+ * Reads cookies from a Netscape `cookies.txt`, a JSON export or a pasted
+ * `Cookie:` header, detected from the content.
+ */
+export function parseCookies(text: string): RequestCookie[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    return parseJsonCookies(trimmed);
+  }
+  if (trimmed.includes('\t')) {
+    return parseNetscapeCookies(trimmed);
+  }
+  return parseCookieHeader(trimmed);
+}
+
+/** Merges cookies, letting later ones replace earlier ones with the same key. */
+export function mergeCookies(
+  existing: RequestCookie[],
+  added: RequestCookie[]
+): RequestCookie[] {
+  const key = (c: RequestCookie) =>
+    `${c.domain ?? ''}|${c.path ?? ''}|${c.name}`;
+  const merged = new Map(existing.map((c) => [key(c), c]));
+  for (const cookie of added) merged.set(key(cookie), cookie);
+  return Array.from(merged.values());
+}
+
+export function maskSecret(value: string) {
+  if (!value) return '';
+  return value.length <= 4 ? '••••' : `${value.slice(0, 2)}••••`;
+}
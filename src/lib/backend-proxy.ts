@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server';
+import type { ExtractRequest } from '@/lib/types';
+
+/** Response headers worth forwarding from the backend to the browser. */
+const FORWARDED_HEADERS = ['content-type', 'cache-control', 'retry-after'];
+
+export interface BackendConfig {
+  url: string;
+  apiKey?: string;
+}
+
+/**
+ * The extraction backend configured through the server-only `BACKEND_URL`
+ * and `BACKEND_API_KEY`, or null when requests should go to the mock.
+ */
+export function getBackendConfig(): BackendConfig | null {
+  const url = process.env.BACKEND_URL?.replace(/\/+$/, '');
+  return url ? { url, apiKey: process.env.BACKEND_API_KEY } : null;
+}
+
+function backendHeaders({ apiKey }: BackendConfig, accept?: string | null) {
+  const headers: Record<string, string> = {};
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  if (accept) headers.Accept = accept;
+  return headers;
+}
+
+function forwardResponse(response: Response) {
+  const headers = new Headers();
+  for (const name of FORWARDED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  // Keeps reverse proxies from buffering a progress stream.
+  headers.set('X-Accel-Buffering', 'no');
+  return new Response(response.body, { status: response.status, headers });
+}
+
+function unreachable() {
+  return NextResponse.json(
+    { success: false, message: 'Extraction backend is unreachable' },
+    { status: 502 }
+  );
+}
+
+/**
+ * Forwards an extraction to the backend and streams its response back
+ * unchanged, so NDJSON and SSE progress reach the browser as it arrives.
+ * Aborting `signal` (the browser disconnecting) aborts the upstream call.
+ */
+export async function proxyExtraction(
+  config: BackendConfig,
+  request: ExtractRequest,
+  accept: string | null,
+  signal: AbortSignal
+) {
+  try {
+    const response = await fetch(`${config.url}/api/extract`, {
+      method: 'POST',
+      headers: {
+        ...backendHeaders(config, accept),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal,
+      cache: 'no-store',
+    });
+    return forwardResponse(response);
+  } catch (err) {
+    if (signal.aborted) throw err;
+    return unreachable();
+  }
+}
+
+export async function proxyCancel(config: BackendConfig, requestId: string) {
+  try {
+    const response = await fetch(
+      `${config.url}/api/extract/${encodeURIComponent(requestId)}`,
+      { method: 'DELETE', headers: backendHeaders(config), cache: 'no-store' }
+    );
+    return forwardResponse(response);
+  } catch {
+    return unreachable();
+  }
+}
+
+/**
+ * Runs an extraction on the backend for the server itself, e.g. a scheduled
+ * monitor, and resolves with the unvalidated JSON body. Rejects with the
+ * backend's message when it answers with an error status.
+ */
+export async function fetchExtraction(
+  config: BackendConfig,
+  request: ExtractRequest,
+  signal: AbortSignal
+): Promise<unknown> {
+  const response = await fetch(`${config.url}/api/extract`, {
+    method: 'POST',
+    headers: {
+      ...backendHeaders(config, 'application/json'),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+    signal,
+    cache: 'no-store',
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      typeof body?.message === 'string'
+        ? body.message
+        : `Backend responded with ${response.status}`
+    );
+  }
+  return body;
+}
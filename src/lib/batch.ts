@@ -0,0 +1,104 @@
+import { strToU8, zipSync } from 'fflate';
+import { getCssOutputs } from '@/lib/results';
+import type { ExtractionResult } from '@/lib/types';
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+function isHttpUrl(value: string) {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function decodeXmlEntities(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Extracts URLs from a pasted list, a CSV export or a sitemap.xml. Sitemap
+ * indexes are not followed; their `<loc>` entries are returned as-is.
+ */
+export function parseUrlList(text: string): string[] {
+  const trimmed = text.trim();
+  let candidates: string[];
+
+  if (trimmed.startsWith('<')) {
+    candidates = Array.from(
+      trimmed.matchAll(/<loc>\s*(?:<!\[CDATA\[)?(.*?)(?:\]\]>)?\s*<\/loc>/gi),
+      (match) => decodeXmlEntities(match[1].trim())
+    );
+  } else {
+    candidates = trimmed
+      .split(/[\r\n,;\t]+/)
+      .map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+  }
+
+  return Array.from(new Set(candidates.filter(isHttpUrl)));
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight. The worker
+ * is expected to handle its own errors.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+) {
+  let next = 0;
+  const runners = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        await worker(items[index], index);
+      }
+    }
+  );
+  await Promise.all(runners);
+}
+
+export function slugifyUrl(url: string) {
+  const { hostname, pathname } = new URL(url);
+  return `${hostname}${pathname}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * One file-name slug per URL, in order. URLs that differ only in their query
+ * string, or like `/a-b` and `/a/b`, get `-2`, `-3` and so on, so their files
+ * never overwrite each other.
+ */
+export function uniqueSlugs(urls: string[]) {
+  const taken = new Set<string>();
+  return urls.map((url) => {
+    const base = slugifyUrl(url);
+    let slug = base;
+    for (let n = 2; taken.has(slug); n++) slug = `${base}-${n}`;
+    taken.add(slug);
+    return slug;
+  });
+}
+
+/** Builds a zip with one `critical-<page>-<key>.css` file per output. */
+export function buildCssZip(results: ExtractionResult[]) {
+  const files: Record<string, Uint8Array> = {};
+  const slugs = uniqueSlugs(results.map((result) => result.url));
+  results.forEach((result, i) => {
+    for (const { key, css } of getCssOutputs(result)) {
+      files[`critical-${slugs[i]}-${key}.css`] = strToU8(css);
+    }
+  });
+  return zipSync(files);
+}
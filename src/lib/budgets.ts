@@ -0,0 +1,233 @@
+import type { BrotliWasmType } from 'brotli-wasm';
+import { gzipSync, strToU8 } from 'fflate';
+import { atRuleLabel, parseCss, stringifyNode } from '@/lib/css';
+import { getCssOutputs, type ResultOutput } from '@/lib/results';
+import type { ExtractionResult } from '@/lib/types';
+import { formatBytes } from '@/lib/utils';
+
+export type SizeMetric = 'raw' | 'gzip' | 'brotli';
+
+export interface SizeBudgets {
+  metric: SizeMetric;
+  /** Byte limit for each viewport's output. */
+  viewport: number;
+  /** Byte limit for the combined output. */
+  combined: number;
+  /** Per-viewport limits that replace `viewport`, keyed by output key. */
+  overrides: Record<string, number>;
+  /** Fraction of a limit above which a size is flagged as a warning. */
+  warnRatio: number;
+}
+
+export type BudgetStatus = 'pass' | 'warn' | 'fail';
+
+export type CompressedSizes = Record<SizeMetric, number>;
+
+export type BrotliCompress = (bytes: Uint8Array) => Uint8Array;
+
+export interface BudgetBreakdownItem {
+  label: string;
+  /** Raw bytes attributed to this stylesheet or block. */
+  size: number;
+}
+
+export interface BudgetCheck {
+  key: string;
+  kind: ResultOutput['kind'];
+  limit: number;
+  sizes: CompressedSizes;
+  status: BudgetStatus;
+  breakdown: BudgetBreakdownItem[];
+}
+
+/** Roughly what fits in the first TCP round trip alongside the HTML. */
+export const DEFAULT_BUDGETS: SizeBudgets = {
+  metric: 'raw',
+  viewport: 14 * 1024,
+  combined: 14 * 1024,
+  overrides: {},
+  warnRatio: 0.8,
+};
+
+export const METRIC_LABELS: Record<SizeMetric, string> = {
+  raw: 'raw',
+  gzip: 'gzip',
+  brotli: 'brotli',
+};
+
+const STATUS_ORDER: BudgetStatus[] = ['pass', 'warn', 'fail'];
+
+let brotliWasm: Promise<BrotliWasmType> | null = null;
+
+function loadBrotli() {
+  // Loaded on first use so the wasm binary stays out of the initial bundle.
+  brotliWasm ??= import('brotli-wasm').then((mod) => mod.default);
+  return brotliWasm;
+}
+
+/**
+ * Measures `css` uncompressed, gzipped and brotli-compressed. `brotli`
+ * replaces the wasm encoder, e.g. with `node:zlib` outside the browser.
+ */
+export async function measureSizes(
+  css: string,
+  brotli?: BrotliCompress
+): Promise<CompressedSizes> {
+  const bytes = strToU8(css);
+  if (!brotli) {
+    const { compress } = await loadBrotli();
+    brotli = (input) => compress(input, { quality: 11 });
+  }
+  return {
+    raw: bytes.length,
+    gzip: gzipSync(bytes, { level: 9 }).length,
+    brotli: brotli(bytes).length,
+  };
+}
+
+export function getBudgetLimit(budgets: SizeBudgets, output: ResultOutput) {
+  if (output.kind === 'combined') return budgets.combined;
+  return budgets.overrides[output.key] ?? budgets.viewport;
+}
+
+export function getBudgetStatus(
+  size: number,
+  limit: number,
+  warnRatio: number
+): BudgetStatus {
+  if (limit <= 0) return 'pass';
+  if (size > limit) return 'fail';
+  return size > limit * warnRatio ? 'warn' : 'pass';
+}
+
+/** The most severe status among `checks`. */
+export function worstStatus(checks: BudgetCheck[]): BudgetStatus {
+  return checks.reduce<BudgetStatus>(
+    (worst, check) =>
+      STATUS_ORDER.indexOf(check.status) > STATUS_ORDER.indexOf(worst)
+        ? check.status
+        : worst,
+    'pass'
+  );
+}
+
+function byteLength(text: string) {
+  return strToU8(text).length;
+}
+
+/**
+ * Attributes an output's bytes to source stylesheets when the result has a
+ * coverage report, and to top-level at-rules otherwise.
+ */
+function getBreakdown(
+  result: ExtractionResult,
+  output: ResultOutput
+): BudgetBreakdownItem[] {
+  const groups = new Map<string, number>();
+  const add = (label: string, size: number) =>
+    groups.set(label, (groups.get(label) ?? 0) + size);
+
+  const perViewport =
+    output.kind === 'mobile' ||
+    output.kind === 'desktop' ||
+    output.kind === 'custom';
+  if (result.report) {
+    for (const rule of result.report.kept) {
+      if (
+        perViewport &&
+        rule.viewports &&
+        !rule.viewports.includes(output.key)
+      ) {
+        continue;
+      }
+      add(rule.stylesheet, rule.size);
+    }
+  } else {
+    for (const node of parseCss(output.css)) {
+      const label =
+        node.type !== 'atrule'
+          ? 'Style rules'
+          : node.name === 'media' || node.name === 'supports'
+            ? atRuleLabel(node)
+            : `@${node.name}`;
+      add(label, byteLength(stringifyNode(node)));
+    }
+  }
+
+  return Array.from(groups, ([label, size]) => ({ label, size })).sort(
+    (a, b) => b.size - a.size
+  );
+}
+
+export interface EvaluateBudgetsOptions {
+  /** Replaces the wasm brotli encoder; see `measureSizes`. */
+  brotli?: BrotliCompress;
+  /** The outputs as shown, e.g. post-processed; defaults to the result's. */
+  outputs?: ResultOutput[];
+}
+
+export async function evaluateBudgets(
+  result: ExtractionResult,
+  budgets: SizeBudgets,
+  { brotli, outputs = getCssOutputs(result) }: EvaluateBudgetsOptions = {}
+): Promise<BudgetCheck[]> {
+  return Promise.all(
+    outputs.map(async (output) => {
+      const sizes = await measureSizes(output.css, brotli);
+      const limit = getBudgetLimit(budgets, output);
+      return {
+        key: output.key,
+        kind: output.kind,
+        limit,
+        sizes,
+        status: getBudgetStatus(
+          sizes[budgets.metric],
+          limit,
+          budgets.warnRatio
+        ),
+        breakdown: getBreakdown(result, output),
+      };
+    })
+  );
+}
+
+function budgetMessage(check: BudgetCheck, metric: SizeMetric) {
+  const name =
+    check.kind === 'single' ? 'Critical CSS' : `${check.key} critical CSS`;
+  const size = `${formatBytes(check.sizes[metric])} ${METRIC_LABELS[metric]}`;
+  return check.status === 'fail'
+    ? `Budget exceeded: ${name} is ${size}, over the ${formatBytes(check.limit)} limit`
+    : `Near budget: ${name} is ${size}, ${Math.round((check.sizes[metric] / check.limit) * 100)}% of the ${formatBytes(check.limit)} limit`;
+}
+
+/**
+ * Returns `result` with failed budgets added to `validation.errors` and
+ * near-misses to `validation.warnings`.
+ */
+export function withBudgetValidation(
+  result: ExtractionResult,
+  checks: BudgetCheck[],
+  metric: SizeMetric
+): ExtractionResult {
+  const errors = checks
+    .filter((c) => c.status === 'fail')
+    .map((c) => budgetMessage(c, metric));
+  const warnings = checks
+    .filter((c) => c.status === 'warn')
+    .map((c) => budgetMessage(c, metric));
+  if (errors.length === 0 && warnings.length === 0) return result;
+
+  const validation = result.validation ?? {
+    isValid: true,
+    errors: [],
+    warnings: [],
+  };
+  return {
+    ...result,
+    validation: {
+      isValid: validation.isValid && errors.length === 0,
+      errors: [...validation.errors, ...errors],
+      warnings: [...validation.warnings, ...warnings],
+    },
+  };
+}
@@ -0,0 +1,29 @@
+/** Headers a client could set to pose as someone else. */
+export const FORWARDING_HEADERS = ['x-forwarded-for', 'x-real-ip'];
+
+/**
+ * Proxies in front of the app that append to `X-Forwarded-For`, from
+ * `TRUST_PROXY`; Vercel's edge counts as one. 0 means clients connect
+ * directly.
+ */
+export function trustedProxyCount() {
+  const count = Number(process.env.TRUST_PROXY);
+  if (Number.isInteger(count) && count > 0) return count;
+  return process.env.VERCEL ? 1 : 0;
+}
+
+/**
+ * The caller's address, used as the rate limit key. Without trusted proxies,
+ * `src/middleware.ts` drops client-sent forwarding headers, so
+ * `X-Forwarded-For` holds the socket peer Next.js recorded. With `n` trusted
+ * proxies, the entry `n` from the end is the client as the outermost one
+ * saw it; anything before it was written by the client.
+ */
+export function getClientIp(headers: Headers, proxies = trustedProxyCount()) {
+  const forwarded = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const ip = forwarded[Math.max(0, forwarded.length - Math.max(1, proxies))];
+  return ip || (proxies > 0 && headers.get('x-real-ip')) || 'unknown';
+}
@@ -0,0 +1,232 @@
+import {
+  atRuleLabel,
+  parseCss,
+  stringifyCss,
+  stringifyNode,
+  type CssAtRule,
+  type CssNode,
+} from '@/lib/css';
+import type { ExtractionResult } from '@/lib/types';
+
+/** How the mobile and desktop outputs are merged into the combined one. */
+export type CombineStrategy =
+  | 'extracted'
+  | 'union'
+  | 'union-media'
+  | 'mobile-first'
+  | 'media-blocks';
+
+export const COMBINE_STRATEGIES: {
+  id: CombineStrategy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    id: 'extracted',
+    label: 'As extracted',
+    description: 'The combined output returned with the result',
+  },
+  {
+    id: 'union',
+    label: 'Union',
+    description: 'Every rule either viewport needs, each once',
+  },
+  {
+    id: 'union-media',
+    label: 'Union + desktop query',
+    description:
+      'Mobile rules as they are; rules only desktop needs inside a min-width query',
+  },
+  {
+    id: 'mobile-first',
+    label: 'Mobile-first',
+    description:
+      'Mobile rules as the base; only the declarations desktop adds or changes inside a min-width query',
+  },
+  {
+    id: 'media-blocks',
+    label: 'Two media blocks',
+    description:
+      "Each viewport's CSS scoped by a max-width and a min-width media query",
+  },
+];
+
+export interface CombineSettings {
+  strategy: CombineStrategy;
+  /** First desktop width in px. */
+  breakpoint: number;
+}
+
+const encoder = new TextEncoder();
+
+/** At-rules with no effect, or no meaning, inside a media query. */
+function isHoisted(node: CssNode) {
+  return (
+    node.type === 'atrule' &&
+    (!node.nodes ||
+      node.name === 'font-face' ||
+      node.name === 'property' ||
+      node.name === 'counter-style' ||
+      node.name.endsWith('keyframes'))
+  );
+}
+
+/** At-rules that only group style rules, matched by their prelude. */
+function isGroup(node: CssNode): node is CssAtRule & { nodes: CssNode[] } {
+  return (
+    node.type === 'atrule' &&
+    Boolean(node.nodes) &&
+    ['media', 'supports', 'container', 'layer'].includes(node.name)
+  );
+}
+
+/** `@charset`, `@import` and `@namespace` must come before anything else. */
+function hoistRank(node: CssNode) {
+  if (node.type !== 'atrule') return 3;
+  return ['charset', 'import', 'namespace'].indexOf(node.name) + 1 || 3;
+}
+
+function union(first: CssNode[], second: CssNode[]) {
+  const seen = new Set(first.map((node) => stringifyNode(node)));
+  return [...first, ...second.filter((node) => !seen.has(stringifyNode(node)))];
+}
+
+function mediaBlock(params: string, nodes: CssNode[]): CssNode[] {
+  return nodes.length > 0
+    ? [{ type: 'atrule', name: 'media', params, nodes }]
+    : [];
+}
+
+/**
+ * What desktop needs on top of `mobile`: whole nodes mobile lacks and, for
+ * rules and groups mobile has too, only the declarations that differ.
+ */
+function desktopOverrides(mobile: CssNode[], desktop: CssNode[]): CssNode[] {
+  const keys = new Set<string>();
+  const declarations = new Map<string, Set<string>>();
+  const groups = new Map<string, CssNode[]>();
+  for (const node of mobile) {
+    keys.add(stringifyNode(node));
+    if (node.type === 'rule') {
+      const decls = declarations.get(node.selector) ?? new Set<string>();
+      for (const child of node.nodes) {
+        if (child.type === 'decl') decls.add(stringifyNode(child));
+      }
+      declarations.set(node.selector, decls);
+    } else if (isGroup(node)) {
+      const label = atRuleLabel(node);
+      groups.set(label, [...(groups.get(label) ?? []), ...node.nodes]);
+    }
+  }
+
+  const overrides: CssNode[] = [];
+  for (const node of desktop) {
+    if (keys.has(stringifyNode(node))) continue;
+
+    const base =
+      node.type === 'rule' && node.nodes.every((child) => child.type === 'decl')
+        ? declarations.get(node.selector)
+        : undefined;
+    const group = isGroup(node) ? groups.get(atRuleLabel(node)) : undefined;
+    if (node.type === 'rule' && base) {
+      const changed = node.nodes.filter(
+        (child) => !base.has(stringifyNode(child))
+      );
+      if (changed.length > 0) overrides.push({ ...node, nodes: changed });
+    } else if (isGroup(node) && group) {
+      const nested = desktopOverrides(group, node.nodes);
+      if (nested.length > 0) overrides.push({ ...node, nodes: nested });
+    } else {
+      overrides.push(node);
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Merges the mobile and desktop CSS client-side. Rules mobile needs apply
+ * at every width, the same as the extracted union; the strategies differ
+ * in how rules only desktop needs are scoped.
+ */
+export function combineCss(
+  mobileCss: string,
+  desktopCss: string,
+  { strategy, breakpoint }: CombineSettings
+) {
+  const split = (css: string) => {
+    const nodes = parseCss(css);
+    return {
+      hoisted: nodes.filter(isHoisted),
+      rules: nodes.filter((node) => !isHoisted(node)),
+    };
+  };
+  const mobile = split(mobileCss);
+  const desktop = split(desktopCss);
+  const desktopQuery = `(min-width: ${breakpoint}px)`;
+
+  let rules: CssNode[];
+  switch (strategy) {
+    case 'union-media': {
+      const shared = new Set(mobile.rules.map((node) => stringifyNode(node)));
+      rules = [
+        ...mobile.rules,
+        ...mediaBlock(
+          desktopQuery,
+          desktop.rules.filter((node) => !shared.has(stringifyNode(node)))
+        ),
+      ];
+      break;
+    }
+    case 'mobile-first':
+      rules = [
+        ...mobile.rules,
+        ...mediaBlock(
+          desktopQuery,
+          desktopOverrides(mobile.rules, desktop.rules)
+        ),
+      ];
+      break;
+    case 'media-blocks':
+      rules = [
+        ...mediaBlock(`(max-width: ${breakpoint - 1}px)`, mobile.rules),
+        ...mediaBlock(desktopQuery, desktop.rules),
+      ];
+      break;
+    default:
+      rules = union(mobile.rules, desktop.rules);
+  }
+
+  const hoisted = union(mobile.hoisted, desktop.hoisted).sort(
+    (a, b) => hoistRank(a) - hoistRank(b)
+  );
+  return stringifyCss([...hoisted, ...rules]);
+}
+
+export function canCombine(result: ExtractionResult) {
+  return Boolean(result.mobile && result.desktop);
+}
+
+/** Sizes in bytes of the combined output under every strategy. */
+export function combinedSizes(
+  result: ExtractionResult,
+  breakpoint: number
+): Partial<Record<CombineStrategy, number>> {
+  if (!canCombine(result)) return {};
+  return Object.fromEntries(
+    COMBINE_STRATEGIES.map(({ id }) => [
+      id,
+      withCombinedStrategy(result, { strategy: id, breakpoint }).combined
+        ?.size ?? 0,
+    ])
+  );
+}
+
+/** `result` with its combined output rebuilt by `settings.strategy`. */
+export function withCombinedStrategy(
+  result: ExtractionResult,
+  settings: CombineSettings
+): ExtractionResult {
+  if (settings.strategy === 'extracted' || !canCombine(result)) return result;
+  const css = combineCss(result.mobile!.css, result.desktop!.css, settings);
+  return { ...result, combined: { css, size: encoder.encode(css).length } };
+}
@@ -0,0 +1,263 @@
+import { atRuleLabel, parseCss, type CssAtRule, type CssNode } from '@/lib/css';
+
+export interface FlatRule {
+  /** Enclosing at-rules and parent rules, e.g. `@media (min-width: 768px)`. */
+  context: string;
+  selector: string;
+  declarations: Record<string, string>;
+}
+
+export interface DeclarationChange {
+  property: string;
+  before?: string;
+  after?: string;
+}
+
+export interface RuleChange {
+  context: string;
+  selector: string;
+  changes: DeclarationChange[];
+}
+
+export interface RuleMove {
+  selector: string;
+  from: string;
+  to: string;
+}
+
+export interface CssDiff {
+  added: FlatRule[];
+  removed: FlatRule[];
+  changed: RuleChange[];
+  /** Rules with unchanged declarations that now sit in another context. */
+  moved: RuleMove[];
+  /** Top-level at-rule blocks whose position relative to the others changed. */
+  movedBlocks: string[];
+}
+
+export interface DiffLine {
+  left?: string;
+  right?: string;
+  type: 'same' | 'removed' | 'added' | 'changed';
+}
+
+/** Above this many LCS cells a line diff is skipped to keep the UI responsive. */
+const MAX_LINE_DIFF_CELLS = 4_000_000;
+
+function blockLabel(node: CssAtRule) {
+  if (node.name !== 'font-face') return atRuleLabel(node);
+  // Several @font-face blocks are normal; tell them apart by their descriptors.
+  const descriptor = (name: string) =>
+    node.nodes?.find((n) => n.type === 'decl' && n.property === name);
+  return ['font-family', 'font-weight', 'font-style']
+    .map((name) => {
+      const decl = descriptor(name);
+      return decl?.type === 'decl' ? decl.value : '';
+    })
+    .filter(Boolean)
+    .reduce((label, part) => `${label} ${part}`, '@font-face');
+}
+
+function flattenRules(
+  nodes: CssNode[],
+  context: string[] = [],
+  rules = new Map<string, FlatRule>()
+) {
+  const add = (selector: string, children: CssNode[]) => {
+    const declarations: Record<string, string> = {};
+    for (const child of children) {
+      if (child.type === 'decl') {
+        declarations[child.property] =
+          child.value + (child.important ? ' !important' : '');
+      }
+    }
+    if (Object.keys(declarations).length === 0) return;
+
+    const contextLabel = context.join(' ');
+    const key = `${contextLabel}\u0000${selector}`;
+    const existing = rules.get(key);
+    rules.set(key, {
+      context: contextLabel,
+      selector,
+      declarations: { ...existing?.declarations, ...declarations },
+    });
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'rule') {
+      add(node.selector, node.nodes);
+      flattenRules(node.nodes, [...context, node.selector], rules);
+    } else if (node.type === 'atrule' && node.nodes) {
+      add(blockLabel(node), node.nodes);
+      flattenRules(node.nodes, [...context, atRuleLabel(node)], rules);
+    }
+  }
+  return rules;
+}
+
+function sameDeclarations(
+  a: Record<string, string>,
+  b: Record<string, string>
+) {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k])
+  );
+}
+
+/** Indexes into `a` and `b` of a longest common subsequence, in order. */
+function longestCommonSubsequence<T>(a: T[], b: T[]) {
+  const n = a.length;
+  const m = b.length;
+  const table = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[at(i, j)] =
+        a[i] === b[j]
+          ? table[at(i + 1, j + 1)] + 1
+          : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      pairs.push([i++, j++]);
+    } else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function topLevelBlocks(nodes: CssNode[]) {
+  const labels = nodes.flatMap((node) =>
+    node.type === 'atrule' && node.nodes && node.name !== 'font-face'
+      ? [atRuleLabel(node)]
+      : []
+  );
+  return Array.from(new Set(labels));
+}
+
+/** Compares two stylesheets rule by rule rather than line by line. */
+export function diffCss(before: string, after: string): CssDiff {
+  const beforeNodes = parseCss(before);
+  const afterNodes = parseCss(after);
+  const beforeRules = flattenRules(beforeNodes);
+  const afterRules = flattenRules(afterNodes);
+
+  let added: FlatRule[] = [];
+  let removed: FlatRule[] = [];
+  const changed: RuleChange[] = [];
+
+  for (const [key, rule] of Array.from(beforeRules)) {
+    const next = afterRules.get(key);
+    if (!next) {
+      removed.push(rule);
+      continue;
+    }
+    const properties = new Set([
+      ...Object.keys(rule.declarations),
+      ...Object.keys(next.declarations),
+    ]);
+    const changes = Array.from(properties)
+      .filter((p) => rule.declarations[p] !== next.declarations[p])
+      .map((property) => ({
+        property,
+        before: rule.declarations[property],
+        after: next.declarations[property],
+      }));
+    if (changes.length > 0) {
+      changed.push({ context: rule.context, selector: rule.selector, changes });
+    }
+  }
+  for (const [key, rule] of Array.from(afterRules)) {
+    if (!beforeRules.has(key)) added.push(rule);
+  }
+
+  const moved: RuleMove[] = [];
+  for (const rule of removed) {
+    const match = added.find(
+      (a) =>
+        a.selector === rule.selector &&
+        sameDeclarations(a.declarations, rule.declarations)
+    );
+    if (match) {
+      moved.push({
+        selector: rule.selector,
+        from: rule.context,
+        to: match.context,
+      });
+      added = added.filter((a) => a !== match);
+    }
+  }
+  removed = removed.filter(
+    (rule) =>
+      !moved.some(
+        (m) => m.selector === rule.selector && m.from === rule.context
+      )
+  );
+
+  const beforeBlocks = topLevelBlocks(beforeNodes);
+  const afterBlocks = topLevelBlocks(afterNodes);
+  const beforeOrder = beforeBlocks.filter((l) => afterBlocks.includes(l));
+  const afterOrder = afterBlocks.filter((l) => beforeBlocks.includes(l));
+  const stable = new Set(
+    longestCommonSubsequence(beforeOrder, afterOrder).map(
+      ([i]) => beforeOrder[i]
+    )
+  );
+  const movedBlocks = beforeOrder.filter((label) => !stable.has(label));
+
+  return { added, removed, changed, moved, movedBlocks };
+}
+
+/**
+ * Aligns two texts line by line for a side-by-side view. Returns null when
+ * the inputs are too large to align.
+ */
+export function diffLines(before: string, after: string): DiffLine[] | null {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  if ((a.length + 1) * (b.length + 1) > MAX_LINE_DIFF_CELLS) return null;
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  const flush = (toI: number, toJ: number) => {
+    const removed = a.slice(i, toI);
+    const added = b.slice(j, toJ);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      lines.push({
+        left,
+        right,
+        type:
+          left !== undefined && right !== undefined
+            ? 'changed'
+            : left !== undefined
+              ? 'removed'
+              : 'added',
+      });
+    }
+    i = toI;
+    j = toJ;
+  };
+
+  for (const [ai, bi] of longestCommonSubsequence(a, b)) {
+    flush(ai, bi);
+    lines.push({ left: a[ai], right: b[bi], type: 'same' });
+    i = ai + 1;
+    j = bi + 1;
+  }
+  flush(a.length, b.length);
+  return lines;
+}
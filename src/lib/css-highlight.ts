@@ -0,0 +1,225 @@
+export type CssTokenType =
+  | 'atrule'
+  | 'params'
+  | 'selector'
+  | 'property'
+  | 'value'
+  | 'string'
+  | 'important'
+  | 'comment'
+  | 'punctuation'
+  | 'whitespace';
+
+export interface CssToken {
+  type: CssTokenType;
+  text: string;
+}
+
+export interface FoldRange {
+  /** Line holding the opening `@media {` or `@supports {`. */
+  start: number;
+  /** Line holding the matching `}`. */
+  end: number;
+}
+
+export interface TextMatch {
+  line: number;
+  start: number;
+  end: number;
+}
+
+/** At-rules whose blocks hold rules rather than declarations. */
+const RULE_LIST_AT_RULES = new Set([
+  'media',
+  'supports',
+  'layer',
+  'container',
+  'document',
+  'scope',
+  'starting-style',
+]);
+
+const FOLDABLE_AT_RULES = /^\s*@(media|supports)\b/;
+
+function isRuleListAtRule(name: string) {
+  return RULE_LIST_AT_RULES.has(name) || /^(-\w+-)?keyframes$/.test(name);
+}
+
+/**
+ * Splits CSS into highlighted tokens, one array per line. Works on both
+ * pretty-printed and minified input; unknown syntax falls back to plain
+ * selector or value tokens rather than failing.
+ */
+export function tokenizeCss(css: string): CssToken[][] {
+  const lines: CssToken[][] = [[]];
+  // One entry per open block: true when it contains declarations.
+  const blocks: boolean[] = [];
+  let expectProperty = false;
+  let inValue = false;
+  let pos = 0;
+
+  const push = (type: CssTokenType, text: string) => {
+    const parts = text.split('\n');
+    parts.forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type, text: part });
+    });
+  };
+
+  const inDeclarations = () => blocks[blocks.length - 1] === true;
+
+  while (pos < css.length) {
+    const ch = css[pos];
+
+    if (ch === '/' && css[pos + 1] === '*') {
+      const end = css.indexOf('*/', pos + 2);
+      const stop = end === -1 ? css.length : end + 2;
+      push('comment', css.slice(pos, stop));
+      pos = stop;
+      continue;
+    }
+
+    if (/\s/.test(ch)) {
+      let end = pos;
+      while (end < css.length && /\s/.test(css[end])) end++;
+      push('whitespace', css.slice(pos, end));
+      pos = end;
+      continue;
+    }
+
+    if (
+      ch === '{' ||
+      ch === '}' ||
+      ch === ';' ||
+      (ch === ':' && expectProperty)
+    ) {
+      push('punctuation', ch);
+      pos++;
+      if (ch === '}') {
+        blocks.pop();
+        inValue = false;
+        expectProperty = inDeclarations();
+      } else if (ch === ';') {
+        inValue = false;
+        expectProperty = inDeclarations();
+      } else if (ch === ':') {
+        expectProperty = false;
+        inValue = true;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let end = pos + 1;
+      while (end < css.length && css[end] !== ch && css[end] !== '\n') {
+        if (css[end] === '\\') end++;
+        end++;
+      }
+      push('string', css.slice(pos, end + 1));
+      pos = end + 1;
+      continue;
+    }
+
+    if (inValue) {
+      if (css.startsWith('!important', pos)) {
+        push('important', '!important');
+        pos += '!important'.length;
+        continue;
+      }
+      // Parentheses keep `url(data:...;base64,...)` in one token.
+      let end = pos;
+      let depth = 0;
+      while (end < css.length) {
+        const c = css[end];
+        if (c === '(') depth++;
+        else if (c === ')') depth = Math.max(0, depth - 1);
+        else if (depth === 0 && /[;}{"'!\s]/.test(c)) break;
+        end++;
+      }
+      push('value', css.slice(pos, Math.max(end, pos + 1)));
+      pos = Math.max(end, pos + 1);
+      continue;
+    }
+
+    // A prelude runs until the next `{`, `;` or `}`; a property until `:`.
+    let end = pos;
+    while (end < css.length && !/[{};]/.test(css[end])) {
+      if (expectProperty && css[end] === ':') break;
+      if (css[end] === '"' || css[end] === "'") break;
+      if (css[end] === '\n') break;
+      end++;
+    }
+    const text = css.slice(pos, Math.max(end, pos + 1));
+    pos = Math.max(end, pos + 1);
+
+    if (expectProperty && css[end] === ':') {
+      push('property', text);
+      continue;
+    }
+    if (text.startsWith('@')) {
+      const [, name = '', rest = ''] = text.match(/^(@[\w-]+)([\s\S]*)$/) ?? [];
+      push('atrule', name || text);
+      if (rest) push('params', rest);
+      if (css[end] === '{') {
+        blocks.push(!isRuleListAtRule(name.slice(1)));
+        push('punctuation', '{');
+        pos = end + 1;
+        expectProperty = inDeclarations();
+      }
+      continue;
+    }
+    push('selector', text);
+    if (css[end] === '{') {
+      blocks.push(true);
+      push('punctuation', '{');
+      pos = end + 1;
+      expectProperty = true;
+    }
+  }
+
+  return lines;
+}
+
+export function lineText(tokens: CssToken[]) {
+  return tokens.map((token) => token.text).join('');
+}
+
+/** Ranges of `@media` and `@supports` blocks that span several lines. */
+export function getFoldRanges(lines: string[]): FoldRange[] {
+  const ranges: FoldRange[] = [];
+  const open: { line: number; foldable: boolean }[] = [];
+
+  lines.forEach((line, index) => {
+    for (const ch of line.replace(/(["'])(?:\\.|(?!\1).)*\1/g, '')) {
+      if (ch === '{') {
+        open.push({
+          line: index,
+          foldable: FOLDABLE_AT_RULES.test(line),
+        });
+      } else if (ch === '}') {
+        const start = open.pop();
+        if (start?.foldable && index > start.line) {
+          ranges.push({ start: start.line, end: index });
+        }
+      }
+    }
+  });
+
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/** Case-insensitive, non-overlapping matches of `query` in each line. */
+export function findMatches(lines: string[], query: string): TextMatch[] {
+  const needle = query.toLowerCase();
+  if (!needle) return [];
+  const matches: TextMatch[] = [];
+  lines.forEach((line, index) => {
+    const haystack = line.toLowerCase();
+    let from = haystack.indexOf(needle);
+    while (from !== -1) {
+      matches.push({ line: index, start: from, end: from + needle.length });
+      from = haystack.indexOf(needle, from + needle.length);
+    }
+  });
+  return matches;
+}
@@ -0,0 +1,282 @@
+export interface CssDeclaration {
+  type: 'decl';
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+export interface CssRule {
+  type: 'rule';
+  selector: string;
+  nodes: CssNode[];
+}
+
+export interface CssAtRule {
+  type: 'atrule';
+  name: string;
+  params: string;
+  /** Undefined for statement at-rules such as `@import` or `@charset`. */
+  nodes?: CssNode[];
+}
+
+export type CssNode = CssDeclaration | CssRule | CssAtRule;
+
+function skipString(source: string, pos: number) {
+  const quote = source[pos];
+  pos++;
+  while (pos < source.length && source[pos] !== quote) {
+    if (source[pos] === '\\') pos++;
+    pos++;
+  }
+  return pos + 1;
+}
+
+function stripComments(source: string) {
+  let out = '';
+  let pos = 0;
+  while (pos < source.length) {
+    const ch = source[pos];
+    if (ch === '"' || ch === "'") {
+      const end = skipString(source, pos);
+      out += source.slice(pos, end);
+      pos = end;
+    } else if (ch === '/' && source[pos + 1] === '*') {
+      const end = source.indexOf('*/', pos + 2);
+      pos = end === -1 ? source.length : end + 2;
+      out += ' ';
+    } else {
+      out += ch;
+      pos++;
+    }
+  }
+  return out;
+}
+
+/** Collapses runs of whitespace outside of strings. */
+function collapseWhitespace(value: string) {
+  let out = '';
+  let pos = 0;
+  while (pos < value.length) {
+    const ch = value[pos];
+    if (ch === '"' || ch === "'") {
+      const end = skipString(value, pos);
+      out += value.slice(pos, end);
+      pos = end;
+    } else if (/\s/.test(ch)) {
+      while (pos < value.length && /\s/.test(value[pos])) pos++;
+      out += ' ';
+    } else {
+      out += ch;
+      pos++;
+    }
+  }
+  return out.trim();
+}
+
+function parseStatement(text: string): CssNode | null {
+  const statement = collapseWhitespace(text);
+  if (!statement) return null;
+
+  if (statement.startsWith('@')) {
+    const [, name, params] = statement.match(/^@([\w-]+)\s*(.*)$/) ?? [];
+    return name ? { type: 'atrule', name, params } : null;
+  }
+
+  const colon = statement.indexOf(':');
+  if (colon === -1) return null;
+  const property = statement.slice(0, colon).trim();
+  let value = statement.slice(colon + 1).trim();
+  const important = /!\s*important$/i.test(value);
+  if (important) value = value.replace(/\s*!\s*important$/i, '');
+  return { type: 'decl', property, value, important };
+}
+
+function parseBlockNode(prelude: string, nodes: CssNode[]): CssNode {
+  const text = collapseWhitespace(prelude);
+  if (text.startsWith('@')) {
+    const [, name = '', params = ''] = text.match(/^@([\w-]+)\s*(.*)$/) ?? [];
+    return { type: 'atrule', name, params, nodes };
+  }
+  return { type: 'rule', selector: text, nodes };
+}
+
+/**
+ * Parses a stylesheet into a PostCSS-like tree. Comments are dropped and
+ * whitespace inside selectors, params and values is collapsed. The parser is
+ * forgiving: unbalanced braces close at end of input.
+ */
+export function parseCss(css: string): CssNode[] {
+  const source = stripComments(css);
+  let pos = 0;
+
+  const parseBlock = (): CssNode[] => {
+    const nodes: CssNode[] = [];
+    let start = pos;
+    let parens = 0;
+
+    const pushStatement = () => {
+      const node = parseStatement(source.slice(start, pos));
+      if (node) nodes.push(node);
+    };
+
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (ch === '"' || ch === "'") {
+        pos = skipString(source, pos);
+        continue;
+      }
+      if (ch === '(') parens++;
+      if (ch === ')') parens = Math.max(0, parens - 1);
+
+      if (parens === 0 && ch === '{') {
+        const prelude = source.slice(start, pos);
+        pos++;
+        nodes.push(parseBlockNode(prelude, parseBlock()));
+        start = pos;
+        continue;
+      }
+      if (parens === 0 && ch === ';') {
+        pushStatement();
+        pos++;
+        start = pos;
+        continue;
+      }
+      if (parens === 0 && ch === '}') {
+        pushStatement();
+        pos++;
+        return nodes;
+      }
+      pos++;
+    }
+
+    pushStatement();
+    return nodes;
+  };
+
+  const nodes: CssNode[] = [];
+  while (pos < source.length) {
+    // A stray `}` at the top level ends parseBlock early; keep going.
+    nodes.push(...parseBlock());
+  }
+  return nodes;
+}
+
+/** Applies `fn` to the parts of `value` that are not quoted strings. */
+function replaceOutsideStrings(value: string, fn: (part: string) => string) {
+  let out = '';
+  let start = 0;
+  let pos = 0;
+  while (pos < value.length) {
+    const ch = value[pos];
+    if (ch === '"' || ch === "'") {
+      const end = skipString(value, pos);
+      out += fn(value.slice(start, pos)) + value.slice(pos, end);
+      pos = start = end;
+    } else {
+      pos++;
+    }
+  }
+  return out + fn(value.slice(start));
+}
+
+function minifySelector(selector: string) {
+  return replaceOutsideStrings(selector, (part) =>
+    part.replace(/\s*([>+~,])\s*/g, '$1')
+  );
+}
+
+function minifyValue(value: string) {
+  return replaceOutsideStrings(value, (part) => part.replace(/\s*,\s*/g, ','));
+}
+
+function stringifyDeclaration(decl: CssDeclaration, pretty: boolean) {
+  const value = pretty ? decl.value : minifyValue(decl.value);
+  const important = decl.important
+    ? pretty
+      ? ' !important'
+      : '!important'
+    : '';
+  return pretty
+    ? `${decl.property}: ${value}${important};`
+    : `${decl.property}:${value}${important}`;
+}
+
+export function stringifyNode(
+  node: CssNode,
+  pretty = false,
+  indent = ''
+): string {
+  if (node.type === 'decl') {
+    return indent + stringifyDeclaration(node, pretty);
+  }
+
+  const prelude =
+    node.type === 'atrule'
+      ? atRuleLabel(node)
+      : pretty
+        ? replaceOutsideStrings(node.selector, (part) =>
+            part.replace(/\s*,\s*/g, ', ')
+          )
+        : minifySelector(node.selector);
+
+  if (node.type === 'atrule' && !node.nodes) {
+    return `${indent}${prelude};`;
+  }
+
+  const children = node.nodes ?? [];
+  if (!pretty) {
+    const body = children
+      .map((child, i) =>
+        child.type === 'decl' && i < children.length - 1
+          ? stringifyNode(child) + ';'
+          : stringifyNode(child)
+      )
+      .join('');
+    return `${prelude}{${body}}`;
+  }
+
+  if (children.length === 0) return `${indent}${prelude} {}`;
+  return [
+    `${indent}${prelude} {`,
+    ...children.map((child) => stringifyNode(child, true, indent + '  ')),
+    `${indent}}`,
+  ].join('\n');
+}
+
+export function stringifyCss(nodes: CssNode[], pretty = false) {
+  return nodes
+    .map((node) => stringifyNode(node, pretty))
+    .join(pretty ? '\n\n' : '');
+}
+
+export function formatCss(css: string) {
+  return stringifyCss(parseCss(css), true);
+}
+
+export function minifyCss(css: string) {
+  return stringifyCss(parseCss(css));
+}
+
+/**
+ * Calls `visit` for every style rule along with the chain of at-rules and
+ * parent rules it is nested in, outermost first.
+ */
+export function walkRules(
+  nodes: CssNode[],
+  visit: (rule: CssRule, parents: (CssRule | CssAtRule)[]) => void,
+  parents: (CssRule | CssAtRule)[] = []
+) {
+  for (const node of nodes) {
+    if (node.type === 'rule') {
+      visit(node, parents);
+      walkRules(node.nodes, visit, [...parents, node]);
+    } else if (node.type === 'atrule' && node.nodes) {
+      walkRules(node.nodes, visit, [...parents, node]);
+    }
+  }
+}
+
+/** `@media (x)` style label for an at-rule, used as a grouping key. */
+export function atRuleLabel(node: CssAtRule) {
+  return `@${node.name}${node.params ? ' ' + node.params : ''}`;
+}
@@ -0,0 +1,285 @@
+import { strToU8, zipSync } from 'fflate';
+import type { ResultOutput } from '@/lib/results';
+import {
+  DEFAULT_BREAKPOINT,
+  buildHeadSnippet,
+  escapeStyleContent,
+} from '@/lib/snippet';
+import type { ExtractionResult } from '@/lib/types';
+
+export type ExportFormat =
+  | 'json'
+  | 'zip'
+  | 'html'
+  | 'js'
+  | 'ts'
+  | 'nextjs'
+  | 'wordpress'
+  | 'nunjucks'
+  | 'liquid';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  group: 'Data' | 'Snippets' | 'Frameworks';
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'json', label: 'JSON report', group: 'Data' },
+  { id: 'zip', label: 'Zip of all viewports', group: 'Data' },
+  { id: 'html', label: 'HTML <head> snippet', group: 'Snippets' },
+  { id: 'js', label: 'JavaScript module', group: 'Snippets' },
+  { id: 'ts', label: 'TypeScript module', group: 'Snippets' },
+  { id: 'nextjs', label: 'Next.js component', group: 'Frameworks' },
+  { id: 'wordpress', label: 'WordPress wp_head hook', group: 'Frameworks' },
+  { id: 'nunjucks', label: 'Nunjucks partial', group: 'Frameworks' },
+  { id: 'liquid', label: 'Liquid partial', group: 'Frameworks' },
+];
+
+export interface ExportFile {
+  filename: string;
+  blob: Blob;
+}
+
+function isoDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function slug(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * `critical-css-<host>-<date>`, e.g. `critical-css-example-com-2024-05-01`.
+ * Uploaded pages have no host and use their file name instead.
+ */
+export function exportBaseName(result: ExtractionResult, date = new Date()) {
+  let name = '';
+  try {
+    const { hostname, pathname } = new URL(result.url);
+    name =
+      hostname ||
+      pathname
+        .split('/')
+        .pop()!
+        .replace(/\.[^.]*$/, '');
+  } catch {
+    // Results loaded from files may carry any string as their URL.
+  }
+  return `critical-css-${slug(name) || 'page'}-${isoDate(date)}`;
+}
+
+/** Copies the (post-processed) output CSS back into the result's fields. */
+function withOutputs(
+  result: ExtractionResult,
+  outputs: ResultOutput[]
+): ExtractionResult {
+  const next: ExtractionResult = { ...result };
+  for (const { key, kind, css } of outputs) {
+    const size = new Blob([css]).size;
+    if (kind === 'combined') next.combined = { css, size };
+    else if (kind === 'single') next.css = css;
+    else if (kind === 'custom' && next.viewports?.[key]) {
+      next.viewports = {
+        ...next.viewports,
+        [key]: { ...next.viewports[key], css, size },
+      };
+    } else if ((kind === 'mobile' || kind === 'desktop') && next[kind]) {
+      next[kind] = { ...next[kind]!, css, size };
+    }
+  }
+  return next;
+}
+
+/** The CSS to inline: the combined output, else the only one. */
+function primaryCss(outputs: ResultOutput[]) {
+  return outputs[0]?.css ?? '';
+}
+
+function header(result: ExtractionResult, date: Date) {
+  return `Critical CSS for ${result.url}, extracted ${isoDate(date)}.`;
+}
+
+function buildManifest(
+  result: ExtractionResult,
+  outputs: ResultOutput[],
+  date: Date
+) {
+  return {
+    url: result.url,
+    viewport: result.viewport,
+    exportedAt: date.toISOString(),
+    options: result.options,
+    stylesheets: result.stylesheets ?? [],
+    validation: result.validation,
+    files: outputs.map(({ key, css, extractionTime }) => ({
+      file: `${key}.css`,
+      viewport: key,
+      size: new Blob([css]).size,
+      extractionTime,
+    })),
+  };
+}
+
+function buildModule(
+  result: ExtractionResult,
+  outputs: ResultOutput[],
+  date: Date,
+  typescript: boolean
+) {
+  const lines = [
+    `// ${header(result, date)}`,
+    `export const criticalCss = ${JSON.stringify(primaryCss(outputs))};`,
+  ];
+  const viewports = outputs.filter((output) => output.kind !== 'combined');
+  if (viewports.length > 1) {
+    lines.push(
+      '',
+      'export const criticalCssByViewport = {',
+      ...viewports.map(
+        ({ key, css }) => `  ${JSON.stringify(key)}: ${JSON.stringify(css)},`
+      ),
+      typescript ? '} as const;' : '};'
+    );
+  }
+  lines.push('', 'export default criticalCss;', '');
+  return lines.join('\n');
+}
+
+function buildNextComponent(
+  result: ExtractionResult,
+  outputs: ResultOutput[],
+  date: Date
+) {
+  return [
+    `// ${header(result, date)}`,
+    '// Render <CriticalCss /> inside <head> in app/layout.tsx or pages/_document.tsx.',
+    '',
+    `const css = ${JSON.stringify(escapeStyleContent(primaryCss(outputs)))};`,
+    '',
+    'export default function CriticalCss({ nonce }: { nonce?: string }) {',
+    '  return (',
+    '    <style',
+    '      id="critical-css"',
+    '      nonce={nonce}',
+    '      dangerouslySetInnerHTML={{ __html: css }}',
+    '    />',
+    '  );',
+    '}',
+    '',
+  ].join('\n');
+}
+
+function buildWordPressHook(
+  result: ExtractionResult,
+  outputs: ResultOutput[],
+  date: Date
+) {
+  // A nowdoc takes the CSS verbatim; its terminator must start a line.
+  return [
+    '<?php',
+    '/**',
+    ` * ${header(result, date)}`,
+    ' * Drop into wp-content/mu-plugins/ or require it from functions.php.',
+    ' */',
+    "add_action('wp_head', function () {",
+    "    echo '<style id=\"critical-css\">' . <<<'CRITICAL_CSS'",
+    escapeStyleContent(primaryCss(outputs)),
+    'CRITICAL_CSS',
+    "    . '</style>';",
+    '}, 1);',
+    '',
+  ].join('\n');
+}
+
+/** `{% raw %}` stops both engines from reading CSS braces as tags. */
+function buildTemplatePartial(
+  result: ExtractionResult,
+  outputs: ResultOutput[],
+  date: Date,
+  engine: 'nunjucks' | 'liquid'
+) {
+  const comment =
+    engine === 'nunjucks'
+      ? `{# ${header(result, date)} #}`
+      : `{% comment %}${header(result, date)}{% endcomment %}`;
+  return [
+    comment,
+    `<style id="critical-css">{% raw %}${escapeStyleContent(primaryCss(outputs))}{% endraw %}</style>`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Builds a download of the result. `outputs` carries the CSS as shown,
+ * post-processing included; the JSON report is the result as received.
+ */
+export function buildExport(
+  format: ExportFormat,
+  result: ExtractionResult,
+  outputs: ResultOutput[],
+  date = new Date()
+): ExportFile {
+  const base = exportBaseName(result, date);
+  const text = (content: string, extension: string, type: string) => ({
+    filename: `${base}.${extension}`,
+    blob: new Blob([content], { type }),
+  });
+
+  switch (format) {
+    case 'json':
+      return text(JSON.stringify(result, null, 2), 'json', 'application/json');
+    case 'zip': {
+      const files: Record<string, Uint8Array> = {
+        'manifest.json': strToU8(
+          JSON.stringify(buildManifest(result, outputs, date), null, 2)
+        ),
+      };
+      for (const { key, css } of outputs) files[`${key}.css`] = strToU8(css);
+      return {
+        filename: `${base}.zip`,
+        blob: new Blob([zipSync(files)], { type: 'application/zip' }),
+      };
+    }
+    case 'html':
+      return text(
+        buildHeadSnippet(withOutputs(result, outputs), {
+          stylesheets: result.stylesheets ?? [],
+          loading: 'preload',
+          splitViewports: false,
+          breakpoint: DEFAULT_BREAKPOINT,
+        }) + '\n',
+        'html',
+        'text/html'
+      );
+    case 'js':
+    case 'ts':
+      return text(
+        buildModule(result, outputs, date, format === 'ts'),
+        format,
+        'text/javascript'
+      );
+    case 'nextjs':
+      return text(
+        buildNextComponent(result, outputs, date),
+        'tsx',
+        'text/plain'
+      );
+    case 'wordpress':
+      return text(
+        buildWordPressHook(result, outputs, date),
+        'php',
+        'application/x-httpd-php'
+      );
+    case 'nunjucks':
+    case 'liquid':
+      return text(
+        buildTemplatePartial(result, outputs, date, format),
+        format === 'nunjucks' ? 'njk' : 'liquid',
+        'text/plain'
+      );
+  }
+}
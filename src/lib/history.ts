@@ -0,0 +1,145 @@
+import { extractionResultSchema } from '@/lib/api-schema';
+import { HISTORY_STORE, withStore } from '@/lib/db';
+import { getCssOutputs } from '@/lib/results';
+import { matches } from '@/lib/schema';
+import type { ExtractRequest, ExtractionResult } from '@/lib/types';
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  request: ExtractRequest;
+  result: ExtractionResult;
+  /** Byte size of each CSS output, keyed like the result tabs. */
+  sizes: Record<string, number>;
+  /** Project the extraction ran in, if any. */
+  projectId?: string;
+}
+
+/** Entries kept in the store; older ones are pruned after each save. */
+const MAX_HISTORY_ENTRIES = 200;
+
+interface HistoryExport {
+  version: 1;
+  exportedAt: string;
+  entries: HistoryEntry[];
+}
+
+/**
+ * The page HTML and preview screenshots are dropped: they dwarf the CSS and
+ * would fill the browser's storage quota after a few runs.
+ */
+function compactResult(result: ExtractionResult): ExtractionResult {
+  return { ...result, previews: undefined, html: undefined };
+}
+
+/** Credentials in `request.auth` are deliberately not copied into the entry. */
+export function createHistoryEntry(
+  { url, viewport, includeShadows, options }: ExtractRequest,
+  result: ExtractionResult,
+  projectId?: string
+): HistoryEntry {
+  const sizes: Record<string, number> = {};
+  for (const { key, css } of getCssOutputs(result)) {
+    sizes[key] = new Blob([css]).size;
+  }
+  return {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    request: { url, viewport, includeShadows, options },
+    result: compactResult(result),
+    sizes,
+    projectId,
+  };
+}
+
+/** All saved entries, newest first. */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>(
+    HISTORY_STORE,
+    'readonly',
+    (store) => store.index('createdAt').getAll()
+  );
+  return entries.reverse();
+}
+
+export async function saveHistoryEntry(entry: HistoryEntry) {
+  await withStore(HISTORY_STORE, 'readwrite', (store) => store.put(entry));
+}
+
+export async function deleteHistoryEntry(id: string) {
+  await withStore(HISTORY_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/** Deletes the oldest entries beyond `MAX_HISTORY_ENTRIES`. */
+export async function pruneHistory() {
+  const stale = (await listHistory()).slice(MAX_HISTORY_ENTRIES);
+  for (const { id } of stale) await deleteHistoryEntry(id);
+}
+
+export function serializeHistory(entries: HistoryEntry[]) {
+  const data: HistoryExport = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    entries,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+export function isHistoryEntry(value: unknown): value is HistoryEntry {
+  const entry = value as HistoryEntry;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.id === 'string' &&
+    typeof entry.createdAt === 'number' &&
+    typeof entry.request?.url === 'string' &&
+    matches(extractionResultSchema, entry.result)
+  );
+}
+
+/**
+ * Prepares imported entries for the store: heavy fields are dropped and only
+ * the newest `MAX_HISTORY_ENTRIES` are kept.
+ */
+export function toStoredEntries(entries: HistoryEntry[]): HistoryEntry[] {
+  return [...entries]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, MAX_HISTORY_ENTRIES)
+    .map((entry) => ({ ...entry, result: compactResult(entry.result) }));
+}
+
+/** Parses an exported history file; accepts a bare array of entries too. */
+export function parseHistory(json: string): HistoryEntry[] {
+  const data = JSON.parse(json);
+  const entries: unknown[] = Array.isArray(data) ? data : data?.entries;
+  if (!Array.isArray(entries) || !entries.every(isHistoryEntry)) {
+    throw new Error('Not a valid history export');
+  }
+  return toStoredEntries(entries);
+}
+
+/**
+ * Reads a result for comparison from an uploaded file: a saved
+ * `ExtractionResult`, a single history entry or a plain `.css` file.
+ */
+export function parseResultFile(
+  text: string,
+  filename: string
+): ExtractionResult {
+  if (filename.toLowerCase().endsWith('.css')) {
+    return {
+      success: true,
+      url: filename,
+      viewport: 'desktop',
+      css: text,
+      size: new Blob([text]).size,
+    };
+  }
+
+  const data = JSON.parse(text);
+  const result = isHistoryEntry(data) ? data.result : data;
+  if (typeof result?.url !== 'string' || getCssOutputs(result).length === 0) {
+    throw new Error('File does not contain an extraction result');
+  }
+  return result;
+}
@@ -0,0 +1,237 @@
+import {
+  buildHeadSnippet,
+  escapeAttribute,
+  escapeStyleContent,
+  type StylesheetLoading,
+} from '@/lib/snippet';
+import type { ExtractionResult } from '@/lib/types';
+
+export const DEFAULT_MARKER = 'critical-css';
+
+export function markerComments(name = DEFAULT_MARKER) {
+  return { start: `<!-- ${name}:start -->`, end: `<!-- ${name}:end -->` };
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replaces whatever sits between the `<!-- <name>:start -->` and
+ * `<!-- <name>:end -->` comments with an inline `<style>` holding `css`, so
+ * re-running on its own output swaps the previous CSS. Throws when the
+ * pair of markers is missing.
+ */
+export function injectBetweenMarkers(
+  html: string,
+  css: string,
+  name = DEFAULT_MARKER
+) {
+  const marker = escapeRegExp(name);
+  const pattern = new RegExp(
+    `([ \\t]*)(<!--\\s*${marker}:start\\s*-->)[\\s\\S]*?(<!--\\s*${marker}:end\\s*-->)`
+  );
+  if (!pattern.test(html)) {
+    const { start, end } = markerComments(name);
+    throw new Error(`No ${start} … ${end} markers found`);
+  }
+  return html.replace(
+    pattern,
+    (_match, indent: string, start: string, end: string) =>
+      `${indent}${start}\n${indent}<style id="${name}">${escapeStyleContent(css)}</style>\n${indent}${end}`
+  );
+}
+
+export interface ApplyOptions {
+  loading: StylesheetLoading;
+  nonce?: string;
+  splitViewports: boolean;
+  breakpoint: number;
+}
+
+export interface AppliedHtml {
+  html: string;
+  /** Stylesheet links switched to asynchronous loading by this run. */
+  rewritten: number;
+  /** Whether an earlier critical CSS block was replaced. */
+  replaced: boolean;
+}
+
+interface TagAttribute {
+  name: string;
+  /** The attribute as written, e.g. `href="/main.css"`. */
+  raw: string;
+  value: string;
+}
+
+const ATTRIBUTE_PATTERN =
+  /([^\s"'=<>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function parseAttributes(tag: string): TagAttribute[] {
+  const body = tag.replace(/^<link\b/i, '').replace(/\/?>$/, '');
+  return Array.from(body.matchAll(ATTRIBUTE_PATTERN), (match) => ({
+    name: match[1].toLowerCase(),
+    raw: match[0],
+    value: match[2] ?? match[3] ?? match[4] ?? '',
+  }));
+}
+
+/**
+ * Ranges whose links must stay as they are: comments, `<noscript>`
+ * fallbacks and markup inside scripts and templates.
+ */
+function skippedRanges(html: string) {
+  return Array.from(
+    html.matchAll(
+      /<!--[\s\S]*?-->|<(noscript|script|template)\b[\s\S]*?<\/\1>/gi
+    ),
+    (match) => [match.index!, match.index! + match[0].length]
+  );
+}
+
+/**
+ * Rewrites one `<link rel="stylesheet">` the way `buildHeadSnippet` loads
+ * stylesheets, keeping its other attributes, and adds a `<noscript>`
+ * fallback. `data-critical-async` marks it for the nonce'd swap script
+ * and for later runs.
+ */
+function asyncLink(
+  tag: string,
+  attributes: TagAttribute[],
+  options: ApplyOptions
+) {
+  const media = attributes.find((attr) => attr.name === 'media')?.value;
+  const kept = attributes
+    .filter(
+      (attr) =>
+        attr.name !== 'rel' &&
+        attr.name !== 'onload' &&
+        !(options.loading === 'media-print' && attr.name === 'media')
+    )
+    .map((attr) => attr.raw);
+
+  const preload = options.loading === 'preload';
+  const loading = preload
+    ? ['rel="preload"', 'as="style"']
+    : ['rel="stylesheet"', 'media="print"'];
+  if (!preload && media) loading.push(`data-media="${escapeAttribute(media)}"`);
+  if (!options.nonce) {
+    const swap = preload
+      ? "this.onload=null;this.rel='stylesheet'"
+      : `this.onload=null;this.media='${(media ?? 'all').replace(/['"\\]/g, '')}'`;
+    loading.push(`onload="${swap}"`);
+  }
+  const fallback = tag.replace(/\s*\/?>$/, '>');
+  return `<link ${[...loading, ...kept, 'data-critical-async'].join(' ')}><noscript>${fallback}</noscript>`;
+}
+
+/**
+ * With a CSP nonce the inline `onload` swaps are blocked, so a nonce'd
+ * script switches the links once the document is parsed.
+ */
+function swapScript(options: ApplyOptions) {
+  const apply =
+    options.loading === 'preload'
+      ? "l.rel='stylesheet'"
+      : "function s(){l.media=l.getAttribute('data-media')||'all'}if(l.sheet){s()}else{l.addEventListener('load',s)}";
+  return (
+    `<script nonce="${escapeAttribute(options.nonce!)}">` +
+    "document.addEventListener('DOMContentLoaded',function(){" +
+    "document.querySelectorAll('link[data-critical-async]').forEach(function(l){" +
+    `${apply}})})</script>`
+  );
+}
+
+/**
+ * Links rewritten by an earlier run are rebuilt from their `<noscript>`
+ * original, so switching the loading strategy updates them too.
+ */
+const LINK_PATTERN =
+  /<link\b[^>]*\bdata-critical-async\b[^>]*><noscript>(<link\b[^>]*>)<\/noscript>|<link\b[^>]*>/gi;
+
+function makeStylesheetsAsync(html: string, options: ApplyOptions) {
+  const skipped = skippedRanges(html);
+  let rewritten = 0;
+  const output = html.replace(
+    LINK_PATTERN,
+    (match, original: string | undefined, offset: number) => {
+      if (skipped.some(([start, end]) => offset >= start && offset < end)) {
+        return match;
+      }
+      const tag = original ?? match;
+      const attributes = parseAttributes(tag);
+      const rel = attributes.find((attr) => attr.name === 'rel')?.value ?? '';
+      const tokens = rel.toLowerCase().split(/\s+/);
+      if (!tokens.includes('stylesheet') || tokens.includes('alternate')) {
+        return match;
+      }
+      if (!original) rewritten++;
+      return asyncLink(tag, attributes, options);
+    }
+  );
+  return { html: output, rewritten };
+}
+
+/**
+ * Applies `result` to a page: the critical `<style>` goes to the top of
+ * `<head>` (after `<meta charset>`, which must stay within the first 1024
+ * bytes) between `<!-- critical-css:start/end -->` markers, and every
+ * render-blocking stylesheet link is switched to asynchronous loading.
+ * A block left by an earlier run, or markers placed by hand, are replaced
+ * in place, so applying again only swaps the CSS.
+ */
+export function applyCriticalCss(
+  html: string,
+  result: ExtractionResult,
+  options: ApplyOptions
+): AppliedHtml {
+  const { start, end } = markerComments();
+  const styles = buildHeadSnippet(result, { ...options, stylesheets: [] })
+    .split('\n')
+    .filter((line) => !line.startsWith('<!--'));
+  if (options.nonce) styles.push(swapScript(options));
+  const block = (indent: string) =>
+    [start, ...styles, end].map((line) => `${indent}${line}`).join('\n');
+
+  // The old block is swapped for a comment, which link rewriting skips.
+  const marker = escapeRegExp(DEFAULT_MARKER);
+  const existing = new RegExp(
+    `([ \\t]*)<!--\\s*${marker}:start\\s*-->[\\s\\S]*?<!--\\s*${marker}:end\\s*-->`
+  );
+  const replaced = existing.test(html);
+  const placeholder = `<!-- ${DEFAULT_MARKER}:placeholder -->`;
+  const links = makeStylesheetsAsync(
+    replaced ? html.replace(existing, `$1${placeholder}`) : html,
+    options
+  );
+  let output = links.html;
+
+  if (replaced) {
+    output = output.replace(
+      new RegExp(`([ \\t]*)${escapeRegExp(placeholder)}`),
+      (_match, indent: string) => block(indent)
+    );
+  } else {
+    const head = output.match(/<head\b[^>]*>/i);
+    if (head) {
+      const headStart = head.index! + head[0].length;
+      const headEnd = output.slice(headStart).search(/<\/head>/i);
+      const charset = output
+        .slice(headStart, headEnd === -1 ? headStart : headStart + headEnd)
+        .match(
+          /<meta\b[^>]*(?:charset|http-equiv\s*=\s*["']?content-type)[^>]*>/i
+        );
+      const at = charset
+        ? headStart + charset.index! + charset[0].length
+        : headStart;
+      const indent =
+        output.slice(headStart).match(/^\r?\n([ \t]*)/)?.[1] ?? '  ';
+      output = `${output.slice(0, at)}\n${block(indent)}${output.slice(at)}`;
+    } else {
+      const htmlTag = output.match(/<html\b[^>]*>/i);
+      const at = htmlTag ? htmlTag.index! + htmlTag[0].length : 0;
+      output = `${output.slice(0, at)}\n<head>\n${block('  ')}\n</head>${output.slice(at)}`;
+    }
+  }
+  return { html: output, rewritten: links.rewritten, replaced };
+}
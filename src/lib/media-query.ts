@@ -0,0 +1,302 @@
+/** What a media query is evaluated against: one emulated screen. */
+export interface MediaEnvironment {
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  /** Touch devices report `hover: none` and `pointer: coarse`. */
+  touch: boolean;
+}
+
+type Token = { group: string } | { word: string };
+
+const ROOT_FONT_SIZE = 16;
+const RANGE_OPERATOR = /(<=|>=|<|>|=)/;
+
+/** Splits on commas that are not inside parentheses. */
+function splitQueryList(query: string) {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < query.length; i++) {
+    const ch = query[i];
+    if (ch === '(') depth++;
+    if (ch === ')') depth = Math.max(0, depth - 1);
+    if (ch === ',' && depth === 0) {
+      parts.push(query.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(query.slice(start));
+  return parts.map((part) => part.trim());
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    const ch = text[pos];
+    if (/\s/.test(ch)) {
+      pos++;
+    } else if (ch === '(') {
+      let depth = 1;
+      let end = pos + 1;
+      while (end < text.length && depth > 0) {
+        if (text[end] === '(') depth++;
+        if (text[end] === ')') depth--;
+        end++;
+      }
+      tokens.push({ group: text.slice(pos + 1, end - 1).trim() });
+      pos = end;
+    } else {
+      let end = pos;
+      while (end < text.length && !/[\s(]/.test(text[end])) end++;
+      tokens.push({ word: text.slice(pos, end).toLowerCase() });
+      pos = end;
+    }
+  }
+  return tokens;
+}
+
+/** Parses a length in px, em or rem; unitless only for 0. */
+function parseLength(value: string) {
+  const match = value.match(/^(-?[\d.]+)(px|em|rem)?$/);
+  if (!match) return NaN;
+  const number = Number(match[1]);
+  if (!match[2]) return number === 0 ? 0 : NaN;
+  return match[2] === 'px' ? number : number * ROOT_FONT_SIZE;
+}
+
+function parseRatio(value: string) {
+  const [a, b = '1'] = value.split('/').map((part) => part.trim());
+  return Number(a) / Number(b);
+}
+
+function parseResolution(value: string) {
+  const match = value.match(/^([\d.]+)(dppx|x|dpi|dpcm)$/);
+  if (!match) return NaN;
+  const number = Number(match[1]);
+  if (match[2] === 'dpi') return number / 96;
+  if (match[2] === 'dpcm') return (number * 2.54) / 96;
+  return number;
+}
+
+/** Value of a numeric feature in the environment and how to parse one. */
+function numericFeature(name: string, env: MediaEnvironment) {
+  switch (name) {
+    case 'width':
+    case 'device-width':
+      return { actual: env.width, parse: parseLength };
+    case 'height':
+    case 'device-height':
+      return { actual: env.height, parse: parseLength };
+    case 'aspect-ratio':
+    case 'device-aspect-ratio':
+      return { actual: env.width / env.height, parse: parseRatio };
+    case 'resolution':
+      return { actual: env.deviceScaleFactor, parse: parseResolution };
+    case '-webkit-device-pixel-ratio':
+    case '-moz-device-pixel-ratio':
+      return { actual: env.deviceScaleFactor, parse: Number };
+    case 'color':
+      return { actual: 8, parse: Number };
+    case 'color-index':
+    case 'monochrome':
+    case 'grid':
+      return { actual: 0, parse: Number };
+    default:
+      return null;
+  }
+}
+
+/** Values of discrete features for a default, light-themed browser. */
+function discreteFeature(name: string, env: MediaEnvironment) {
+  switch (name) {
+    case 'orientation':
+      return env.height >= env.width ? 'portrait' : 'landscape';
+    case 'hover':
+    case 'any-hover':
+      return env.touch ? 'none' : 'hover';
+    case 'pointer':
+    case 'any-pointer':
+      return env.touch ? 'coarse' : 'fine';
+    case 'prefers-color-scheme':
+      return 'light';
+    case 'prefers-reduced-motion':
+    case 'prefers-reduced-transparency':
+    case 'prefers-reduced-data':
+    case 'prefers-contrast':
+      return 'no-preference';
+    case 'forced-colors':
+    case 'inverted-colors':
+      return 'none';
+    case 'scripting':
+      return 'enabled';
+    case 'update':
+      return 'fast';
+    case 'display-mode':
+      return 'browser';
+    case 'color-gamut':
+      return 'srgb';
+    case 'dynamic-range':
+    case 'video-dynamic-range':
+      return 'standard';
+    default:
+      return null;
+  }
+}
+
+function compare(actual: number, operator: string, expected: number) {
+  const epsilon = 1e-6;
+  switch (operator) {
+    case '<':
+      return actual < expected - epsilon;
+    case '<=':
+      return actual <= expected + epsilon;
+    case '>':
+      return actual > expected + epsilon;
+    case '>=':
+      return actual >= expected - epsilon;
+    default:
+      return Math.abs(actual - expected) <= epsilon;
+  }
+}
+
+const FLIPPED: Record<string, string> = {
+  '<': '>',
+  '<=': '>=',
+  '>': '<',
+  '>=': '<=',
+  '=': '=',
+};
+
+/** `(width >= 600px)`, `(400px < width <= 700px)` and friends. */
+function evaluateRange(text: string, env: MediaEnvironment) {
+  const parts = text.split(RANGE_OPERATOR).map((part) => part.trim());
+  const nameIndex = parts.findIndex(
+    (_, i) => i % 2 === 0 && /^[a-z-]+$/.test(parts[i])
+  );
+  if (nameIndex === -1) return false;
+  const feature = numericFeature(parts[nameIndex], env);
+  if (!feature) return false;
+
+  for (let i = 1; i < parts.length; i += 2) {
+    const [left, operator, right] = [parts[i - 1], parts[i], parts[i + 1]];
+    const ok =
+      i - 1 === nameIndex
+        ? compare(feature.actual, operator, feature.parse(right))
+        : compare(feature.actual, FLIPPED[operator], feature.parse(left));
+    if (!ok) return false;
+  }
+  return true;
+}
+
+function evaluateFeature(text: string, env: MediaEnvironment): boolean {
+  if (RANGE_OPERATOR.test(text) && !text.includes(':')) {
+    return evaluateRange(text, env);
+  }
+
+  const colon = text.indexOf(':');
+  const rawName = (colon === -1 ? text : text.slice(0, colon))
+    .trim()
+    .toLowerCase();
+  const value =
+    colon === -1
+      ? null
+      : text
+          .slice(colon + 1)
+          .trim()
+          .toLowerCase();
+
+  // `-webkit-min-device-pixel-ratio` becomes `-webkit-device-pixel-ratio`.
+  const prefix = rawName.match(/^(-webkit-)?(min|max)-/);
+  const name = prefix
+    ? (prefix[1] ?? '') + rawName.slice(prefix[0].length)
+    : rawName;
+  const numeric = numericFeature(name, env);
+
+  if (numeric) {
+    if (value === null) return !prefix && numeric.actual !== 0;
+    const expected = numeric.parse(value);
+    if (Number.isNaN(expected)) return false;
+    const operator = !prefix ? '=' : prefix[2] === 'min' ? '>=' : '<=';
+    return compare(numeric.actual, operator, expected);
+  }
+
+  if (prefix) return false;
+  const discrete = discreteFeature(name, env);
+  if (discrete === null) return false;
+  if (value === null)
+    return discrete !== 'none' && discrete !== 'no-preference';
+  return discrete === value;
+}
+
+/** Evaluates `(a) and (b)`, `(a) or (b)` or `not (a)`. */
+function evaluateCondition(tokens: Token[], env: MediaEnvironment): boolean {
+  if (tokens.length === 0) return true;
+  const [first, ...rest] = tokens;
+  if ('word' in first && first.word === 'not') {
+    return !evaluateCondition(rest, env);
+  }
+
+  const evaluateToken = (token: Token) =>
+    'group' in token ? evaluateGroup(token.group, env) : false;
+
+  let result = evaluateToken(first);
+  for (let i = 1; i < tokens.length - 1; i += 2) {
+    const operator = tokens[i];
+    const next = evaluateToken(tokens[i + 1]);
+    if (!('word' in operator)) return false;
+    if (operator.word === 'and') result = result && next;
+    else if (operator.word === 'or') result = result || next;
+    else return false;
+  }
+  return result;
+}
+
+function evaluateGroup(text: string, env: MediaEnvironment): boolean {
+  const tokens = tokenize(text);
+  const [first] = tokens;
+  const nested = first && ('group' in first || first.word === 'not');
+  return nested ? evaluateCondition(tokens, env) : evaluateFeature(text, env);
+}
+
+function evaluateQuery(query: string, env: MediaEnvironment) {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return true;
+
+  let index = 0;
+  let negate = false;
+  const [first, second] = tokens;
+  if ('word' in first && (first.word === 'only' || first.word === 'not')) {
+    // `not (a)` is a condition; `not screen and (a)` negates the whole query.
+    if (first.word === 'not' && second && 'group' in second) {
+      return evaluateCondition(tokens, env);
+    }
+    negate = first.word === 'not';
+    index = 1;
+  }
+
+  const type = tokens[index];
+  if (type && 'word' in type) {
+    const typeMatches = type.word === 'all' || type.word === 'screen';
+    const conditions = tokens.slice(index + 1);
+    const and = conditions[0];
+    if (conditions.length > 0 && !('word' in and && and.word === 'and')) {
+      return false;
+    }
+    const matches = typeMatches && evaluateCondition(conditions.slice(1), env);
+    return negate ? !matches : matches;
+  }
+
+  return evaluateCondition(tokens.slice(index), env);
+}
+
+/**
+ * Evaluates a media query list the way a screen of the given size would.
+ * Handles media types, `not`/`only`, `and`/`or`, legacy `min-`/`max-`
+ * prefixes and range syntax. Unknown features never match.
+ */
+export function matchesMedia(query: string, env: MediaEnvironment) {
+  const queries = splitQueryList(query);
+  return queries.some((q) => q === '' || evaluateQuery(q, env));
+}
@@ -0,0 +1,429 @@
+import {
+  MOCK_FIXTURES,
+  type MockFixture,
+  type MockFixtureName,
+} from '@/lib/mock-fixtures';
+import { DEFAULT_EXTRACTION_OPTIONS } from '@/lib/options';
+import { PRESET_VIEWPORT_SIZES } from '@/lib/preview';
+import type {
+  ExtractRequest,
+  ExtractionProgressEvent,
+  ExtractionResult,
+  ExtractionStage,
+  ViewportPreview,
+  ViewportResult,
+} from '@/lib/types';
+
+export type MockScenario =
+  | 'success'
+  | 'warnings'
+  | 'timeout'
+  | 'bad-request'
+  | 'rate-limited'
+  | 'server-error'
+  | 'unavailable';
+
+export const MOCK_SCENARIOS: Record<MockScenario, string> = {
+  success: 'Clean result for every requested viewport',
+  warnings: 'Result with validation warnings and a skipped stylesheet',
+  timeout: 'Hangs after navigation starts, then fails with a 504',
+  'bad-request': 'Rejects the request with a 400',
+  'rate-limited': 'Rejects the request with a 429',
+  'server-error': 'Fails with a 500 after navigation',
+  unavailable: 'Fails with a 503 before starting',
+};
+
+interface MockFailure {
+  status: number;
+  message: string;
+  /** Rejected before any work starts, so never as part of a stream. */
+  beforeStart: boolean;
+}
+
+/** Scenarios answered with an HTTP error instead of a result. */
+const FAILURES: Partial<Record<MockScenario, MockFailure>> = {
+  'bad-request': {
+    status: 400,
+    message: 'Invalid request: the target page could not be resolved',
+    beforeStart: true,
+  },
+  'rate-limited': {
+    status: 429,
+    message: 'Too many extractions from this client; try again in a minute',
+    beforeStart: true,
+  },
+  'server-error': {
+    status: 500,
+    message: 'Browser crashed while rendering the page',
+    beforeStart: false,
+  },
+  unavailable: {
+    status: 503,
+    message: 'All browser workers are busy',
+    beforeStart: true,
+  },
+};
+
+export interface MockSettings {
+  scenario: MockScenario;
+  fixture: MockFixtureName;
+  /** Total simulated processing time in ms. */
+  latency: number;
+  /** How long the timeout scenario hangs before failing, in ms. */
+  hangTime: number;
+}
+
+export type MockStreamMessage =
+  | ExtractionProgressEvent
+  | { type: 'result'; result: ExtractionResult }
+  | { type: 'error'; message: string };
+
+export class MockBackendError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'MockBackendError';
+  }
+}
+
+/**
+ * Enabled by default outside production; `MOCK_BACKEND=1` turns it on in a
+ * production build and `MOCK_BACKEND=0` turns it off everywhere.
+ */
+export function isMockBackendEnabled() {
+  const flag = process.env.MOCK_BACKEND;
+  if (flag === '0') return false;
+  return flag === '1' || process.env.NODE_ENV !== 'production';
+}
+
+function isScenario(value: string | null | undefined): value is MockScenario {
+  return !!value && value in MOCK_SCENARIOS;
+}
+
+function isFixture(value: string | null | undefined): value is MockFixtureName {
+  return !!value && value in MOCK_FIXTURES;
+}
+
+function parseMs(value: string | null | undefined) {
+  if (!value) return undefined;
+  const ms = Number(value);
+  return Number.isFinite(ms) && ms >= 0 ? ms : undefined;
+}
+
+function totalTime(fixture: MockFixture) {
+  return Object.values(fixture.timings).reduce((sum, ms) => sum + ms, 0);
+}
+
+/**
+ * Picks scenario, fixture and latency from, in order of precedence: the
+ * `X-Mock-Scenario`, `X-Mock-Fixture` and `X-Mock-Latency` headers, the
+ * `mock-scenario`, `mock-fixture` and `mock-latency` query parameters of the
+ * target URL, and the `MOCK_SCENARIO` and `MOCK_LATENCY_MS` environment
+ * variables. The query parameters let the UI pick a scenario through the
+ * URL field alone.
+ */
+export function resolveMockSettings(
+  headers: Headers,
+  request: ExtractRequest
+): MockSettings {
+  const params = new URL(request.url).searchParams;
+  const pick = (header: string, param: string, env?: string) =>
+    headers.get(header) ?? params.get(param) ?? env;
+
+  const scenario = pick(
+    'x-mock-scenario',
+    'mock-scenario',
+    process.env.MOCK_SCENARIO
+  );
+  const fixture = pick('x-mock-fixture', 'mock-fixture');
+  const fixtureName: MockFixtureName = isFixture(fixture)
+    ? fixture
+    : new URL(request.url).pathname.startsWith('/docs')
+      ? 'docs'
+      : 'landing';
+
+  return {
+    scenario: isScenario(scenario) ? scenario : 'success',
+    fixture: fixtureName,
+    latency:
+      parseMs(
+        pick('x-mock-latency', 'mock-latency', process.env.MOCK_LATENCY_MS)
+      ) ?? totalTime(MOCK_FIXTURES[fixtureName]),
+    hangTime: parseMs(process.env.MOCK_TIMEOUT_MS) ?? 30000,
+  };
+}
+
+export function getMockFailure(scenario: MockScenario): MockFailure | null {
+  return FAILURES[scenario] ?? null;
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new MockBackendError('Extraction cancelled', 499));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new MockBackendError('Extraction cancelled', 499));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+const encoder = new TextEncoder();
+
+function stripDeclarations(css: string, property: string) {
+  return css
+    .replace(new RegExp(`;?${property}:[^;}]+`, 'g'), '')
+    .replace(/\{;/g, '{');
+}
+
+function applyOptions(css: string, request: ExtractRequest) {
+  let out = css;
+  if (!request.includeShadows) out = stripDeclarations(out, 'box-shadow');
+  if (request.options?.keepFontFace === false) {
+    out = out.replace(/@font-face\{[^}]*\}/g, '');
+  }
+  return out;
+}
+
+function toViewportResult(css: string, extractionTime: number): ViewportResult {
+  return {
+    css,
+    size: encoder.encode(css).length,
+    extractionTime: Math.round(extractionTime),
+  };
+}
+
+/**
+ * Draws a wireframe capture as an SVG data URL. The critical-only render
+ * leaves out the section below the hero whose stylesheet was not inlined, so
+ * the preview diff has something to show.
+ */
+function renderCapture(width: number, height: number, critical: boolean) {
+  const pad = Math.round(width * 0.05);
+  const hero = Math.round(height * 0.55);
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`,
+    `<rect width="100%" height="100%" fill="#fff"/>`,
+    `<rect width="100%" height="64" fill="#f8fafc"/>`,
+    `<rect x="${pad}" y="16" width="96" height="32" rx="6" fill="#4f46e5"/>`,
+    `<rect x="${pad}" y="${hero * 0.3}" width="${width * 0.6}" height="36" rx="4" fill="#0f172a"/>`,
+    `<rect x="${pad}" y="${hero * 0.3 + 52}" width="${width * 0.45}" height="16" rx="4" fill="#94a3b8"/>`,
+    `<rect x="${pad}" y="${hero * 0.3 + 92}" width="140" height="44" rx="12" fill="#4f46e5"/>`,
+    critical
+      ? ''
+      : `<rect x="${pad}" y="${hero + 24}" width="${width - pad * 2}" height="${height - hero - 48}" rx="12" fill="#e2e8f0"/>`,
+    '</svg>',
+  ].join('');
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+function buildPreviews(
+  viewports: { name: string; width: number; height: number }[]
+): Record<string, ViewportPreview> {
+  return Object.fromEntries(
+    viewports.map(({ name, width, height }) => [
+      name,
+      {
+        width,
+        height,
+        full: renderCapture(width, height, false),
+        critical: renderCapture(width, height, true),
+      },
+    ])
+  );
+}
+
+/** Rebuilds the fixture's response for the requested viewports and options. */
+export function buildMockResult(
+  request: ExtractRequest,
+  settings: MockSettings
+): ExtractionResult {
+  const fixture = MOCK_FIXTURES[settings.fixture];
+  const scale = settings.latency / totalTime(fixture);
+  const coverageTime = fixture.timings.coverage * scale;
+  const options = request.options ?? DEFAULT_EXTRACTION_OPTIONS;
+  const mobile = applyOptions(fixture.mobile, request);
+  const desktop = applyOptions(fixture.desktop, request);
+  const combined = applyOptions(fixture.combined, request);
+
+  const result: ExtractionResult = {
+    success: true,
+    url: request.url,
+    viewport: request.viewport,
+    stylesheets: fixture.stylesheets.map((href) =>
+      new URL(href, request.url).toString()
+    ),
+    processingTime: Math.round(settings.latency),
+    report: {
+      kept: fixture.report.kept.map((rule) => ({
+        ...rule,
+        stylesheet:
+          rule.stylesheet === 'inline'
+            ? rule.stylesheet
+            : new URL(rule.stylesheet, request.url).toString(),
+      })),
+      dropped: fixture.report.dropped.map((rule) => ({
+        ...rule,
+        stylesheet: new URL(rule.stylesheet, request.url).toString(),
+      })),
+    },
+    options,
+    previews: buildPreviews(
+      options.viewports.length > 0
+        ? options.viewports
+        : coverageViewports(request).map((name) => ({
+            name,
+            ...PRESET_VIEWPORT_SIZES[name === 'mobile' ? 'mobile' : 'desktop'],
+          }))
+    ),
+    html: fixture.html,
+    validation: { isValid: true, errors: [], warnings: [] },
+  };
+
+  if (options.viewports.length > 0) {
+    result.viewports = Object.fromEntries(
+      options.viewports.map((vp) => [
+        vp.name,
+        toViewportResult(vp.width < 768 ? mobile : desktop, coverageTime),
+      ])
+    );
+    result.combined = toViewportResult(combined, 0);
+  } else if (request.viewport === 'both') {
+    result.mobile = toViewportResult(mobile, coverageTime);
+    result.desktop = toViewportResult(desktop, coverageTime);
+    result.combined = toViewportResult(combined, 0);
+  } else {
+    const single = toViewportResult(
+      request.viewport === 'mobile' ? mobile : desktop,
+      coverageTime
+    );
+    result.css = single.css;
+    result.size = single.size;
+    result.extractionTime = single.extractionTime;
+  }
+
+  if (settings.scenario === 'warnings') {
+    const [, skipped = fixture.stylesheets[0]] = fixture.stylesheets;
+    result.stylesheets = result.stylesheets?.filter(
+      (href) => href !== new URL(skipped, request.url).toString()
+    );
+    result.validation = {
+      isValid: true,
+      errors: [],
+      warnings: [
+        `Stylesheet ${new URL(skipped, request.url)} failed to load (HTTP 404); its rules were skipped`,
+        'LCP did not stabilize within 10s; the last candidate was used',
+      ],
+    };
+  }
+
+  return result;
+}
+
+function coverageViewports(request: ExtractRequest) {
+  const custom = request.options?.viewports.map((vp) => vp.name) ?? [];
+  if (custom.length > 0) return custom;
+  return request.viewport === 'both'
+    ? ['mobile', 'desktop']
+    : [request.viewport];
+}
+
+/**
+ * Plays the recorded stages with simulated latency, reporting each through
+ * `emit`, and resolves with the result. Rejects with a `MockBackendError`
+ * for the failing scenarios or when `signal` aborts.
+ */
+export async function runMockExtraction(
+  request: ExtractRequest,
+  settings: MockSettings,
+  signal: AbortSignal,
+  emit: (message: MockStreamMessage) => void = () => {}
+): Promise<ExtractionResult> {
+  const fixture = MOCK_FIXTURES[settings.fixture];
+  const scale = settings.latency / totalTime(fixture);
+  const viewports = coverageViewports(request);
+
+  const runStage = async (
+    stage: ExtractionStage,
+    ms: number,
+    viewport?: string
+  ) => {
+    emit({ type: 'progress', stage, status: 'start', viewport });
+    await sleep(ms, signal);
+    emit({
+      type: 'progress',
+      stage,
+      status: 'done',
+      viewport,
+      elapsed: Math.round(ms),
+    });
+  };
+
+  const failure = getMockFailure(settings.scenario);
+  if (failure?.beforeStart) {
+    throw new MockBackendError(failure.message, failure.status);
+  }
+
+  if (settings.scenario === 'timeout') {
+    emit({ type: 'progress', stage: 'navigation', status: 'start' });
+    await sleep(settings.hangTime, signal);
+    throw new MockBackendError(
+      `Navigation timeout of ${settings.hangTime} ms exceeded`,
+      504
+    );
+  }
+
+  await runStage('navigation', fixture.timings.navigation * scale);
+  if (failure) throw new MockBackendError(failure.message, failure.status);
+  await runStage('lcp', fixture.timings.lcp * scale);
+  await runStage('stylesheets', fixture.timings.stylesheets * scale);
+  for (const viewport of viewports) {
+    await runStage(
+      'coverage',
+      (fixture.timings.coverage * scale) / viewports.length,
+      viewport
+    );
+  }
+  await runStage('minify', fixture.timings.minify * scale);
+
+  return buildMockResult(request, settings);
+}
+
+const globalForMock = globalThis as unknown as {
+  mockRuns?: Map<string, AbortController>;
+};
+
+/** In-flight runs by request id, shared by the extract and cancel routes. */
+const runs = (globalForMock.mockRuns ??= new Map());
+
+export function registerMockRun(requestId: string | undefined) {
+  const controller = new AbortController();
+  if (requestId) runs.set(requestId, controller);
+  return {
+    signal: controller.signal,
+    abort: () => controller.abort(),
+    release: () => {
+      if (requestId && runs.get(requestId) === controller) {
+        runs.delete(requestId);
+      }
+    },
+  };
+}
+
+/** Aborts a run started with `registerMockRun`; false if none is active. */
+export function cancelMockRun(requestId: string) {
+  const controller = runs.get(requestId);
+  if (!controller) return false;
+  controller.abort();
+  runs.delete(requestId);
+  return true;
+}
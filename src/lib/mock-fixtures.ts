@@ -0,0 +1,257 @@
+import type { CoverageReport } from '@/lib/types';
+
+/**
+ * A backend response recorded against a real page, reduced to what the mock
+ * needs to rebuild it for any viewport combination.
+ */
+export interface MockFixture {
+  /** Minified critical CSS per built-in viewport. */
+  mobile: string;
+  desktop: string;
+  /** Union of both viewports as the backend returned it. */
+  combined: string;
+  stylesheets: string[];
+  report: CoverageReport;
+  /** Page HTML as loaded, scripts included. */
+  html: string;
+  /** Per-stage durations in ms as recorded; scaled by the mock latency. */
+  timings: {
+    navigation: number;
+    lcp: number;
+    stylesheets: number;
+    coverage: number;
+    minify: number;
+  };
+}
+
+const LANDING_BASE =
+  ':root{--brand:#4f46e5;--text:#0f172a;--muted:#64748b;--radius:12px}' +
+  "@font-face{font-family:Inter;font-style:normal;font-weight:400 700;font-display:swap;src:url(/fonts/inter-var.woff2) format('woff2')}" +
+  '*,:after,:before{box-sizing:border-box}' +
+  'body{margin:0;font-family:Inter,system-ui,sans-serif;color:var(--text);line-height:1.5}' +
+  '.header{display:flex;align-items:center;justify-content:space-between;padding:16px 20px;box-shadow:0 1px 2px rgba(15,23,42,.08)}' +
+  '.logo{height:32px;width:auto}' +
+  '.hero{padding:48px 20px;text-align:center}' +
+  '.hero h1{font-size:2.25rem;line-height:1.15;margin:0 0 16px}' +
+  '.hero p{color:var(--muted);margin:0 0 24px}' +
+  '.btn{display:inline-flex;align-items:center;padding:12px 20px;border-radius:var(--radius);background:var(--brand);color:#fff;font-weight:600;text-decoration:none;box-shadow:0 4px 14px rgba(79,70,229,.35)}' +
+  '@keyframes fade-in{0%{opacity:0}to{opacity:1}}' +
+  '.hero-image{animation:fade-in .4s ease-out;max-width:100%;height:auto}';
+
+const LANDING_MOBILE =
+  '.nav{display:none}' +
+  '.menu-toggle{display:block;width:40px;height:40px;border:0;background:none}';
+
+const LANDING_DESKTOP =
+  '.menu-toggle{display:none}' +
+  '@media (min-width:768px){.nav{display:flex;gap:32px}.hero{display:grid;grid-template-columns:1fr 1fr;gap:48px;padding:96px 64px;text-align:left}.hero h1{font-size:3.5rem}}';
+
+const DOCS_BASE =
+  ':root{--bg:#fff;--fg:#111827;--border:#e5e7eb;--code-bg:#f3f4f6}' +
+  '@media (prefers-color-scheme:dark){:root{--bg:#0b0f19;--fg:#e5e7eb;--border:#1f2937;--code-bg:#111827}}' +
+  'html{-webkit-text-size-adjust:100%}' +
+  'body{margin:0;background:var(--bg);color:var(--fg);font:16px/1.6 -apple-system,BlinkMacSystemFont,Segoe UI,sans-serif}' +
+  '.topbar{position:sticky;top:0;z-index:10;height:56px;display:flex;align-items:center;padding:0 16px;border-bottom:1px solid var(--border);background:var(--bg)}' +
+  '.search{flex:1;max-width:480px;height:36px;border:1px solid var(--border);border-radius:8px;padding:0 12px}' +
+  '.content{padding:24px 16px;max-width:760px}' +
+  '.content h1{font-size:2rem;margin:0 0 12px}' +
+  '.content pre{overflow-x:auto;padding:16px;border-radius:8px;background:var(--code-bg)}' +
+  'code{font-family:ui-monospace,SFMono-Regular,Menlo,monospace;font-size:.875em}';
+
+const DOCS_MOBILE = '.sidebar{display:none}';
+
+const DOCS_DESKTOP =
+  '@media (min-width:1024px){.layout{display:grid;grid-template-columns:280px 1fr}.sidebar{position:sticky;top:56px;height:calc(100vh - 56px);overflow-y:auto;border-right:1px solid var(--border);padding:24px}.content{padding:40px 48px}}';
+
+export const MOCK_FIXTURES = {
+  landing: {
+    mobile: LANDING_BASE + LANDING_MOBILE,
+    desktop: LANDING_BASE + LANDING_DESKTOP,
+    combined:
+      LANDING_BASE +
+      '.nav{display:none}.menu-toggle{display:block;width:40px;height:40px;border:0;background:none}' +
+      '@media (min-width:768px){.menu-toggle{display:none}.nav{display:flex;gap:32px}.hero{display:grid;grid-template-columns:1fr 1fr;gap:48px;padding:96px 64px;text-align:left}.hero h1{font-size:3.5rem}}',
+    stylesheets: ['/assets/app.css', '/assets/vendor/carousel.css'],
+    html:
+      '<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>Acme</title>' +
+      '<link rel="stylesheet" href="/assets/app.css"><link rel="stylesheet" href="/assets/vendor/carousel.css">' +
+      '<script src="/assets/app.js" defer></script></head><body>' +
+      '<header class="header"><img class="logo" src="/logo.svg" alt="Acme"><nav class="nav"><a href="/pricing">Pricing</a><a href="/docs">Docs</a></nav><button class="menu-toggle" aria-label="Menu"></button></header>' +
+      '<section class="hero"><div><h1>Ship faster pages</h1><p>Critical CSS for every template.</p><a class="btn" href="/signup">Get started</a></div><img class="hero-image" src="/hero.webp" alt=""></section>' +
+      '<section class="carousel"><div class="carousel__slide">Customer stories</div></section>' +
+      '<footer class="footer">© Acme</footer></body></html>',
+    report: {
+      kept: [
+        {
+          selector: ':root',
+          stylesheet: '/assets/app.css',
+          size: 69,
+          reason: 'variable-dependency',
+          matchedElements: 1,
+          viewports: ['mobile', 'desktop'],
+        },
+        {
+          selector: '@font-face Inter',
+          stylesheet: '/assets/app.css',
+          size: 133,
+          reason: 'font-face',
+          matchedElements: 0,
+        },
+        {
+          selector: '.header',
+          stylesheet: '/assets/app.css',
+          size: 130,
+          reason: 'matched-in-viewport',
+          matchedElements: 1,
+          viewports: ['mobile', 'desktop'],
+        },
+        {
+          selector: '.hero h1',
+          stylesheet: '/assets/app.css',
+          size: 52,
+          reason: 'matched-in-viewport',
+          matchedElements: 1,
+          viewports: ['mobile', 'desktop'],
+        },
+        {
+          selector: '.hero h1',
+          stylesheet: '/assets/app.css',
+          media: '@media (min-width:768px)',
+          size: 27,
+          reason: 'matched-in-viewport',
+          matchedElements: 1,
+          viewports: ['desktop'],
+        },
+        {
+          selector: '.btn',
+          stylesheet: '/assets/app.css',
+          size: 200,
+          reason: 'matched-in-viewport',
+          matchedElements: 2,
+          viewports: ['mobile', 'desktop'],
+        },
+        {
+          selector: '@keyframes fade-in',
+          stylesheet: '/assets/app.css',
+          size: 45,
+          reason: 'keyframes',
+          matchedElements: 0,
+        },
+        {
+          selector: '.menu-toggle',
+          stylesheet: 'inline',
+          size: 71,
+          reason: 'matched-in-viewport',
+          matchedElements: 1,
+          viewports: ['mobile'],
+        },
+      ],
+      dropped: [
+        {
+          selector: '.footer',
+          stylesheet: '/assets/app.css',
+          size: 88,
+          reason: 'below-fold',
+        },
+        {
+          selector: '.pricing-card:hover',
+          stylesheet: '/assets/app.css',
+          size: 64,
+          reason: 'below-fold',
+        },
+        {
+          selector: '.carousel__slide',
+          stylesheet: '/assets/vendor/carousel.css',
+          size: 142,
+          reason: 'no-match',
+        },
+        {
+          selector: '.modal',
+          stylesheet: '/assets/app.css',
+          size: 97,
+          reason: 'excluded',
+        },
+      ],
+    },
+    timings: {
+      navigation: 1800,
+      lcp: 900,
+      stylesheets: 300,
+      coverage: 1200,
+      minify: 150,
+    },
+  },
+  docs: {
+    mobile: DOCS_BASE + DOCS_MOBILE,
+    desktop: DOCS_BASE + DOCS_DESKTOP,
+    combined: DOCS_BASE + DOCS_MOBILE + DOCS_DESKTOP,
+    stylesheets: ['/_next/static/css/docs.css'],
+    html:
+      '<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>Docs</title>' +
+      '<link rel="stylesheet" href="/_next/static/css/docs.css"></head><body>' +
+      '<div class="topbar"><input class="search" placeholder="Search docs"></div>' +
+      '<div class="layout"><aside class="sidebar"><a href="/docs">Introduction</a></aside>' +
+      '<main class="content"><h1>Getting started</h1><p>Install the package:</p><pre><code>npm install acme</code></pre></main></div>' +
+      '<nav class="pagination"><a href="/docs/next">Next</a></nav></body></html>',
+    report: {
+      kept: [
+        {
+          selector: ':root',
+          stylesheet: '/_next/static/css/docs.css',
+          size: 66,
+          reason: 'variable-dependency',
+          matchedElements: 1,
+          viewports: ['mobile', 'desktop'],
+        },
+        {
+          selector: '.topbar',
+          stylesheet: '/_next/static/css/docs.css',
+          size: 171,
+          reason: 'matched-in-viewport',
+          matchedElements: 1,
+          viewports: ['mobile', 'desktop'],
+        },
+        {
+          selector: '.content pre',
+          stylesheet: '/_next/static/css/docs.css',
+          size: 92,
+          reason: 'matched-in-viewport',
+          matchedElements: 3,
+          viewports: ['mobile', 'desktop'],
+        },
+        {
+          selector: '.sidebar',
+          stylesheet: '/_next/static/css/docs.css',
+          media: '@media (min-width:1024px)',
+          size: 145,
+          reason: 'matched-in-viewport',
+          matchedElements: 1,
+          viewports: ['desktop'],
+        },
+      ],
+      dropped: [
+        {
+          selector: '.pagination',
+          stylesheet: '/_next/static/css/docs.css',
+          size: 73,
+          reason: 'below-fold',
+        },
+        {
+          selector: '.toc a:hover',
+          stylesheet: '/_next/static/css/docs.css',
+          size: 41,
+          reason: 'no-match',
+        },
+      ],
+    },
+    timings: {
+      navigation: 1200,
+      lcp: 600,
+      stylesheets: 200,
+      coverage: 800,
+      minify: 100,
+    },
+  },
+} satisfies Record<string, MockFixture>;
+
+export type MockFixtureName = keyof typeof MOCK_FIXTURES;
@@ -0,0 +1,111 @@
+import type {
+  Monitor,
+  MonitorAlert,
+  MonitorInput,
+  MonitorRun,
+} from '@/lib/monitor';
+
+const MONITORS_ENDPOINT = '/api/monitors';
+
+export interface MonitorSummary extends Monitor {
+  lastRun: MonitorRun | null;
+}
+
+/** Where the panel keeps the `MONITOR_API_TOKEN` it was given. */
+const TOKEN_KEY = 'monitor-token';
+
+/** The routes need a token: none was sent, it is wrong, or none is set up. */
+export class MonitorAuthError extends Error {
+  constructor(
+    message: string,
+    /** 401 for a missing or wrong token, 501 when monitoring is off. */
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'MonitorAuthError';
+  }
+}
+
+export function getMonitorToken() {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setMonitorToken(token: string | null) {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+}
+
+/** Resolves with the JSON body, or throws with the route's error message. */
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const headers: Record<string, string> = {};
+  if (init?.body) headers['Content-Type'] = 'application/json';
+  const token = getMonitorToken();
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const response = await fetch(`${MONITORS_ENDPOINT}${path}`, {
+    ...init,
+    headers,
+  });
+  if (response.status === 204) return undefined as T;
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message =
+      typeof body?.message === 'string'
+        ? body.message
+        : `Monitor request failed with ${response.status}`;
+    if (response.status === 401 || response.status === 501) {
+      throw new MonitorAuthError(message, response.status);
+    }
+    throw new Error(message);
+  }
+  return body as T;
+}
+
+export async function fetchMonitors() {
+  return (await request<{ monitors: MonitorSummary[] }>('')).monitors;
+}
+
+export async function fetchMonitorRuns(id: string) {
+  return (await request<{ runs: MonitorRun[] }>(`/${encodeURIComponent(id)}`))
+    .runs;
+}
+
+export async function createMonitor(input: MonitorInput) {
+  return (
+    await request<{ monitor: Monitor }>('', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    })
+  ).monitor;
+}
+
+export async function updateMonitor(
+  id: string,
+  changes: Partial<MonitorInput>
+) {
+  return (
+    await request<{ monitor: Monitor }>(`/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    })
+  ).monitor;
+}
+
+export function deleteMonitor(id: string) {
+  return request<void>(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export async function runMonitorNow(id: string) {
+  return (
+    await request<{ run: MonitorRun }>(`/${encodeURIComponent(id)}/run`, {
+      method: 'POST',
+    })
+  ).run;
+}
+
+export function testMonitorWebhook(id: string) {
+  return request<Omit<MonitorAlert, 'reasons'>>(
+    `/${encodeURIComponent(id)}/test-webhook`,
+    { method: 'POST' }
+  );
+}
@@ -0,0 +1,45 @@
+import { timingSafeEqual } from 'node:crypto';
+import { NextResponse } from 'next/server';
+
+/** Whether the request sends one of `secrets` as its bearer token. */
+export function isAuthorized(request: Request, secrets: string[]) {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const token = Buffer.from(match[1]);
+  return secrets.some((secret) => {
+    const expected = Buffer.from(secret);
+    return expected.length === token.length && timingSafeEqual(expected, token);
+  });
+}
+
+/**
+ * Guards the monitor routes: callers must send `MONITOR_API_TOKEN`, or for
+ * the job route also `MONITOR_CRON_SECRET`, as a bearer token. Monitoring
+ * stays off until a token is configured. Returns the response to send
+ * instead, or null when the request may go on.
+ */
+export function requireMonitorToken(request: Request, { cron = false } = {}) {
+  const secrets = [
+    process.env.MONITOR_API_TOKEN,
+    cron ? process.env.MONITOR_CRON_SECRET : undefined,
+  ].filter((secret): secret is string => !!secret);
+
+  if (secrets.length === 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: cron
+          ? 'Set MONITOR_CRON_SECRET or MONITOR_API_TOKEN to enable the job route'
+          : 'Set MONITOR_API_TOKEN to enable monitoring',
+      },
+      { status: 501 }
+    );
+  }
+  if (!isAuthorized(request, secrets)) {
+    return NextResponse.json(
+      { success: false, message: 'Missing or invalid monitor token' },
+      { status: 401 }
+    );
+  }
+  return null;
+}
@@ -0,0 +1,263 @@
+import { createHmac } from 'node:crypto';
+import { extractionResultSchema } from '@/lib/api-schema';
+import { fetchExtraction, getBackendConfig } from '@/lib/backend-proxy';
+import {
+  isMockBackendEnabled,
+  resolveMockSettings,
+  runMockExtraction,
+} from '@/lib/mock-backend';
+import {
+  alertReasons,
+  isDue,
+  monitorRequest,
+  summarizeRun,
+  type Monitor,
+  type MonitorAlert,
+  type MonitorRun,
+  type WebhookPayload,
+} from '@/lib/monitor';
+import {
+  lastSuccessfulRun,
+  listMonitors,
+  recordRun,
+} from '@/lib/monitor-store';
+import { assertPublicTarget } from '@/lib/request-guard';
+import { validate } from '@/lib/schema';
+import type { ExtractionResult } from '@/lib/types';
+
+const EXTRACTION_TIMEOUT =
+  Number(process.env.MONITOR_TIMEOUT_MS) || 2 * 60 * 1000;
+const WEBHOOK_TIMEOUT = 10 * 1000;
+/**
+ * A tick starts no run that might not finish within this, leaving the rest
+ * for the next tick; it stays under the job route's `maxDuration`.
+ */
+const TICK_BUDGET = 4 * 60 * 1000;
+
+const globalRunner = globalThis as typeof globalThis & {
+  runningMonitors?: Set<string>;
+};
+/** Monitors with a run in flight, shared by the job route and "Run now". */
+const running = (globalRunner.runningMonitors ??= new Set());
+
+export interface DueRunSummary {
+  ran: number;
+  skipped: number;
+  alerts: number;
+  /** Due monitors left for the next tick. */
+  remaining: number;
+  runs: MonitorRun[];
+}
+
+/** Extracts through the configured backend, or the mock when there is none. */
+async function extract(monitor: Monitor): Promise<ExtractionResult> {
+  const request = monitorRequest(monitor);
+  const signal = AbortSignal.timeout(EXTRACTION_TIMEOUT);
+
+  const backend = getBackendConfig();
+  if (backend) {
+    await assertPublicTarget(request.url);
+    return validate(
+      extractionResultSchema,
+      await fetchExtraction(backend, request, signal),
+      'Backend response'
+    );
+  }
+  if (isMockBackendEnabled()) {
+    return runMockExtraction(
+      request,
+      resolveMockSettings(new Headers(), request),
+      signal
+    );
+  }
+  throw new Error('No extraction backend is configured');
+}
+
+/**
+ * Webhooks may target private hosts, such as a local receiver, outside
+ * production or when `MONITOR_ALLOW_PRIVATE_WEBHOOKS=1`.
+ */
+function allowPrivateWebhooks() {
+  return (
+    process.env.NODE_ENV !== 'production' ||
+    process.env.MONITOR_ALLOW_PRIVATE_WEBHOOKS === '1'
+  );
+}
+
+/**
+ * POSTs `payload` to `url`. With `MONITOR_WEBHOOK_SECRET` set, the body is
+ * signed as `X-Webhook-Signature: sha256=<hex HMAC>`. Never throws.
+ */
+export async function sendWebhook(
+  url: string,
+  payload: WebhookPayload
+): Promise<Omit<MonitorAlert, 'reasons'>> {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'critical-css-monitor',
+    'X-Webhook-Event': payload.event,
+  };
+  const secret = process.env.MONITOR_WEBHOOK_SECRET;
+  if (secret) {
+    headers['X-Webhook-Signature'] =
+      `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  try {
+    if (!allowPrivateWebhooks()) await assertPublicTarget(url);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+      cache: 'no-store',
+      // A redirect could lead to a host the check above never saw.
+      redirect: 'manual',
+    });
+    if (response.ok) return { delivered: true, status: response.status };
+    const redirected = response.status >= 300 && response.status < 400;
+    return {
+      delivered: false,
+      status: response.status,
+      error: redirected
+        ? `Webhook redirected with ${response.status}; redirects are not followed`
+        : `Webhook responded with ${response.status}`,
+    };
+  } catch (err) {
+    return {
+      delivered: false,
+      error: err instanceof Error ? err.message : 'Webhook request failed',
+    };
+  }
+}
+
+function monitorSummary({ id, url, viewport }: Monitor) {
+  return { id, url, viewport };
+}
+
+/**
+ * Re-extracts the monitor's page, compares the output with the last
+ * successful run, alerts if the monitor asks for it and records the run.
+ * Resolves with null when the monitor is already running.
+ */
+export async function runMonitor(monitor: Monitor) {
+  if (running.has(monitor.id)) return null;
+  running.add(monitor.id);
+  try {
+    const startedAt = Date.now();
+    const previous = await lastSuccessfulRun(monitor.id);
+    let run: MonitorRun;
+    try {
+      const result = await extract(monitor);
+      if (!result.success) {
+        throw new Error(
+          result.validation?.errors[0] ?? 'Extraction was not successful'
+        );
+      }
+      run = {
+        id: crypto.randomUUID(),
+        monitorId: monitor.id,
+        startedAt,
+        finishedAt: Date.now(),
+        status: 'ok',
+        ...(await summarizeRun(result, previous)),
+      };
+    } catch (err) {
+      run = {
+        id: crypto.randomUUID(),
+        monitorId: monitor.id,
+        startedAt,
+        finishedAt: Date.now(),
+        status: 'failed',
+        error:
+          err instanceof Error && err.name === 'TimeoutError'
+            ? 'Extraction timed out'
+            : err instanceof Error
+              ? err.message
+              : 'Extraction failed',
+      };
+    }
+
+    const reasons = alertReasons(monitor, run);
+    if (reasons.length > 0) {
+      run.alert = monitor.webhookUrl
+        ? {
+            reasons,
+            ...(await sendWebhook(monitor.webhookUrl, {
+              event: 'critical-css.drift',
+              sentAt: new Date().toISOString(),
+              monitor: monitorSummary(monitor),
+              reasons,
+              run,
+              previous: previous && {
+                id: previous.id,
+                finishedAt: previous.finishedAt,
+                hash: previous.hash,
+                size: previous.size,
+              },
+            })),
+          }
+        : { reasons, delivered: false, error: 'No webhook configured' };
+    }
+
+    await recordRun(run);
+    return run;
+  } finally {
+    running.delete(monitor.id);
+  }
+}
+
+/** Sends a sample alert so a webhook can be checked without a real drift. */
+export function sendTestWebhook(monitor: Monitor) {
+  if (!monitor.webhookUrl) {
+    return Promise.resolve({
+      delivered: false,
+      error: 'No webhook configured',
+    });
+  }
+  return sendWebhook(monitor.webhookUrl, {
+    event: 'critical-css.test',
+    sentAt: new Date().toISOString(),
+    monitor: monitorSummary(monitor),
+    reasons: [],
+  });
+}
+
+/**
+ * Runs enabled monitors whose next run is due, most overdue first and one at
+ * a time so a busy schedule does not flood the backend. Stops starting runs
+ * once the tick's time budget could be exceeded.
+ */
+export async function runDueMonitors(now = Date.now()): Promise<DueRunSummary> {
+  const startedAt = Date.now();
+  const due = (await listMonitors())
+    .filter((monitor) => isDue(monitor, now))
+    .sort((a, b) => a.nextRunAt - b.nextRunAt);
+  const summary: DueRunSummary = {
+    ran: 0,
+    skipped: 0,
+    alerts: 0,
+    remaining: 0,
+    runs: [],
+  };
+  for (const [index, monitor] of due.entries()) {
+    const elapsed = Date.now() - startedAt;
+    if (
+      index > 0 &&
+      elapsed + EXTRACTION_TIMEOUT + WEBHOOK_TIMEOUT > TICK_BUDGET
+    ) {
+      summary.remaining = due.length - index;
+      break;
+    }
+    const run = await runMonitor(monitor);
+    if (!run) {
+      summary.skipped++;
+      continue;
+    }
+    summary.ran++;
+    if (run.alert) summary.alerts++;
+    summary.runs.push(run);
+  }
+  return summary;
+}
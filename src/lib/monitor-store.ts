@@ -0,0 +1,253 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  nextRunAfter,
+  type Monitor,
+  type MonitorInput,
+  type MonitorRun,
+} from '@/lib/monitor';
+import { normalizeTargetUrl, RequestGuardError } from '@/lib/request-guard';
+import { validateOptions } from '@/lib/options';
+
+/** Runs kept per monitor; older ones drop off the timeline. */
+const MAX_RUNS_PER_MONITOR = 200;
+/** The shortest schedule accepted, so a monitor cannot hammer a site. */
+const MIN_INTERVAL_MINUTES = 15;
+
+interface MonitorData {
+  version: 1;
+  monitors: Monitor[];
+  runs: MonitorRun[];
+}
+
+/**
+ * Monitors live in one JSON file under `MONITOR_DATA_DIR` (default `.data`),
+ * so they need a persistent filesystem: a long-running `next start` rather
+ * than serverless functions.
+ */
+function dataFile() {
+  return path.join(
+    path.resolve(process.env.MONITOR_DATA_DIR || '.data'),
+    'monitors.json'
+  );
+}
+
+// Route modules can be instantiated more than once in development, so the
+// write queue lives on the global object to keep writes in one chain.
+const globalStore = globalThis as typeof globalThis & {
+  monitorStoreQueue?: Promise<unknown>;
+};
+
+async function load(): Promise<MonitorData> {
+  try {
+    const data = JSON.parse(await readFile(dataFile(), 'utf8')) as MonitorData;
+    return { version: 1, monitors: data.monitors ?? [], runs: data.runs ?? [] };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: 1, monitors: [], runs: [] };
+    }
+    throw err;
+  }
+}
+
+/** Writes to a temporary file first so a crash never leaves half a file. */
+async function save(data: MonitorData) {
+  const file = dataFile();
+  await mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(data, null, 2));
+  await rename(temp, file);
+}
+
+/** Serializes every read-modify-write so concurrent routes do not race. */
+function transaction<T>(fn: (data: MonitorData) => T | Promise<T>) {
+  const next = (globalStore.monitorStoreQueue ?? Promise.resolve())
+    .catch(() => {})
+    .then(async () => {
+      const data = await load();
+      const result = await fn(data);
+      await save(data);
+      return result;
+    });
+  globalStore.monitorStoreQueue = next;
+  return next;
+}
+
+export async function listMonitors() {
+  return (await load()).monitors;
+}
+
+export async function getMonitor(id: string) {
+  return (await load()).monitors.find((monitor) => monitor.id === id) ?? null;
+}
+
+/** The monitor's runs, newest first. */
+export async function listRuns(monitorId: string) {
+  return (await load()).runs
+    .filter((run) => run.monitorId === monitorId)
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/** The most recent successful run, which new runs are compared against. */
+export async function lastSuccessfulRun(monitorId: string) {
+  return (await listRuns(monitorId)).find((run) => run.status === 'ok');
+}
+
+export function createMonitor(input: MonitorInput, now = Date.now()) {
+  return transaction((data) => {
+    const monitor: Monitor = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      // New monitors run on the next tick to record a baseline.
+      nextRunAt: now,
+    };
+    data.monitors.push(monitor);
+    return monitor;
+  });
+}
+
+/** Applies `changes`; a new interval reschedules from the last run. */
+export function updateMonitor(id: string, changes: Partial<MonitorInput>) {
+  return transaction((data) => {
+    const index = data.monitors.findIndex((monitor) => monitor.id === id);
+    if (index === -1) return null;
+    const monitor = { ...data.monitors[index], ...changes };
+    if (changes.intervalMinutes !== undefined && monitor.lastRunAt) {
+      monitor.nextRunAt = nextRunAfter(monitor, monitor.lastRunAt);
+    }
+    data.monitors[index] = monitor;
+    return monitor;
+  });
+}
+
+export function deleteMonitor(id: string) {
+  return transaction((data) => {
+    const count = data.monitors.length;
+    data.monitors = data.monitors.filter((monitor) => monitor.id !== id);
+    data.runs = data.runs.filter((run) => run.monitorId !== id);
+    return data.monitors.length < count;
+  });
+}
+
+/** Appends `run` to the timeline and schedules the monitor's next run. */
+export function recordRun(run: MonitorRun) {
+  return transaction((data) => {
+    const monitor = data.monitors.find((item) => item.id === run.monitorId);
+    if (!monitor) return null;
+    monitor.lastRunAt = run.startedAt;
+    monitor.nextRunAt = nextRunAfter(monitor, run.startedAt);
+
+    const own = data.runs.filter((item) => item.monitorId === run.monitorId);
+    const dropped = new Set(
+      own
+        .sort((a, b) => b.startedAt - a.startedAt)
+        .slice(MAX_RUNS_PER_MONITOR - 1)
+        .map((item) => item.id)
+    );
+    data.runs = data.runs.filter((item) => !dropped.has(item.id));
+    data.runs.push(run);
+    return monitor;
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Checks a create (`partial` false) or update body and normalizes its URLs.
+ * Throws a `RequestGuardError` naming the first invalid field.
+ */
+export function parseMonitorInput(
+  body: unknown,
+  partial: boolean
+): Partial<MonitorInput> {
+  if (!isObject(body)) {
+    throw new RequestGuardError('Request body must be a JSON object');
+  }
+  const input: Partial<MonitorInput> = {};
+  const has = (key: keyof MonitorInput) => body[key] !== undefined;
+  const require = (key: keyof MonitorInput) => {
+    if (!partial && !has(key)) {
+      throw new RequestGuardError(`${key} is required`);
+    }
+    return has(key);
+  };
+
+  if (require('url')) {
+    if (typeof body.url !== 'string') {
+      throw new RequestGuardError('url must be a string');
+    }
+    input.url = normalizeTargetUrl(body.url);
+  }
+  if (require('viewport')) {
+    if (!['mobile', 'desktop', 'both'].includes(body.viewport as string)) {
+      throw new RequestGuardError('viewport must be mobile, desktop or both');
+    }
+    input.viewport = body.viewport as MonitorInput['viewport'];
+  }
+  if (require('intervalMinutes')) {
+    const minutes = body.intervalMinutes;
+    if (
+      typeof minutes !== 'number' ||
+      !Number.isInteger(minutes) ||
+      minutes < MIN_INTERVAL_MINUTES
+    ) {
+      throw new RequestGuardError(
+        `intervalMinutes must be a whole number of at least ${MIN_INTERVAL_MINUTES}`
+      );
+    }
+    input.intervalMinutes = minutes;
+  }
+  if (has('growthThreshold')) {
+    const threshold = body.growthThreshold;
+    if (
+      threshold !== null &&
+      (typeof threshold !== 'number' || !(threshold >= 0))
+    ) {
+      throw new RequestGuardError(
+        'growthThreshold must be a non-negative percentage or null'
+      );
+    }
+    input.growthThreshold = threshold as number | null;
+  } else if (!partial) {
+    input.growthThreshold = null;
+  }
+  if (has('webhookUrl')) {
+    const webhook = body.webhookUrl;
+    if (webhook !== null && typeof webhook !== 'string') {
+      throw new RequestGuardError('webhookUrl must be a string or null');
+    }
+    input.webhookUrl = webhook?.trim()
+      ? normalizeTargetUrl(webhook)
+      : undefined;
+  }
+  for (const key of ['includeShadows', 'alertOnChange', 'enabled'] as const) {
+    if (!has(key)) {
+      if (!partial) input[key] = key !== 'includeShadows';
+      continue;
+    }
+    if (typeof body[key] !== 'boolean') {
+      throw new RequestGuardError(`${key} must be a boolean`);
+    }
+    input[key] = body[key] as boolean;
+  }
+  if (has('options')) {
+    const options = body.options as MonitorInput['options'];
+    if (
+      !isObject(options) ||
+      !Array.isArray(options.viewports) ||
+      !Array.isArray(options.forceInclude) ||
+      !Array.isArray(options.forceExclude)
+    ) {
+      throw new RequestGuardError(
+        'options must be an extraction options object'
+      );
+    }
+    const errors = validateOptions(options);
+    if (errors.length > 0) throw new RequestGuardError(errors[0]);
+    input.options = options;
+  }
+  return input;
+}
@@ -0,0 +1,206 @@
+import { getCssOutputs, getResultSize } from '@/lib/results';
+import type {
+  ExtractionOptions,
+  ExtractionResult,
+  ExtractRequest,
+  Viewport,
+} from '@/lib/types';
+
+/** A page re-extracted on a schedule to catch critical CSS drift. */
+export interface Monitor {
+  id: string;
+  url: string;
+  viewport: Viewport;
+  includeShadows: boolean;
+  options?: ExtractionOptions;
+  intervalMinutes: number;
+  /** Alert whenever the output hash differs from the previous run. */
+  alertOnChange: boolean;
+  /** Alert when the size grows by more than this percentage; null is off. */
+  growthThreshold: number | null;
+  /** Receives a JSON POST for every alert; optional. */
+  webhookUrl?: string;
+  enabled: boolean;
+  createdAt: number;
+  lastRunAt?: number;
+  nextRunAt: number;
+}
+
+/** Fields accepted when registering or editing a monitor. */
+export type MonitorInput = Pick<
+  Monitor,
+  | 'url'
+  | 'viewport'
+  | 'includeShadows'
+  | 'options'
+  | 'intervalMinutes'
+  | 'alertOnChange'
+  | 'growthThreshold'
+  | 'webhookUrl'
+  | 'enabled'
+>;
+
+export type MonitorChange = 'initial' | 'unchanged' | 'changed';
+
+export type AlertReason = 'changed' | 'growth';
+
+export interface MonitorAlert {
+  reasons: AlertReason[];
+  delivered: boolean;
+  /** Webhook response status, when it answered. */
+  status?: number;
+  error?: string;
+}
+
+/** One point on a monitor's timeline. */
+export interface MonitorRun {
+  id: string;
+  monitorId: string;
+  startedAt: number;
+  finishedAt: number;
+  status: 'ok' | 'failed';
+  /** SHA-256 of every output, hex encoded. */
+  hash?: string;
+  /** Bytes of the combined output, or of the only one. */
+  size?: number;
+  /** Bytes per output key, e.g. `mobile` and `desktop`. */
+  sizes?: Record<string, number>;
+  change?: MonitorChange;
+  /** Size change against the previous successful run, in percent. */
+  growth?: number;
+  error?: string;
+  alert?: MonitorAlert;
+}
+
+export interface WebhookPayload {
+  event: 'critical-css.drift' | 'critical-css.test';
+  sentAt: string;
+  monitor: Pick<Monitor, 'id' | 'url' | 'viewport'>;
+  reasons: AlertReason[];
+  run?: Omit<MonitorRun, 'alert'>;
+  previous?: Pick<MonitorRun, 'id' | 'finishedAt' | 'hash' | 'size'>;
+}
+
+export const MONITOR_INTERVALS = [
+  { minutes: 60, label: 'Hourly' },
+  { minutes: 6 * 60, label: 'Every 6 hours' },
+  { minutes: 24 * 60, label: 'Daily' },
+  { minutes: 7 * 24 * 60, label: 'Weekly' },
+];
+
+export const DEFAULT_MONITOR_INPUT: MonitorInput = {
+  url: '',
+  viewport: 'both',
+  includeShadows: false,
+  intervalMinutes: 24 * 60,
+  alertOnChange: true,
+  growthThreshold: 10,
+  enabled: true,
+};
+
+export function intervalLabel(minutes: number) {
+  return (
+    MONITOR_INTERVALS.find((interval) => interval.minutes === minutes)?.label ??
+    `Every ${minutes} min`
+  );
+}
+
+/**
+ * Hides the path and query of a webhook URL, which often carry its secret,
+ * e.g. `https://hooks.example.com/…`.
+ */
+export function maskWebhookUrl(url: string) {
+  try {
+    return `${new URL(url).origin}/…`;
+  } catch {
+    return '…';
+  }
+}
+
+/** The monitor as sent to clients, with its webhook URL masked. */
+export function publicMonitor<T extends Monitor>(monitor: T): T {
+  return monitor.webhookUrl
+    ? { ...monitor, webhookUrl: maskWebhookUrl(monitor.webhookUrl) }
+    : monitor;
+}
+
+export function monitorRequest(monitor: Monitor): ExtractRequest {
+  return {
+    url: monitor.url,
+    viewport: monitor.viewport,
+    includeShadows: monitor.includeShadows,
+    options: monitor.options,
+  };
+}
+
+export function isDue(monitor: Monitor, now = Date.now()) {
+  return monitor.enabled && monitor.nextRunAt <= now;
+}
+
+export function nextRunAfter(monitor: Monitor, time: number) {
+  return time + monitor.intervalMinutes * 60 * 1000;
+}
+
+/**
+ * Hashes every output with its key, so a rule moving from the mobile to the
+ * desktop output counts as a change even when the combined CSS is equal.
+ */
+export async function hashResult(result: ExtractionResult) {
+  const text = getCssOutputs(result)
+    .map(({ key, css }) => `/* ${key} */\n${css}`)
+    .join('\n');
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+/** Records a successful extraction, compared against the previous run. */
+export async function summarizeRun(
+  result: ExtractionResult,
+  previous: MonitorRun | undefined
+): Promise<Pick<MonitorRun, 'hash' | 'size' | 'sizes' | 'change' | 'growth'>> {
+  const hash = await hashResult(result);
+  const size = getResultSize(result);
+  const sizes = Object.fromEntries(
+    getCssOutputs(result).map(({ key, size }) => [key, size])
+  );
+  if (!previous?.hash) return { hash, size, sizes, change: 'initial' };
+
+  const growth =
+    previous.size && previous.size > 0
+      ? ((size - previous.size) / previous.size) * 100
+      : 0;
+  return {
+    hash,
+    size,
+    sizes,
+    change: hash === previous.hash ? 'unchanged' : 'changed',
+    growth,
+  };
+}
+
+/** The reasons a run should alert, per the monitor's settings. */
+export function alertReasons(monitor: Monitor, run: MonitorRun) {
+  const reasons: AlertReason[] = [];
+  if (run.status !== 'ok') return reasons;
+  if (monitor.alertOnChange && run.change === 'changed') {
+    reasons.push('changed');
+  }
+  if (
+    monitor.growthThreshold !== null &&
+    run.growth !== undefined &&
+    run.growth > monitor.growthThreshold
+  ) {
+    reasons.push('growth');
+  }
+  return reasons;
+}
+
+export function formatGrowth(growth: number) {
+  const rounded = Math.round(growth * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded}%`;
+}
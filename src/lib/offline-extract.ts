@@ -0,0 +1,530 @@
+import {
+  atRuleLabel,
+  parseCss,
+  stringifyCss,
+  stringifyNode,
+  type CssAtRule,
+  type CssNode,
+  type CssRule,
+} from '@/lib/css';
+import { matchesMedia, type MediaEnvironment } from '@/lib/media-query';
+import type { CoverageReport, DroppedRule, KeptRule } from '@/lib/types';
+
+/** A stylesheet of an uploaded page, in document order. */
+export interface OfflineStylesheet {
+  /** Path of the uploaded file, or `inline` for `<style>` blocks. */
+  href: string;
+  css: string;
+}
+
+/** The request options the in-browser extractor honors. */
+export interface OfflineSettings {
+  includeShadows: boolean;
+  forceInclude: string[];
+  forceExclude: string[];
+  keepFontFace: boolean;
+}
+
+/** How many elements a candidate selector matched in a rendered viewport. */
+export interface SelectorMatch {
+  aboveFold: number;
+  total: number;
+}
+
+export interface ViewportMatches {
+  name: string;
+  environment: MediaEnvironment;
+  /** Keyed by the matchable form of each candidate selector. */
+  matches: Record<string, SelectorMatch>;
+}
+
+export interface OfflineOutput {
+  /** Minified critical CSS per viewport name. */
+  viewports: Record<string, string>;
+  /** Union of every viewport's rules in source order. */
+  combined: string;
+  report: CoverageReport;
+}
+
+interface SourceRule {
+  node: CssRule;
+  stylesheet: string;
+  /** Conditional at-rules around the rule, outermost first. */
+  conditions: CssAtRule[];
+  selectors: string[];
+}
+
+export interface ParsedStylesheets {
+  sheets: { href: string; nodes: CssNode[] }[];
+  rules: SourceRule[];
+  fontFaces: { node: CssAtRule; stylesheet: string; family: string }[];
+  keyframes: { node: CssAtRule; stylesheet: string; name: string }[];
+}
+
+/** Messages the page sends to the extraction worker, one job per worker. */
+export type OfflineWorkerRequest =
+  | { type: 'parse'; stylesheets: OfflineStylesheet[] }
+  | { type: 'candidates'; environment: MediaEnvironment }
+  | {
+      type: 'assemble';
+      viewports: ViewportMatches[];
+      settings: OfflineSettings;
+    };
+
+/** The worker answers every request with exactly one message. */
+export type OfflineWorkerResponse =
+  | { type: 'parsed'; ruleCount: number }
+  | { type: 'candidates'; selectors: string[] }
+  | { type: 'assembled'; output: OfflineOutput }
+  | { type: 'error'; message: string };
+
+const KEYFRAMES = /^(-webkit-|-moz-)?keyframes$/;
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Interaction pseudo-classes and legacy single-colon pseudo-elements. Their
+ * rules style the same elements without them, so they are matched that way.
+ */
+const STRIPPED_PSEUDOS = new Set([
+  'hover',
+  'focus',
+  'focus-visible',
+  'focus-within',
+  'active',
+  'visited',
+  'target',
+  'before',
+  'after',
+  'first-line',
+  'first-letter',
+]);
+
+const encoder = new TextEncoder();
+
+/** Splits a selector list on commas outside of parentheses and strings. */
+export function splitSelectors(selector: string) {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < selector.length; i++) {
+    const ch = selector[i];
+    if (ch === '"' || ch === "'") {
+      const end = selector.indexOf(ch, i + 1);
+      i = end === -1 ? selector.length : end;
+    } else if (ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === ')' || ch === ']') {
+      depth = Math.max(0, depth - 1);
+    } else if (ch === ',' && depth === 0) {
+      parts.push(selector.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(selector.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Rewrites a selector so `Element.matches` can test it against the static
+ * page: pseudo-elements and interaction pseudo-classes are removed, e.g.
+ * `.nav a:hover::after` becomes `.nav a`.
+ */
+export function toMatchableSelector(selector: string) {
+  let out = '';
+  let depth = 0;
+  for (let i = 0; i < selector.length; i++) {
+    const ch = selector[i];
+    if (ch === '(' || ch === '[') depth++;
+    if (ch === ')' || ch === ']') depth--;
+    if (ch !== ':' || depth > 0) {
+      out += ch;
+      continue;
+    }
+
+    const element = selector[i + 1] === ':';
+    const match = selector
+      .slice(i + (element ? 2 : 1))
+      .match(/^-?[a-z][a-z0-9-]*/i);
+    const name = match?.[0].toLowerCase() ?? '';
+    if (!element && !STRIPPED_PSEUDOS.has(name)) {
+      out += ch;
+      continue;
+    }
+
+    // Skip the pseudo and any argument list, e.g. `::part(label)`.
+    let end = i + (element ? 2 : 1) + name.length;
+    if (selector[end] === '(') {
+      let parens = 0;
+      do {
+        if (selector[end] === '(') parens++;
+        if (selector[end] === ')') parens--;
+        end++;
+      } while (end < selector.length && parens > 0);
+    }
+    i = end - 1;
+  }
+
+  // A bare pseudo like `:before` or `a > :hover` applies to every element.
+  if (/(^|[\s>+~])$/.test(out)) out += '*';
+  return out.trim();
+}
+
+function unquote(value: string) {
+  return value.trim().replace(/^['"]|['"]$/g, '');
+}
+
+function fontFamily(node: CssAtRule) {
+  const decl = node.nodes?.find(
+    (child) => child.type === 'decl' && child.property === 'font-family'
+  );
+  return decl?.type === 'decl' ? unquote(decl.value) : '';
+}
+
+/** Parses every stylesheet and indexes its top-level style rules. */
+export function parseStylesheets(
+  stylesheets: OfflineStylesheet[]
+): ParsedStylesheets {
+  const parsed: ParsedStylesheets = {
+    sheets: [],
+    rules: [],
+    fontFaces: [],
+    keyframes: [],
+  };
+
+  const visit = (nodes: CssNode[], href: string, conditions: CssAtRule[]) => {
+    for (const node of nodes) {
+      if (node.type === 'rule') {
+        // Nested rules stay inside their parent and share its fate.
+        parsed.rules.push({
+          node,
+          stylesheet: href,
+          conditions,
+          selectors: splitSelectors(node.selector),
+        });
+      } else if (node.type === 'atrule' && node.name === 'font-face') {
+        parsed.fontFaces.push({
+          node,
+          stylesheet: href,
+          family: fontFamily(node),
+        });
+      } else if (node.type === 'atrule' && KEYFRAMES.test(node.name)) {
+        parsed.keyframes.push({ node, stylesheet: href, name: node.params });
+      } else if (node.type === 'atrule' && node.nodes) {
+        visit(node.nodes, href, [...conditions, node]);
+      }
+    }
+  };
+
+  for (const { href, css } of stylesheets) {
+    const nodes = parseCss(css);
+    parsed.sheets.push({ href, nodes });
+    visit(nodes, href, []);
+  }
+  return parsed;
+}
+
+/**
+ * Whether a rule's at-rules apply in the environment. Only `@media` is
+ * evaluated; `@supports`, `@layer` and `@container` are assumed to apply.
+ */
+function conditionsMatch(conditions: CssAtRule[], env: MediaEnvironment) {
+  return conditions.every(
+    (at) => at.name !== 'media' || matchesMedia(at.params, env)
+  );
+}
+
+/** Matchable selectors of every rule whose `@media` applies in `env`. */
+export function candidateSelectors(
+  parsed: ParsedStylesheets,
+  env: MediaEnvironment
+) {
+  const selectors = new Set<string>();
+  for (const rule of parsed.rules) {
+    if (!conditionsMatch(rule.conditions, env)) continue;
+    for (const selector of rule.selectors) {
+      selectors.add(toMatchableSelector(selector));
+    }
+  }
+  return Array.from(selectors);
+}
+
+function isExcluded(selector: string, patterns: string[]) {
+  return patterns.some((pattern) => {
+    const regex = pattern.match(REGEX_PATTERN);
+    return regex
+      ? new RegExp(regex[1], regex[2]).test(selector)
+      : pattern === selector;
+  });
+}
+
+/** Lowercased family names a `font-family` or `font` value refers to. */
+function referencedFamilies(property: string, value: string) {
+  const list =
+    property === 'font'
+      ? // The family list follows the size, e.g. `600 16px/1.5 Inter, sans-serif`.
+        value.replace(/^.*?\d[\w.%]*(\/[\w.%-]+)?\s+/, '')
+      : value;
+  return list.split(',').map((family) => unquote(family).toLowerCase());
+}
+
+function ruleDeclarations(rule: CssRule) {
+  return rule.nodes.flatMap((node) => (node.type === 'decl' ? [node] : []));
+}
+
+/** Which rules, selectors and at-rules one viewport keeps. */
+interface KeepSet {
+  rules: Map<CssRule, string[]>;
+  fontFaces: Set<CssAtRule>;
+  keyframes: Set<CssAtRule>;
+}
+
+function keepAtRules(
+  parsed: ParsedStylesheets,
+  rules: Map<CssRule, string[]>,
+  settings: OfflineSettings
+): KeepSet {
+  const families = new Set<string>();
+  const animationValues: string[] = [];
+  let familyFromVariable = false;
+
+  for (const rule of Array.from(rules.keys())) {
+    for (const decl of ruleDeclarations(rule)) {
+      if (decl.property === 'font-family' || decl.property === 'font') {
+        if (decl.value.includes('var(')) familyFromVariable = true;
+        for (const family of referencedFamilies(decl.property, decl.value)) {
+          families.add(family);
+        }
+      }
+      if (/^(-webkit-)?animation(-name)?$/.test(decl.property)) {
+        animationValues.push(decl.value);
+      }
+    }
+  }
+
+  return {
+    rules,
+    fontFaces: new Set(
+      parsed.fontFaces
+        .filter(
+          (face) =>
+            settings.keepFontFace &&
+            (familyFromVariable || families.has(face.family.toLowerCase()))
+        )
+        .map((face) => face.node)
+    ),
+    keyframes: new Set(
+      parsed.keyframes
+        .filter((frames) =>
+          animationValues.some((value) =>
+            value.split(/[\s,]+/).includes(frames.name)
+          )
+        )
+        .map((frames) => frames.node)
+    ),
+  };
+}
+
+function mergeKeepSets(sets: KeepSet[]): KeepSet {
+  const rules = new Map<CssRule, string[]>();
+  for (const set of sets) {
+    set.rules.forEach((selectors, rule) => {
+      const merged = new Set([...(rules.get(rule) ?? []), ...selectors]);
+      // Keep the selectors in their source order.
+      rules.set(
+        rule,
+        splitSelectors(rule.selector).filter((s) => merged.has(s))
+      );
+    });
+  }
+  return {
+    rules,
+    fontFaces: new Set(sets.flatMap((set) => Array.from(set.fontFaces))),
+    keyframes: new Set(sets.flatMap((set) => Array.from(set.keyframes))),
+  };
+}
+
+function filterNodes(
+  nodes: CssNode[],
+  keep: KeepSet,
+  settings: OfflineSettings
+): CssNode[] {
+  const out: CssNode[] = [];
+  for (const node of nodes) {
+    if (node.type === 'rule') {
+      const selectors = keep.rules.get(node);
+      if (!selectors) continue;
+      const children = settings.includeShadows
+        ? node.nodes
+        : node.nodes.filter(
+            (child) => child.type !== 'decl' || child.property !== 'box-shadow'
+          );
+      if (children.length > 0) {
+        out.push({ ...node, selector: selectors.join(','), nodes: children });
+      }
+    } else if (node.type === 'atrule') {
+      if (keep.fontFaces.has(node) || keep.keyframes.has(node)) {
+        out.push(node);
+      } else if (
+        node.nodes &&
+        node.name !== 'font-face' &&
+        !KEYFRAMES.test(node.name)
+      ) {
+        const children = filterNodes(node.nodes, keep, settings);
+        if (children.length > 0) out.push({ ...node, nodes: children });
+      }
+      // Statement at-rules such as `@import` and `@charset` are dropped.
+    }
+  }
+  return out;
+}
+
+function renderOutput(
+  parsed: ParsedStylesheets,
+  keep: KeepSet,
+  settings: OfflineSettings
+) {
+  return parsed.sheets
+    .map((sheet) => stringifyCss(filterNodes(sheet.nodes, keep, settings)))
+    .join('');
+}
+
+function conditionLabel(conditions: CssAtRule[]) {
+  return conditions.length > 0
+    ? conditions.map(atRuleLabel).join(' ')
+    : undefined;
+}
+
+function byteSize(node: CssNode) {
+  return encoder.encode(stringifyNode(node)).length;
+}
+
+/**
+ * Decides per viewport which rules are critical from the matched selectors,
+ * then renders each viewport's CSS, the combined CSS and a coverage report.
+ * Rules keep their `@media` wrappers and source order; selectors of a list
+ * that matched nothing above the fold are dropped from it.
+ */
+export function assembleOutput(
+  parsed: ParsedStylesheets,
+  viewports: ViewportMatches[],
+  settings: OfflineSettings
+): OfflineOutput {
+  const keptIn = new Map<
+    CssRule,
+    { viewports: string[]; matched: number; forced: boolean }
+  >();
+  const keepSets: KeepSet[] = [];
+
+  for (const viewport of viewports) {
+    const rules = new Map<CssRule, string[]>();
+    for (const rule of parsed.rules) {
+      if (!conditionsMatch(rule.conditions, viewport.environment)) continue;
+      let matched = 0;
+      let forced = false;
+      const selectors = rule.selectors.filter((selector) => {
+        if (isExcluded(selector, settings.forceExclude)) return false;
+        if (settings.forceInclude.includes(selector)) {
+          forced = true;
+          return true;
+        }
+        const count =
+          viewport.matches[toMatchableSelector(selector)]?.aboveFold ?? 0;
+        matched += count;
+        return count > 0;
+      });
+      if (selectors.length === 0) continue;
+
+      rules.set(rule.node, selectors);
+      const entry = keptIn.get(rule.node) ?? {
+        viewports: [],
+        matched: 0,
+        forced: false,
+      };
+      entry.viewports.push(viewport.name);
+      entry.matched += matched;
+      entry.forced ||= forced;
+      keptIn.set(rule.node, entry);
+    }
+    keepSets.push(keepAtRules(parsed, rules, settings));
+  }
+
+  const combinedKeep = mergeKeepSets(keepSets);
+  const kept: KeptRule[] = [];
+  const dropped: DroppedRule[] = [];
+
+  for (const rule of parsed.rules) {
+    const media = conditionLabel(rule.conditions);
+    const entry = keptIn.get(rule.node);
+    if (entry) {
+      const selectors = combinedKeep.rules.get(rule.node) ?? rule.selectors;
+      kept.push({
+        selector: selectors.join(', '),
+        stylesheet: rule.stylesheet,
+        media,
+        size: byteSize({ ...rule.node, selector: selectors.join(',') }),
+        reason: entry.forced ? 'forced' : 'matched-in-viewport',
+        matchedElements: entry.matched,
+        viewports: entry.viewports,
+      });
+      continue;
+    }
+
+    const excluded = rule.selectors.every((s) =>
+      isExcluded(s, settings.forceExclude)
+    );
+    const present = viewports.some(
+      (viewport) =>
+        conditionsMatch(rule.conditions, viewport.environment) &&
+        rule.selectors.some(
+          (s) => (viewport.matches[toMatchableSelector(s)]?.total ?? 0) > 0
+        )
+    );
+    dropped.push({
+      selector: rule.node.selector,
+      stylesheet: rule.stylesheet,
+      media,
+      size: byteSize(rule.node),
+      reason: excluded ? 'excluded' : present ? 'below-fold' : 'no-match',
+    });
+  }
+
+  for (const face of parsed.fontFaces) {
+    const report = {
+      selector: `@font-face ${face.family}`,
+      stylesheet: face.stylesheet,
+      size: byteSize(face.node),
+    };
+    if (combinedKeep.fontFaces.has(face.node)) {
+      kept.push({ ...report, reason: 'font-face', matchedElements: 0 });
+    } else {
+      dropped.push({
+        ...report,
+        reason: settings.keepFontFace ? 'no-match' : 'excluded',
+      });
+    }
+  }
+
+  for (const frames of parsed.keyframes) {
+    const report = {
+      selector: `@keyframes ${frames.name}`,
+      stylesheet: frames.stylesheet,
+      size: byteSize(frames.node),
+    };
+    if (combinedKeep.keyframes.has(frames.node)) {
+      kept.push({ ...report, reason: 'keyframes', matchedElements: 0 });
+    } else {
+      dropped.push({ ...report, reason: 'no-match' });
+    }
+  }
+
+  return {
+    viewports: Object.fromEntries(
+      viewports.map((viewport, i) => [
+        viewport.name,
+        renderOutput(parsed, keepSets[i], settings),
+      ])
+    ),
+    combined: renderOutput(parsed, combinedKeep, settings),
+    report: { kept, dropped },
+  };
+}
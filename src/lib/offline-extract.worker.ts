@@ -0,0 +1,43 @@
+import {
+  assembleOutput,
+  candidateSelectors,
+  parseStylesheets,
+  type OfflineWorkerRequest,
+  type OfflineWorkerResponse,
+  type ParsedStylesheets,
+} from '@/lib/offline-extract';
+
+// Each extraction gets its own worker, so the parsed sheets are job state.
+let parsed: ParsedStylesheets | null = null;
+
+function reply(message: OfflineWorkerResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<OfflineWorkerRequest>) => {
+  const message = event.data;
+  try {
+    if (message.type === 'parse') {
+      parsed = parseStylesheets(message.stylesheets);
+      reply({ type: 'parsed', ruleCount: parsed.rules.length });
+      return;
+    }
+    if (!parsed) throw new Error('No stylesheets were parsed');
+    if (message.type === 'candidates') {
+      reply({
+        type: 'candidates',
+        selectors: candidateSelectors(parsed, message.environment),
+      });
+    } else {
+      reply({
+        type: 'assembled',
+        output: assembleOutput(parsed, message.viewports, message.settings),
+      });
+    }
+  } catch (err) {
+    reply({
+      type: 'error',
+      message: err instanceof Error ? err.message : 'Extraction failed',
+    });
+  }
+};
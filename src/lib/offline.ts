@@ -0,0 +1,512 @@
+import { strFromU8, unzipSync } from 'fflate';
+import type { MediaEnvironment } from '@/lib/media-query';
+import type {
+  OfflineStylesheet,
+  OfflineWorkerRequest,
+  OfflineWorkerResponse,
+  SelectorMatch,
+  ViewportMatches,
+} from '@/lib/offline-extract';
+import { PRESET_VIEWPORT_SIZES } from '@/lib/preview';
+import { planStages } from '@/lib/progress';
+import type {
+  CustomViewport,
+  ExtractRequest,
+  ExtractionProgressEvent,
+  ExtractionResult,
+  ViewportResult,
+} from '@/lib/types';
+import { formatTime } from '@/lib/utils';
+
+/** An uploaded page with its stylesheets resolved, ready to extract. */
+export interface UploadedPage {
+  /** Path of the HTML file inside the upload. */
+  htmlPath: string;
+  /**
+   * The page with scripts removed and every linked stylesheet replaced by
+   * an inline `<style>`, so it renders without network access.
+   */
+  html: string;
+  /** Every stylesheet the page applies, in cascade order. */
+  stylesheets: OfflineStylesheet[];
+  /** Linked stylesheets that were not part of the upload. */
+  missing: string[];
+  /** Every uploaded file, zip entries included. */
+  files: { path: string; size: number }[];
+}
+
+export interface OfflineExtractOptions {
+  onProgress?: (event: ExtractionProgressEvent) => void;
+  signal?: AbortSignal;
+  /** Timeout in ms; 0 or undefined waits indefinitely. */
+  timeout?: number;
+}
+
+/** `load` can hang on assets that never resolve; layout is ready anyway. */
+const RENDER_TIMEOUT = 10000;
+/** Narrower viewports emulate a touch screen in media queries. */
+const TOUCH_MAX_WIDTH = 768;
+
+const PRESET_VIEWPORTS: CustomViewport[] = [
+  { name: 'mobile', ...PRESET_VIEWPORT_SIZES.mobile, deviceScaleFactor: 2 },
+  { name: 'desktop', ...PRESET_VIEWPORT_SIZES.desktop, deviceScaleFactor: 1 },
+];
+
+const encoder = new TextEncoder();
+
+/** Comments, `@charset` and `@import`, which may only start a sheet. */
+const LEADING_STATEMENTS =
+  /^(?:\s+|\/\*[\s\S]*?\*\/|@(?:charset|import)\b[^;]*;)*/i;
+const IMPORT_RULE = /@import\s+(url\([^)]*\)|"[^"]*"|'[^']*')\s*([^;]*);/gi;
+
+/**
+ * Applies a `media` attribute like an `@media` block around the sheet.
+ * `@import` and `@charset` are invalid inside the block, so imports move in
+ * front of it and take the media list when they have none of their own.
+ */
+function scopeToMedia(css: string, media: string | null) {
+  if (!media) return css;
+  const head = css.match(LEADING_STATEMENTS)![0];
+  const imports = head
+    .replace(/@charset\b[^;]*;/gi, '')
+    .replace(IMPORT_RULE, (rule, url: string, queries: string) =>
+      queries.trim() ? rule : `@import ${url} ${media};`
+    );
+  return `${imports}@media ${media}{${css.slice(head.length)}}`;
+}
+
+function isHtml(path: string) {
+  return /\.html?$/i.test(path);
+}
+
+/** Resolves `href` against the directory of `from`, both upload paths. */
+function resolvePath(from: string, href: string) {
+  const clean = href.split(/[?#]/)[0];
+  const segments = clean.startsWith('/') ? [] : from.split('/').slice(0, -1);
+  for (const segment of clean.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+async function readFiles(files: File[]) {
+  const entries = new Map<string, Uint8Array>();
+  for (const file of files) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (/\.zip$/i.test(file.name)) {
+      let unzipped: Record<string, Uint8Array>;
+      try {
+        unzipped = unzipSync(data);
+      } catch {
+        throw new Error(`${file.name} is not a valid zip file`);
+      }
+      for (const [path, content] of Object.entries(unzipped)) {
+        // Directories and macOS resource forks carry no page content.
+        if (path.endsWith('/') || path.startsWith('__MACOSX/')) continue;
+        entries.set(path, content);
+      }
+    } else {
+      entries.set(file.webkitRelativePath || file.name, data);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Reads HTML, CSS and zip uploads into a page. The HTML file is `index.html`
+ * when there is one, else the first HTML file. Linked stylesheets are matched
+ * by path relative to it, then by file name; uploaded CSS the page does not
+ * link is applied after its own stylesheets.
+ */
+export async function readUploadedPage(files: File[]): Promise<UploadedPage> {
+  const entries = await readFiles(files);
+  const paths = Array.from(entries.keys());
+  const htmlPaths = paths
+    .filter(isHtml)
+    .sort((a, b) => a.split('/').length - b.split('/').length);
+  const htmlPath =
+    htmlPaths.find((path) => /(^|\/)index\.html?$/i.test(path)) ?? htmlPaths[0];
+  if (!htmlPath) {
+    throw new Error('Add an HTML file, or a zip that contains one');
+  }
+
+  const cssPaths = paths.filter((path) => /\.css$/i.test(path));
+  const readCss = (path: string) => strFromU8(entries.get(path)!);
+  const findCss = (href: string) => {
+    const resolved = resolvePath(htmlPath, href);
+    const name = resolved.split('/').pop();
+    return (
+      cssPaths.find((path) => path === resolved) ??
+      cssPaths.find((path) => path.split('/').pop() === name)
+    );
+  };
+
+  const doc = new DOMParser().parseFromString(
+    strFromU8(entries.get(htmlPath)!),
+    'text/html'
+  );
+  doc.querySelectorAll('script, noscript').forEach((el) => el.remove());
+
+  const stylesheets: OfflineStylesheet[] = [];
+  const missing: string[] = [];
+  const linked = new Set<string>();
+
+  doc.querySelectorAll('style, link[rel~="stylesheet"]').forEach((el) => {
+    const media = el.getAttribute('media');
+    if (el instanceof HTMLStyleElement) {
+      stylesheets.push({
+        href: 'inline',
+        css: scopeToMedia(el.textContent ?? '', media),
+      });
+      return;
+    }
+    const href = el.getAttribute('href') ?? '';
+    const path = findCss(href);
+    if (!path) {
+      missing.push(href);
+      el.remove();
+      return;
+    }
+    const css = readCss(path);
+    linked.add(path);
+    stylesheets.push({ href: path, css: scopeToMedia(css, media) });
+    const style = doc.createElement('style');
+    style.setAttribute('data-href', path);
+    if (media) style.setAttribute('media', media);
+    style.textContent = css;
+    el.replaceWith(style);
+  });
+
+  for (const path of cssPaths.filter((path) => !linked.has(path))) {
+    const css = readCss(path);
+    stylesheets.push({ href: path, css });
+    const style = doc.createElement('style');
+    style.setAttribute('data-href', path);
+    style.textContent = css;
+    doc.head.append(style);
+  }
+
+  return {
+    htmlPath,
+    html: `<!DOCTYPE html>${doc.documentElement.outerHTML}`,
+    stylesheets,
+    missing,
+    files: paths.map((path) => ({ path, size: entries.get(path)!.length })),
+  };
+}
+
+/** The progress stages `extractOffline` reports; there is no navigation. */
+export function planOfflineStages(request: ExtractRequest) {
+  return planStages(request).filter(
+    ({ stage }) => stage !== 'navigation' && stage !== 'lcp'
+  );
+}
+
+function requestViewports({ viewport, options }: ExtractRequest) {
+  if (options && options.viewports.length > 0) return options.viewports;
+  return viewport === 'both'
+    ? PRESET_VIEWPORTS
+    : PRESET_VIEWPORTS.filter((vp) => vp.name === viewport);
+}
+
+function toEnvironment(viewport: CustomViewport): MediaEnvironment {
+  return {
+    width: viewport.width,
+    height: viewport.height,
+    deviceScaleFactor: viewport.deviceScaleFactor,
+    touch: viewport.width < TOUCH_MAX_WIDTH,
+  };
+}
+
+function abortError(signal: AbortSignal) {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new Error('Extraction cancelled');
+}
+
+/** Sends one request to the worker and waits for its single answer. */
+function callWorker<T extends OfflineWorkerResponse['type']>(
+  worker: Worker,
+  message: OfflineWorkerRequest,
+  expected: T,
+  signal: AbortSignal
+) {
+  return new Promise<Extract<OfflineWorkerResponse, { type: T }>>(
+    (resolve, reject) => {
+      const cleanup = () => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+        signal.removeEventListener('abort', onAbort);
+      };
+      const onMessage = (event: MessageEvent<OfflineWorkerResponse>) => {
+        cleanup();
+        const data = event.data;
+        if (data.type === 'error') reject(new Error(data.message));
+        else if (data.type !== expected) {
+          reject(new Error(`Unexpected worker response ${data.type}`));
+        } else resolve(data as Extract<OfflineWorkerResponse, { type: T }>);
+      };
+      const onError = (event: ErrorEvent) => {
+        cleanup();
+        reject(new Error(event.message || 'The extraction worker crashed'));
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(abortError(signal));
+      };
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onError);
+      signal.addEventListener('abort', onAbort, { once: true });
+      worker.postMessage(message);
+    }
+  );
+}
+
+/**
+ * Renders the page in a hidden, script-less iframe at the viewport size and
+ * counts the elements each selector matches, in total and above the fold.
+ * Elements without a box, e.g. `display: none`, count where their parent is,
+ * so rules that hide above-the-fold content are kept.
+ */
+async function measureViewport(
+  html: string,
+  viewport: CustomViewport,
+  foldMultiplier: number,
+  selectors: string[],
+  signal: AbortSignal
+) {
+  const iframe = document.createElement('iframe');
+  // Same-origin access for measuring; without allow-scripts nothing runs.
+  iframe.setAttribute('sandbox', 'allow-same-origin');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.tabIndex = -1;
+  iframe.style.cssText = `position:fixed;left:-100000px;top:0;width:${viewport.width}px;height:${viewport.height}px;border:0;visibility:hidden;pointer-events:none`;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError(signal));
+      };
+      const timer = setTimeout(done, RENDER_TIMEOUT);
+      iframe.addEventListener('load', done, { once: true });
+      signal.addEventListener('abort', onAbort, { once: true });
+      iframe.srcdoc = html;
+      document.body.append(iframe);
+    });
+
+    const doc = iframe.contentDocument;
+    if (!doc) throw new Error('Could not render the uploaded page');
+
+    const fold = viewport.height * foldMultiplier;
+    const aboveFold = new Set<Element>();
+    for (const el of Array.from(doc.querySelectorAll('*'))) {
+      const rect = el.getBoundingClientRect();
+      const hasBox = rect.width > 0 || rect.height > 0;
+      const above = hasBox
+        ? rect.top < fold
+        : !el.parentElement || aboveFold.has(el.parentElement);
+      if (above) aboveFold.add(el);
+    }
+
+    const matches: Record<string, SelectorMatch> = {};
+    for (const selector of selectors) {
+      let elements: Element[];
+      try {
+        elements = Array.from(doc.querySelectorAll(selector));
+      } catch {
+        // Vendor pseudo-classes other engines use are invalid here.
+        elements = [];
+      }
+      matches[selector] = {
+        aboveFold: elements.filter((el) => aboveFold.has(el)).length,
+        total: elements.length,
+      };
+    }
+    return matches;
+  } finally {
+    iframe.remove();
+  }
+}
+
+function toViewportResult(css: string, extractionTime: number): ViewportResult {
+  return {
+    css,
+    size: encoder.encode(css).length,
+    extractionTime: Math.round(extractionTime),
+  };
+}
+
+/**
+ * Extracts critical CSS from an uploaded page without a backend. Parsing,
+ * `@media` evaluation and output assembly run in a web worker; rendering
+ * and measuring need the DOM and run in a hidden iframe on the page. The
+ * result has the same shape as a backend response, with `url` pointing at
+ * the uploaded HTML file.
+ */
+export async function extractOffline(
+  page: UploadedPage,
+  request: ExtractRequest,
+  { onProgress, signal, timeout }: OfflineExtractOptions = {}
+): Promise<ExtractionResult> {
+  const controller = new AbortController();
+  const abort = () => controller.abort(abortError(signal!));
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort);
+  const timer = timeout
+    ? setTimeout(
+        () =>
+          controller.abort(
+            new Error(`Extraction timed out after ${formatTime(timeout)}`)
+          ),
+        timeout
+      )
+    : undefined;
+
+  const worker = new Worker(
+    new URL('./offline-extract.worker.ts', import.meta.url)
+  );
+  const startedAt = performance.now();
+  const stage = async <T>(
+    name: ExtractionProgressEvent['stage'],
+    run: () => Promise<T>,
+    viewport?: string
+  ) => {
+    const start = performance.now();
+    onProgress?.({ type: 'progress', stage: name, status: 'start', viewport });
+    const value = await run();
+    onProgress?.({
+      type: 'progress',
+      stage: name,
+      status: 'done',
+      viewport,
+      elapsed: Math.round(performance.now() - start),
+    });
+    return value;
+  };
+
+  try {
+    const options = request.options;
+    const viewports = requestViewports(request);
+
+    await stage('stylesheets', () =>
+      callWorker(
+        worker,
+        { type: 'parse', stylesheets: page.stylesheets },
+        'parsed',
+        controller.signal
+      )
+    );
+
+    const measured: ViewportMatches[] = [];
+    const times: number[] = [];
+    for (const viewport of viewports) {
+      const start = performance.now();
+      const environment = toEnvironment(viewport);
+      const matches = await stage(
+        'coverage',
+        async () => {
+          const { selectors } = await callWorker(
+            worker,
+            { type: 'candidates', environment },
+            'candidates',
+            controller.signal
+          );
+          return measureViewport(
+            page.html,
+            viewport,
+            options?.foldMultiplier ?? 1,
+            selectors,
+            controller.signal
+          );
+        },
+        viewport.name
+      );
+      measured.push({ name: viewport.name, environment, matches });
+      times.push(performance.now() - start);
+    }
+
+    const { output } = await stage('minify', () =>
+      callWorker(
+        worker,
+        {
+          type: 'assemble',
+          viewports: measured,
+          settings: {
+            includeShadows: request.includeShadows,
+            forceInclude: options?.forceInclude ?? [],
+            forceExclude: options?.forceExclude ?? [],
+            keepFontFace: options?.keepFontFace ?? true,
+          },
+        },
+        'assembled',
+        controller.signal
+      )
+    );
+
+    const result: ExtractionResult = {
+      success: true,
+      url: request.url,
+      viewport: request.viewport,
+      stylesheets: page.stylesheets
+        .map((sheet) => sheet.href)
+        .filter((href) => href !== 'inline'),
+      processingTime: Math.round(performance.now() - startedAt),
+      report: output.report,
+      options,
+      html: page.html,
+      validation: {
+        isValid: true,
+        errors: [],
+        warnings: page.missing.map(
+          (href) =>
+            `Stylesheet ${href} was not uploaded; its rules were skipped`
+        ),
+      },
+    };
+
+    const outputs = measured.map(({ name }, i) => ({
+      name,
+      result: toViewportResult(output.viewports[name], times[i]),
+    }));
+    if (options && options.viewports.length > 0) {
+      result.viewports = Object.fromEntries(
+        outputs.map(({ name, result }) => [name, result])
+      );
+      result.combined = toViewportResult(output.combined, 0);
+    } else if (request.viewport === 'both') {
+      result.mobile = outputs[0].result;
+      result.desktop = outputs[1].result;
+      result.combined = toViewportResult(output.combined, 0);
+    } else {
+      const [single] = outputs;
+      result.css = single.result.css;
+      result.size = single.result.size;
+      result.extractionTime = single.result.extractionTime;
+    }
+    return result;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+    worker.terminate();
+  }
+}
+
+/** A `file:` URL naming the uploaded page, used as the result's `url`. */
+export function uploadedPageUrl(page: UploadedPage) {
+  return `file:///${page.htmlPath.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Whether a result came from an uploaded page. The files are not kept, so
+ * it cannot be re-run; the backend would refuse the `file:` URL anyway.
+ */
+export function isUploadedPageUrl(url: string) {
+  return url.startsWith('file:');
+}
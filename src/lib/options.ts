@@ -0,0 +1,82 @@
+import type { CustomViewport, ExtractionOptions } from '@/lib/types';
+
+export const DEFAULT_EXTRACTION_OPTIONS: ExtractionOptions = {
+  viewports: [],
+  forceInclude: [],
+  forceExclude: [],
+  foldMultiplier: 1,
+  keepFontFace: true,
+};
+
+export const NEW_CUSTOM_VIEWPORT: CustomViewport = {
+  name: 'tablet',
+  width: 768,
+  height: 1024,
+  deviceScaleFactor: 2,
+};
+
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+function cleanList(values: string[]) {
+  return values.map((value) => value.trim()).filter(Boolean);
+}
+
+/** Drops blank list entries left over from editing. */
+export function normalizeOptions(
+  options: ExtractionOptions
+): ExtractionOptions {
+  return {
+    ...options,
+    viewports: options.viewports.map((vp) => ({ ...vp, name: vp.name.trim() })),
+    forceInclude: cleanList(options.forceInclude),
+    forceExclude: cleanList(options.forceExclude),
+  };
+}
+
+export function isDefaultOptions(options: ExtractionOptions) {
+  const normalized = normalizeOptions(options);
+  return (
+    normalized.viewports.length === 0 &&
+    normalized.forceInclude.length === 0 &&
+    normalized.forceExclude.length === 0 &&
+    normalized.foldMultiplier === DEFAULT_EXTRACTION_OPTIONS.foldMultiplier &&
+    normalized.keepFontFace === DEFAULT_EXTRACTION_OPTIONS.keepFontFace
+  );
+}
+
+/** Returns a readable message for each invalid option. */
+export function validateOptions(options: ExtractionOptions): string[] {
+  const errors: string[] = [];
+  const { viewports, forceExclude, foldMultiplier } = normalizeOptions(options);
+  const names = new Set<string>();
+
+  for (const vp of viewports) {
+    if (!vp.name) {
+      errors.push('Every custom viewport needs a name');
+    } else if (names.has(vp.name)) {
+      errors.push(`Duplicate viewport name "${vp.name}"`);
+    }
+    names.add(vp.name);
+    if (!(vp.width > 0 && vp.height > 0 && vp.deviceScaleFactor > 0)) {
+      errors.push(
+        `Viewport "${vp.name || 'unnamed'}" needs a positive width, height and DPR`
+      );
+    }
+  }
+
+  for (const pattern of forceExclude) {
+    const match = pattern.match(REGEX_PATTERN);
+    if (!match) continue;
+    try {
+      new RegExp(match[1], match[2]);
+    } catch {
+      errors.push(`Invalid exclude pattern ${pattern}`);
+    }
+  }
+
+  if (!(foldMultiplier > 0)) {
+    errors.push('Fold offset multiplier must be greater than 0');
+  }
+
+  return errors;
+}
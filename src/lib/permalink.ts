@@ -0,0 +1,142 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { extractionResultSchema, optionsSchema } from '@/lib/api-schema';
+import {
+  DEFAULT_EXTRACTION_OPTIONS,
+  isDefaultOptions,
+  normalizeOptions,
+} from '@/lib/options';
+import { validate } from '@/lib/schema';
+import type {
+  ExtractRequest,
+  ExtractionOptions,
+  ExtractionResult,
+  Viewport,
+} from '@/lib/types';
+
+/** The part of a request that can be shared; `auth` is never included. */
+export type SharedRequest = Pick<
+  ExtractRequest,
+  'url' | 'viewport' | 'includeShadows'
+> & { options: ExtractionOptions };
+
+export interface Permalink {
+  request: SharedRequest;
+  autoRun: boolean;
+}
+
+type SearchParams =
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+const RESULT_FRAGMENT = 'result';
+const VIEWPORTS: Viewport[] = ['mobile', 'desktop', 'both'];
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function encodeJson(value: unknown) {
+  return toBase64Url(deflateSync(strToU8(JSON.stringify(value)), { level: 9 }));
+}
+
+function decodeJson(text: string): unknown {
+  return JSON.parse(strFromU8(inflateSync(fromBase64Url(text))));
+}
+
+function getParam(params: SearchParams, name: string) {
+  if (params instanceof URLSearchParams) return params.get(name) ?? undefined;
+  const value = params[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Reads a shared configuration from the query string. Returns null when the
+ * link carries no `url`.
+ */
+export function parsePermalink(params: SearchParams): Permalink | null {
+  const url = getParam(params, 'url');
+  if (!url) return null;
+
+  const viewport = getParam(params, 'viewport') as Viewport | undefined;
+  let options = DEFAULT_EXTRACTION_OPTIONS;
+  const encodedOptions = getParam(params, 'options');
+  if (encodedOptions) {
+    try {
+      options = validate(
+        optionsSchema,
+        {
+          ...DEFAULT_EXTRACTION_OPTIONS,
+          ...(decodeJson(encodedOptions) as Partial<ExtractionOptions>),
+        },
+        'Shared options'
+      );
+    } catch {
+      // A truncated or tampered link still opens with the URL filled in.
+    }
+  }
+
+  return {
+    request: {
+      url,
+      viewport: viewport && VIEWPORTS.includes(viewport) ? viewport : 'both',
+      includeShadows: getParam(params, 'shadows') === '1',
+      options,
+    },
+    autoRun: getParam(params, 'run') === '1',
+  };
+}
+
+/** Decodes a result embedded in the `#result=` fragment, if any. */
+export function parseResultFragment(hash: string): ExtractionResult | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(
+    RESULT_FRAGMENT
+  );
+  if (!encoded) return null;
+  try {
+    return validate(
+      extractionResultSchema,
+      decodeJson(encoded),
+      'Shared result'
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds a link to `base` that restores `request`. The result goes in the
+ * fragment so it is never sent to the server; preview images and page HTML
+ * are left out to keep the link short.
+ */
+export function buildPermalink(
+  base: string,
+  request: SharedRequest,
+  { autoRun = false, result }: { autoRun?: boolean; result?: ExtractionResult }
+) {
+  const params = new URLSearchParams({ url: request.url });
+  if (request.viewport !== 'both') params.set('viewport', request.viewport);
+  if (request.includeShadows) params.set('shadows', '1');
+  const options = normalizeOptions(request.options);
+  if (!isDefaultOptions(options)) params.set('options', encodeJson(options));
+  if (autoRun) params.set('run', '1');
+
+  const link = `${base}?${params}`;
+  if (!result) return link;
+  const shared = { ...result, previews: undefined, html: undefined };
+  return `${link}#${RESULT_FRAGMENT}=${encodeJson(shared)}`;
+}
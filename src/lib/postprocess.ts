@@ -0,0 +1,286 @@
+import {
+  atRuleLabel,
+  parseCss,
+  stringifyCss,
+  type CssAtRule,
+  type CssNode,
+} from '@/lib/css';
+
+export type OutputFormat = 'original' | 'pretty' | 'minified';
+
+export interface PostProcessOptions {
+  format: OutputFormat;
+  mergeMedia: boolean;
+  dropUnusedFontFace: boolean;
+  dropUnusedKeyframes: boolean;
+  dropUnusedCustomProperties: boolean;
+  stripPrefixes: boolean;
+  /** Browserslist query used to decide which prefixes are still needed. */
+  target: string;
+}
+
+export type PostProcessStepId =
+  | 'mergeMedia'
+  | 'dropUnusedFontFace'
+  | 'dropUnusedKeyframes'
+  | 'dropUnusedCustomProperties'
+  | 'stripPrefixes'
+  | 'format';
+
+export interface PostProcessStep {
+  id: PostProcessStepId;
+  /** Bytes before and after the step. */
+  before: number;
+  after: number;
+}
+
+export interface PostProcessResult {
+  css: string;
+  steps: PostProcessStep[];
+}
+
+export const DEFAULT_POST_PROCESS: PostProcessOptions = {
+  format: 'original',
+  mergeMedia: false,
+  dropUnusedFontFace: false,
+  dropUnusedKeyframes: false,
+  dropUnusedCustomProperties: false,
+  stripPrefixes: false,
+  target: 'defaults',
+};
+
+export const STEP_LABELS: Record<PostProcessStepId, string> = {
+  mergeMedia: 'Merge adjacent @media',
+  dropUnusedFontFace: 'Drop unused @font-face',
+  dropUnusedKeyframes: 'Drop unused @keyframes',
+  dropUnusedCustomProperties: 'Drop unused custom properties',
+  stripPrefixes: 'Strip vendor prefixes',
+  format: 'Format',
+};
+
+export const TARGET_PRESETS = [
+  'defaults',
+  '> 0.5%, last 2 versions, not dead',
+  'last 2 Chrome versions, last 2 Firefox versions, last 2 Safari versions',
+  'baseline widely available',
+];
+
+export function isPostProcessEnabled(options: PostProcessOptions) {
+  return (
+    options.format !== 'original' ||
+    options.mergeMedia ||
+    options.dropUnusedFontFace ||
+    options.dropUnusedKeyframes ||
+    options.dropUnusedCustomProperties ||
+    options.stripPrefixes
+  );
+}
+
+function byteLength(text: string) {
+  return new TextEncoder().encode(text).length;
+}
+
+function unquote(value: string) {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/** Calls `visit` for every declaration outside of the skipped at-rules. */
+function walkDeclarations(
+  nodes: CssNode[],
+  visit: (property: string, value: string) => void,
+  skip: (node: CssAtRule) => boolean = () => false
+) {
+  for (const node of nodes) {
+    if (node.type === 'decl') {
+      visit(node.property.toLowerCase(), node.value);
+    } else if (node.nodes && !(node.type === 'atrule' && skip(node))) {
+      walkDeclarations(node.nodes, visit, skip);
+    }
+  }
+}
+
+/** Removes nodes for which `drop` returns true, then prunes empty blocks. */
+function removeNodes(nodes: CssNode[], drop: (node: CssNode) => boolean) {
+  return nodes.flatMap((node): CssNode[] => {
+    if (drop(node)) return [];
+    if (node.type === 'decl' || !node.nodes) return [node];
+    const children = removeNodes(node.nodes, drop);
+    return children.length > 0 ? [{ ...node, nodes: children }] : [];
+  });
+}
+
+/**
+ * Joins consecutive top-level `@media` blocks with the same query. Blocks
+ * with other rules in between stay apart, since moving their contents
+ * would change which rule wins.
+ */
+function mergeMedia(nodes: CssNode[]) {
+  const merged: CssNode[] = [];
+  for (const node of nodes) {
+    const previous = merged[merged.length - 1];
+    if (
+      node.type === 'atrule' &&
+      node.name === 'media' &&
+      node.nodes &&
+      previous?.type === 'atrule' &&
+      previous.name === 'media' &&
+      previous.nodes &&
+      atRuleLabel(previous) === atRuleLabel(node)
+    ) {
+      merged[merged.length - 1] = {
+        ...previous,
+        nodes: [...previous.nodes, ...node.nodes],
+      };
+    } else {
+      merged.push(node);
+    }
+  }
+  return merged;
+}
+
+const isFontFace = (node: CssAtRule) => node.name === 'font-face';
+const isKeyframes = (node: CssAtRule) => /^(-\w+-)?keyframes$/.test(node.name);
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function dropUnusedFontFace(nodes: CssNode[]) {
+  const values: string[] = [];
+  walkDeclarations(
+    nodes,
+    (property, value) => {
+      if (property === 'font-family' || property === 'font') {
+        values.push(value.toLowerCase());
+      }
+    },
+    isFontFace
+  );
+  // Matching the name as a token also covers the `font` shorthand, where
+  // the family list follows style, weight and size keywords.
+  const isUsed = (family: string) => {
+    const pattern = new RegExp(
+      `(^|[\\s,'"])${escapeRegExp(family)}($|[\\s,'"])`
+    );
+    return values.some((value) => pattern.test(value));
+  };
+
+  return removeNodes(nodes, (node) => {
+    if (node.type !== 'atrule' || !isFontFace(node)) return false;
+    const family = node.nodes?.find(
+      (n) => n.type === 'decl' && n.property.toLowerCase() === 'font-family'
+    );
+    return (
+      family?.type === 'decl' && !isUsed(unquote(family.value).toLowerCase())
+    );
+  });
+}
+
+function dropUnusedKeyframes(nodes: CssNode[]) {
+  const used = new Set<string>();
+  walkDeclarations(
+    nodes,
+    (property, value) => {
+      if (!/^(-\w+-)?animation(-name)?$/.test(property)) return;
+      for (const token of value.split(/[\s,]+/)) used.add(unquote(token));
+    },
+    isKeyframes
+  );
+
+  return removeNodes(
+    nodes,
+    (node) =>
+      node.type === 'atrule' &&
+      isKeyframes(node) &&
+      !used.has(unquote(node.params))
+  );
+}
+
+function dropUnusedCustomProperties(nodes: CssNode[]) {
+  let current = nodes;
+  // Removing a property can orphan the ones only it referenced.
+  for (;;) {
+    const used = new Set<string>();
+    walkDeclarations(current, (_, value) => {
+      for (const [, name] of Array.from(
+        value.matchAll(/var\(\s*(--[\w-]+)/g)
+      )) {
+        used.add(name);
+      }
+    });
+
+    let removed = false;
+    current = removeNodes(current, (node) => {
+      const unused =
+        node.type === 'decl' &&
+        node.property.startsWith('--') &&
+        !used.has(node.property);
+      removed ||= unused;
+      return unused;
+    });
+    if (!removed) return current;
+  }
+}
+
+async function stripPrefixes(css: string, target: string) {
+  const [{ default: postcss }, { default: autoprefixer }] = await Promise.all([
+    import('postcss'),
+    import('autoprefixer'),
+  ]);
+  const result = await postcss([
+    autoprefixer({ overrideBrowserslist: target, add: false }),
+  ]).process(css, { from: undefined });
+  return result.css;
+}
+
+const TREE_STEPS: [PostProcessStepId, (nodes: CssNode[]) => CssNode[]][] = [
+  ['mergeMedia', mergeMedia],
+  ['dropUnusedFontFace', dropUnusedFontFace],
+  ['dropUnusedKeyframes', dropUnusedKeyframes],
+  ['dropUnusedCustomProperties', dropUnusedCustomProperties],
+];
+
+/**
+ * Runs the enabled steps over `css` in a fixed order and records the size
+ * before and after each one. Returns the input untouched when nothing is
+ * enabled.
+ */
+export async function postProcessCss(
+  css: string,
+  options: PostProcessOptions
+): Promise<PostProcessResult> {
+  if (!isPostProcessEnabled(options)) return { css, steps: [] };
+
+  const steps: PostProcessStep[] = [];
+  let nodes = parseCss(css);
+  let size = byteLength(css);
+
+  for (const [id, run] of TREE_STEPS) {
+    if (!options[id as keyof PostProcessOptions]) continue;
+    nodes = run(nodes);
+    const after = byteLength(stringifyCss(nodes));
+    steps.push({ id, before: size, after });
+    size = after;
+  }
+
+  let output = stringifyCss(nodes);
+  if (options.stripPrefixes) {
+    output = stringifyCss(
+      parseCss(await stripPrefixes(output, options.target))
+    );
+    const after = byteLength(output);
+    steps.push({ id: 'stripPrefixes', before: size, after });
+    size = after;
+  }
+
+  if (options.format === 'original') {
+    // Without other steps the backend string is returned as-is above.
+    return { css: output, steps };
+  }
+  output =
+    options.format === 'pretty'
+      ? stringifyCss(parseCss(output), true)
+      : stringifyCss(parseCss(output));
+  steps.push({ id: 'format', before: size, after: byteLength(output) });
+  return { css: output, steps };
+}
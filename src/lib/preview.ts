@@ -0,0 +1,237 @@
+import { getCssOutputs } from '@/lib/results';
+import type { ExtractionResult, ViewportPreview } from '@/lib/types';
+
+/** Sizes of the built-in viewports, as the backend renders them. */
+export const PRESET_VIEWPORT_SIZES = {
+  mobile: { width: 360, height: 640 },
+  desktop: { width: 1366, height: 768 },
+};
+
+/** Side of the square cells differing pixels are grouped into. */
+const REGION_CELL = 16;
+const MAX_REGIONS = 50;
+
+export interface PreviewTarget extends ViewportPreview {
+  key: string;
+  /** Critical CSS for this viewport, for rendering the page locally. */
+  css: string;
+}
+
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageDiff {
+  width: number;
+  height: number;
+  /** RGBA pixels: the critical render faded, with differences in red. */
+  pixels: Uint8ClampedArray;
+  changedPixels: number;
+  /** Bounding boxes of connected areas that differ, largest first. */
+  regions: DiffRegion[];
+}
+
+interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/** Viewports of a result that have captures or can be rendered locally. */
+export function getPreviewTargets(result: ExtractionResult): PreviewTarget[] {
+  return getCssOutputs(result)
+    .filter((output) => output.kind !== 'combined')
+    .map((output) => {
+      const key = output.kind === 'single' ? result.viewport : output.key;
+      const size =
+        result.options?.viewports.find((vp) => vp.name === key) ??
+        (key === 'mobile'
+          ? PRESET_VIEWPORT_SIZES.mobile
+          : PRESET_VIEWPORT_SIZES.desktop);
+      const preview = result.previews?.[key];
+      return {
+        key,
+        css: output.css,
+        width: preview?.width ?? size.width,
+        height: preview?.height ?? size.height,
+        full: preview?.full,
+        critical: preview?.critical,
+      };
+    })
+    .filter((target) => target.full || target.critical || result.html);
+}
+
+/**
+ * Prepares page HTML for a sandboxed iframe: scripts are removed, relative
+ * URLs resolve against `baseUrl`, and with `criticalCss` every stylesheet is
+ * replaced by that CSS. Inline `style` attributes are kept either way.
+ */
+export function buildPreviewDocument(
+  html: string,
+  baseUrl: string,
+  criticalCss?: string
+) {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, noscript').forEach((el) => el.remove());
+
+  if (criticalCss !== undefined) {
+    doc
+      .querySelectorAll(
+        'style, link[rel~="stylesheet"], link[rel="preload"][as="style"]'
+      )
+      .forEach((el) => el.remove());
+    const style = doc.createElement('style');
+    style.textContent = criticalCss;
+    doc.head.prepend(style);
+  }
+
+  if (!doc.querySelector('base[href]')) {
+    const base = doc.createElement('base');
+    base.href = baseUrl;
+    doc.head.prepend(base);
+  }
+
+  return `<!DOCTYPE html>${doc.documentElement.outerHTML}`;
+}
+
+/** Groups changed cells into connected regions via flood fill. */
+function findRegions(cells: boolean[], columns: number, rows: number) {
+  const seen = new Uint8Array(cells.length);
+  const regions: DiffRegion[] = [];
+
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || seen[start]) continue;
+    let [minX, minY, maxX, maxY] = [columns, rows, 0, 0];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const x = cell % columns;
+      const y = Math.floor(cell / columns);
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+      for (const [dx, dy] of [
+        [1, 0],
+        [-1, 0],
+        [0, 1],
+        [0, -1],
+      ]) {
+        const nx = x + dx;
+        const ny = y + dy;
+        const next = ny * columns + nx;
+        if (
+          nx >= 0 &&
+          ny >= 0 &&
+          nx < columns &&
+          ny < rows &&
+          cells[next] &&
+          !seen[next]
+        ) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    regions.push({
+      x: minX * REGION_CELL,
+      y: minY * REGION_CELL,
+      width: (maxX - minX + 1) * REGION_CELL,
+      height: (maxY - minY + 1) * REGION_CELL,
+    });
+  }
+
+  return regions
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .slice(0, MAX_REGIONS);
+}
+
+/**
+ * Compares two renders pixel by pixel. A pixel differs when any channel is
+ * more than `threshold` (0-255) apart; areas covered by only one image, as
+ * after a layout shift in page height, count as different.
+ */
+export function diffImages(
+  full: Pixels,
+  critical: Pixels,
+  threshold: number
+): ImageDiff {
+  const width = Math.max(full.width, critical.width);
+  const height = Math.max(full.height, critical.height);
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const columns = Math.ceil(width / REGION_CELL);
+  const rows = Math.ceil(height / REGION_CELL);
+  const cells: boolean[] = new Array(columns * rows).fill(false);
+  let changedPixels = 0;
+
+  const channel = (image: Pixels, x: number, y: number, c: number) =>
+    x < image.width && y < image.height
+      ? image.data[(y * image.width + x) * 4 + c]
+      : -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let changed = false;
+      for (let c = 0; c < 4; c++) {
+        const a = channel(full, x, y, c);
+        const b = channel(critical, x, y, c);
+        if (a === -1 || b === -1 || Math.abs(a - b) > threshold) {
+          changed = true;
+          break;
+        }
+      }
+
+      const i = (y * width + x) * 4;
+      if (changed) {
+        changedPixels++;
+        cells[
+          Math.floor(y / REGION_CELL) * columns + Math.floor(x / REGION_CELL)
+        ] = true;
+        pixels.set([239, 68, 68, 255], i);
+      } else {
+        // Fade unchanged pixels so the red differences stand out.
+        for (let c = 0; c < 3; c++) {
+          pixels[i + c] = 128 + channel(critical, x, y, c) / 2;
+        }
+        pixels[i + 3] = 255;
+      }
+    }
+  }
+
+  return {
+    width,
+    height,
+    pixels,
+    changedPixels,
+    regions: findRegions(cells, columns, rows),
+  };
+}
+
+/**
+ * Loads an image into RGBA pixels. Remote images need CORS headers, or the
+ * canvas is tainted and reading it throws.
+ */
+export async function loadImagePixels(src: string): Promise<Pixels> {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.src = src;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  context.drawImage(image, 0, 0);
+  try {
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+  } catch {
+    throw new Error(
+      'Preview images must be data URLs or served with CORS headers to compare'
+    );
+  }
+}
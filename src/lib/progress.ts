@@ -0,0 +1,118 @@
+import type {
+  ExtractRequest,
+  ExtractionProgressEvent,
+  ExtractionStage,
+} from '@/lib/types';
+
+export const STAGE_LABELS: Record<ExtractionStage, string> = {
+  navigation: 'Navigation',
+  lcp: 'LCP stabilization',
+  stylesheets: 'Stylesheet collection',
+  coverage: 'Coverage',
+  minify: 'Minification',
+};
+
+export interface StageProgress {
+  id: string;
+  stage: ExtractionStage;
+  viewport?: string;
+  status: 'pending' | 'active' | 'done';
+  startedAt?: number;
+  /** Accumulated duration in ms of all finished runs of this stage. */
+  elapsed: number;
+}
+
+function stageId(stage: ExtractionStage, viewport?: string) {
+  return viewport ? `${stage}:${viewport}` : stage;
+}
+
+/** The stages we expect the backend to report for a request. */
+export function planStages({
+  viewport,
+  options,
+}: ExtractRequest): StageProgress[] {
+  const customViewports = options?.viewports.map((vp) => vp.name) ?? [];
+  const coverageViewports =
+    customViewports.length > 0
+      ? customViewports
+      : viewport === 'both'
+        ? ['mobile', 'desktop']
+        : [viewport];
+  const stages: Omit<StageProgress, 'id' | 'status' | 'elapsed'>[] = [
+    { stage: 'navigation' },
+    { stage: 'lcp' },
+    { stage: 'stylesheets' },
+    ...coverageViewports.map((vp) => ({
+      stage: 'coverage' as const,
+      viewport: vp,
+    })),
+    { stage: 'minify' },
+  ];
+  return stages.map((s) => ({
+    ...s,
+    id: stageId(s.stage, s.viewport),
+    status: 'pending',
+    elapsed: 0,
+  }));
+}
+
+/**
+ * Folds a streamed progress event into the stage list. Events for a viewport
+ * the plan does not split on fall back to the stage's shared entry, and
+ * unknown stages are appended.
+ */
+export function applyProgressEvent(
+  stages: StageProgress[],
+  event: ExtractionProgressEvent,
+  now: number
+): StageProgress[] {
+  let index = stages.findIndex(
+    (s) => s.id === stageId(event.stage, event.viewport)
+  );
+  if (index === -1) {
+    index = stages.findIndex((s) => s.stage === event.stage && !s.viewport);
+  }
+
+  const next = [...stages];
+  if (index === -1) {
+    next.push({
+      id: stageId(event.stage, event.viewport),
+      stage: event.stage,
+      viewport: event.viewport,
+      status: 'pending',
+      elapsed: 0,
+    });
+    index = next.length - 1;
+  }
+
+  const current = next[index];
+  if (event.status === 'start') {
+    next[index] = { ...current, status: 'active', startedAt: now };
+  } else {
+    const duration =
+      event.elapsed ?? (current.startedAt ? now - current.startedAt : 0);
+    next[index] = {
+      ...current,
+      status: 'done',
+      startedAt: undefined,
+      elapsed: current.elapsed + duration,
+    };
+  }
+  return next;
+}
+
+export function getStageLabel({ stage, viewport }: StageProgress) {
+  return viewport
+    ? `${STAGE_LABELS[stage]} (${viewport})`
+    : STAGE_LABELS[stage];
+}
+
+export function getProgressPercent(stages: StageProgress[]) {
+  if (stages.length === 0) return 0;
+  const weight = stages.reduce(
+    (sum, s) =>
+      sum + (s.status === 'done' ? 1 : s.status === 'active' ? 0.5 : 0),
+    0
+  );
+  return (weight / stages.length) * 100;
+}
@@ -0,0 +1,157 @@
+import { DEFAULT_BUDGETS, type SizeBudgets } from '@/lib/budgets';
+import { PROJECTS_STORE, withStore } from '@/lib/db';
+import {
+  isHistoryEntry,
+  toStoredEntries,
+  type HistoryEntry,
+} from '@/lib/history';
+import { DEFAULT_EXTRACTION_OPTIONS } from '@/lib/options';
+import type { ExtractionOptions, Viewport } from '@/lib/types';
+
+export interface Project {
+  id: string;
+  name: string;
+  /** Scheme and host the page paths are resolved against. */
+  origin: string;
+  /** Paths such as `/` or `/pricing`, in the order they were entered. */
+  paths: string[];
+  viewport: Viewport;
+  includeShadows: boolean;
+  options: ExtractionOptions;
+  budgets: SizeBudgets;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Form settings a project restores when it is selected. */
+export type ProjectSettings = Pick<
+  Project,
+  'viewport' | 'includeShadows' | 'options' | 'budgets'
+>;
+
+interface ProjectsExport {
+  version: 1;
+  exportedAt: string;
+  projects: Project[];
+  history: HistoryEntry[];
+}
+
+export function createProject(name: string, origin = ''): Project {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    origin,
+    paths: ['/'],
+    viewport: 'both',
+    includeShadows: false,
+    options: DEFAULT_EXTRACTION_OPTIONS,
+    budgets: DEFAULT_BUDGETS,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Reduces a URL to its origin; returns null when it is not http(s). */
+export function normalizeOrigin(value: string) {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url.origin
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function normalizePaths(text: string) {
+  const paths = text
+    .split('\n')
+    .map((path) => path.trim())
+    .filter(Boolean)
+    .map((path) => (path.startsWith('/') ? path : `/${path}`));
+  return Array.from(new Set(paths));
+}
+
+export function projectUrl(project: Project, path = project.paths[0] ?? '/') {
+  return project.origin ? new URL(path, project.origin).toString() : '';
+}
+
+/** All projects, alphabetically. */
+export async function listProjects(): Promise<Project[]> {
+  const projects = await withStore<Project[]>(
+    PROJECTS_STORE,
+    'readonly',
+    (store) => store.getAll()
+  );
+  return projects.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveProject(project: Project) {
+  await withStore(PROJECTS_STORE, 'readwrite', (store) =>
+    store.put({ ...project, updatedAt: Date.now() })
+  );
+}
+
+export async function deleteProject(id: string) {
+  await withStore(PROJECTS_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/** Exports projects together with the history entries that belong to them. */
+export function serializeProjects(
+  projects: Project[],
+  entries: HistoryEntry[]
+) {
+  const ids = new Set(projects.map((project) => project.id));
+  const data: ProjectsExport = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    projects,
+    history: entries.filter(
+      (entry) => entry.projectId !== undefined && ids.has(entry.projectId)
+    ),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+function isProject(value: unknown): value is Project {
+  const project = value as Project;
+  return (
+    typeof project === 'object' &&
+    project !== null &&
+    typeof project.id === 'string' &&
+    typeof project.name === 'string' &&
+    typeof project.origin === 'string' &&
+    Array.isArray(project.paths)
+  );
+}
+
+/**
+ * Parses an exported projects file. Settings missing from older exports
+ * fall back to the defaults.
+ */
+export function parseProjects(json: string): {
+  projects: Project[];
+  history: HistoryEntry[];
+} {
+  const data = JSON.parse(json);
+  const projects: unknown[] = data?.projects;
+  const history: unknown[] = data?.history ?? [];
+  if (
+    !Array.isArray(projects) ||
+    !projects.every(isProject) ||
+    !Array.isArray(history) ||
+    !history.every(isHistoryEntry)
+  ) {
+    throw new Error('Not a valid projects export');
+  }
+  return {
+    projects: projects.map((project) => ({
+      ...createProject(project.name),
+      ...project,
+      options: { ...DEFAULT_EXTRACTION_OPTIONS, ...project.options },
+      budgets: { ...DEFAULT_BUDGETS, ...project.budgets },
+    })),
+    history: toStoredEntries(history),
+  };
+}
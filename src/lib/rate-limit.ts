@@ -0,0 +1,75 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the current window resets. */
+  resetIn: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window counter per key, held in memory. Each server instance counts
+ * on its own, which is enough to stop a single client hammering the backend.
+ */
+export function createRateLimiter(limit: number, windowMs: number) {
+  const windows = new Map<string, Window>();
+
+  const prune = (now: number) => {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  };
+
+  return function check(key: string, now = Date.now()): RateLimitResult {
+    if (windows.size > 10000) prune(now);
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    const allowed = window.count < limit;
+    if (allowed) window.count++;
+    return {
+      allowed,
+      limit,
+      remaining: limit - window.count,
+      resetIn: Math.ceil((window.resetAt - now) / 1000),
+    };
+  };
+}
+
+type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+// Shared by every route that starts an extraction; route modules may be
+// loaded more than once.
+const globalLimits = globalThis as typeof globalThis & {
+  extractionRateLimiter?: RateLimiter | null;
+};
+
+/**
+ * The per-client limit on extractions from `RATE_LIMIT_PER_MINUTE`, or
+ * `null` when it is unset or 0 and extractions are not limited.
+ */
+export function getExtractionRateLimiter() {
+  if (globalLimits.extractionRateLimiter === undefined) {
+    const perMinute = Number(process.env.RATE_LIMIT_PER_MINUTE) || 0;
+    globalLimits.extractionRateLimiter =
+      perMinute > 0 ? createRateLimiter(perMinute, 60 * 1000) : null;
+  }
+  return globalLimits.extractionRateLimiter;
+}
+
+export function rateLimitHeaders(result: RateLimitResult) {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.resetIn),
+  };
+  if (!result.allowed) headers['Retry-After'] = String(result.resetIn);
+  return headers;
+}
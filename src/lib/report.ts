@@ -0,0 +1,147 @@
+import type {
+  CoverageReason,
+  CoverageReport,
+  DroppedReason,
+  KeptReason,
+} from '@/lib/types';
+
+export const KEPT_REASON_LABELS: Record<KeptReason, string> = {
+  'matched-in-viewport': 'Matched in viewport',
+  forced: 'Forced',
+  'font-face': '@font-face',
+  keyframes: '@keyframes',
+  'variable-dependency': 'Variable dependency',
+};
+
+export const DROPPED_REASON_LABELS: Record<DroppedReason, string> = {
+  'below-fold': 'Below the fold',
+  'no-match': 'No match',
+  excluded: 'Excluded',
+};
+
+export const REASON_LABELS: Record<KeptReason | DroppedReason, string> = {
+  ...KEPT_REASON_LABELS,
+  ...DROPPED_REASON_LABELS,
+};
+
+/** Label for a rule's reason; reasons this frontend does not know are "Other". */
+export function reasonLabel(reason: string) {
+  return Object.prototype.hasOwnProperty.call(REASON_LABELS, reason)
+    ? REASON_LABELS[reason as KeptReason | DroppedReason]
+    : 'Other';
+}
+
+export interface ReportRow {
+  id: number;
+  status: 'kept' | 'dropped';
+  reason: CoverageReason<KeptReason | DroppedReason>;
+  selector: string;
+  stylesheet: string;
+  media?: string;
+  size: number;
+  matchedElements: number;
+  viewports: string[];
+}
+
+export type ReportSortKey =
+  | 'selector'
+  | 'stylesheet'
+  | 'matchedElements'
+  | 'size';
+
+export interface ReportFilter {
+  query: string;
+  status: 'all' | 'kept' | 'dropped';
+  reason: 'all' | KeptReason | DroppedReason;
+  stylesheet: 'all' | string;
+}
+
+export interface StylesheetSummary {
+  stylesheet: string;
+  totalSize: number;
+  criticalSize: number;
+  keptRules: number;
+  totalRules: number;
+}
+
+/** Flattens kept and dropped rules into one list for the report table. */
+export function getReportRows(report: CoverageReport): ReportRow[] {
+  const kept = report.kept.map((rule) => ({
+    ...rule,
+    status: 'kept' as const,
+    viewports: rule.viewports ?? [],
+  }));
+  const dropped = report.dropped.map((rule) => ({
+    ...rule,
+    status: 'dropped' as const,
+    matchedElements: 0,
+    viewports: [],
+  }));
+  return [...kept, ...dropped].map((row, id) => ({ ...row, id }));
+}
+
+export function filterReportRows(rows: ReportRow[], filter: ReportFilter) {
+  const query = filter.query.trim().toLowerCase();
+  return rows.filter(
+    (row) =>
+      (filter.status === 'all' || row.status === filter.status) &&
+      (filter.reason === 'all' || row.reason === filter.reason) &&
+      (filter.stylesheet === 'all' || row.stylesheet === filter.stylesheet) &&
+      (!query ||
+        row.selector.toLowerCase().includes(query) ||
+        row.media?.toLowerCase().includes(query))
+  );
+}
+
+export function sortReportRows(
+  rows: ReportRow[],
+  key: ReportSortKey,
+  direction: 'asc' | 'desc'
+) {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const order =
+      key === 'selector' || key === 'stylesheet'
+        ? a[key].localeCompare(b[key])
+        : a[key] - b[key];
+    return order * sign || a.id - b.id;
+  });
+}
+
+/** Original vs critical bytes per stylesheet, largest sheet first. */
+export function summarizeStylesheets(
+  report: CoverageReport
+): StylesheetSummary[] {
+  const summaries = new Map<string, StylesheetSummary>();
+  const get = (stylesheet: string) => {
+    let summary = summaries.get(stylesheet);
+    if (!summary) {
+      summary = {
+        stylesheet,
+        totalSize: 0,
+        criticalSize: 0,
+        keptRules: 0,
+        totalRules: 0,
+      };
+      summaries.set(stylesheet, summary);
+    }
+    return summary;
+  };
+
+  for (const rule of report.kept) {
+    const summary = get(rule.stylesheet);
+    summary.totalSize += rule.size;
+    summary.criticalSize += rule.size;
+    summary.keptRules++;
+    summary.totalRules++;
+  }
+  for (const rule of report.dropped) {
+    const summary = get(rule.stylesheet);
+    summary.totalSize += rule.size;
+    summary.totalRules++;
+  }
+
+  return Array.from(summaries.values()).sort(
+    (a, b) => b.totalSize - a.totalSize
+  );
+}
@@ -0,0 +1,193 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import type { ExtractRequest } from '@/lib/types';
+
+/** A request the extract route refuses; `status` is sent to the client. */
+export class RequestGuardError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400
+  ) {
+    super(message);
+    this.name = 'RequestGuardError';
+  }
+}
+
+/** Hostnames that only resolve inside a private network. */
+const PRIVATE_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan'];
+
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+function ipv4ToInt(address: string) {
+  return address
+    .split('.')
+    .reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function inIpv4Range(address: string, [base, bits]: [string, number]) {
+  const size = 2 ** (32 - bits);
+  return Math.floor(ipv4ToInt(address) / size) === ipv4ToInt(base) / size;
+}
+
+/** Expands an IPv6 address into its eight 16-bit groups. */
+function ipv6Groups(address: string) {
+  let ip = address.toLowerCase().replace(/%.*$/, '');
+  // A trailing dotted quad (`::ffff:10.0.0.1`) becomes two groups.
+  const v4 = ip.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const n = ipv4ToInt(v4[1]);
+    ip = ip.replace(
+      v4[1],
+      `${Math.floor(n / 65536).toString(16)}:${(n % 65536).toString(16)}`
+    );
+  }
+  const [head, tail] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const fill =
+    tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length);
+  return [...headGroups, ...fill.fill('0'), ...tailGroups].map((group) =>
+    parseInt(group, 16)
+  );
+}
+
+function groupsToIpv4(high: number, low: number) {
+  const n = high * 65536 + low;
+  return [n >>> 24, (n >>> 16) & 255, (n >>> 8) & 255, n & 255].join('.');
+}
+
+/**
+ * The IPv4 address carried by an IPv4-mapped (`::ffff:0:0/96`),
+ * IPv4-compatible (`::/96`), NAT64 (`64:ff9b::/96`) or 6to4 (`2002::/16`)
+ * IPv6 address, which routes to that IPv4 host.
+ */
+function embeddedIpv4(groups: number[]) {
+  const zeroes = (from: number, to: number) =>
+    groups.slice(from, to).every((group) => group === 0);
+  if (zeroes(0, 5) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return groupsToIpv4(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && zeroes(2, 6)) {
+    return groupsToIpv4(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x2002) return groupsToIpv4(groups[1], groups[2]);
+  return null;
+}
+
+/**
+ * True for loopback, private, link-local, carrier-grade NAT, documentation,
+ * multicast and reserved addresses, including IPv6 forms that embed one.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) {
+    return PRIVATE_IPV4_RANGES.some((range) => inIpv4Range(address, range));
+  }
+  if (version !== 6) return true;
+
+  const groups = ipv6Groups(address);
+  const ipv4 = embeddedIpv4(groups);
+  if (ipv4) return isPrivateAddress(ipv4);
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local
+    (groups[0] & 0xff00) === 0xff00 || // multicast
+    (groups[0] === 0x2001 && groups[1] === 0x0db8) // documentation
+  );
+}
+
+/**
+ * Parses a target URL the way the backend will load it: http(s) only, no
+ * embedded credentials, no fragment, and a lower-cased host without the
+ * default port.
+ */
+export function normalizeTargetUrl(value: string) {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new RequestGuardError('url must be an absolute http(s) URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new RequestGuardError('url must use http or https');
+  }
+  if (url.username || url.password) {
+    throw new RequestGuardError(
+      'url must not contain credentials; use the authentication options'
+    );
+  }
+  url.hash = '';
+  return url.toString();
+}
+
+/**
+ * Rejects URLs whose host is, or resolves to, a private address. The backend
+ * resolves the name again when it loads the page, so this narrows rather
+ * than closes the DNS-rebinding window.
+ */
+export async function assertPublicTarget(value: string) {
+  const hostname = new URL(value).hostname.replace(/^\[|\]$/g, '');
+  if (
+    hostname === 'localhost' ||
+    PRIVATE_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+  ) {
+    throw new RequestGuardError('url must point to a public host', 403);
+  }
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true })).map(
+        (entry) => entry.address
+      );
+    } catch {
+      throw new RequestGuardError(`Could not resolve host ${hostname}`);
+    }
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new RequestGuardError('url must point to a public host', 403);
+  }
+}
+
+/**
+ * Checks the shape of an extract request body and normalizes its URL. Only
+ * the known fields are forwarded; anything else in the body is dropped.
+ */
+export function parseExtractRequest(body: unknown): ExtractRequest {
+  const request = body as ExtractRequest;
+  if (typeof request !== 'object' || request === null) {
+    throw new RequestGuardError('Request body must be a JSON object');
+  }
+  if (typeof request.url !== 'string') {
+    throw new RequestGuardError('url is required');
+  }
+  if (!['mobile', 'desktop', 'both'].includes(request.viewport)) {
+    throw new RequestGuardError('viewport must be mobile, desktop or both');
+  }
+  const { viewport, includeShadows, options, auth, requestId } = request;
+  return {
+    url: normalizeTargetUrl(request.url),
+    viewport,
+    includeShadows,
+    options,
+    auth,
+    requestId,
+  };
+}
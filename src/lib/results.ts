@@ -0,0 +1,44 @@
+import type { ExtractionResult } from '@/lib/types';
+
+export interface ResultOutput {
+  /** Tab and file name key; custom viewports use their name. */
+  key: string;
+  kind: 'combined' | 'mobile' | 'desktop' | 'custom' | 'single';
+  css: string;
+  size: number;
+  extractionTime?: number;
+}
+
+/** Every CSS payload in a result, in the order the result tabs show them. */
+export function getCssOutputs(result: ExtractionResult): ResultOutput[] {
+  const outputs: ResultOutput[] = [];
+  // Merged from the viewport outputs, so it has no extraction time of its own.
+  if (result.combined) {
+    const { css, size } = result.combined;
+    outputs.push({ key: 'combined', kind: 'combined', css, size });
+  }
+  if (result.mobile) {
+    outputs.push({ key: 'mobile', kind: 'mobile', ...result.mobile });
+  }
+  if (result.desktop) {
+    outputs.push({ key: 'desktop', kind: 'desktop', ...result.desktop });
+  }
+  for (const [name, output] of Object.entries(result.viewports ?? {})) {
+    outputs.push({ key: name, kind: 'custom', ...output });
+  }
+  // `css` is the single-viewport payload; skip it next to per-viewport output.
+  if (result.css && outputs.length === 0) {
+    outputs.push({
+      key: 'single',
+      kind: 'single',
+      css: result.css,
+      size: result.size ?? 0,
+      extractionTime: result.extractionTime,
+    });
+  }
+  return outputs;
+}
+
+export function getResultSize(result: ExtractionResult) {
+  return result.combined?.size ?? result.size ?? 0;
+}
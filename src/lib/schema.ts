@@ -0,0 +1,169 @@
+/**
+ * Minimal runtime schemas for data that crosses a trust boundary, such as
+ * backend responses. Schemas only check shape; unknown keys are allowed so
+ * newer backends can add fields without breaking older frontends.
+ */
+
+export interface SchemaIssue {
+  /** Dotted path to the offending value, e.g. `report.kept[3].reason`. */
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  /** Phantom field carrying the validated type; never set. */
+  readonly _type?: T;
+}
+
+/** Issues beyond this many are summarized as a count. */
+const MAX_LISTED_ISSUES = 3;
+
+export class SchemaError extends Error {
+  constructor(
+    label: string,
+    readonly issues: SchemaIssue[]
+  ) {
+    const listed = issues
+      .slice(0, MAX_LISTED_ISSUES)
+      .map((issue) => (issue.path ? `${issue.path}: ` : '') + issue.message);
+    const more = issues.length - listed.length;
+    super(
+      `${label} did not match the expected format: ${listed.join('; ')}` +
+        (more > 0 ? ` (and ${more} more)` : '')
+    );
+    this.name = 'SchemaError';
+  }
+}
+
+function describe(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number) {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (
+        typeof value !== type ||
+        (type === 'number' && !Number.isFinite(value))
+      ) {
+        issues.push({
+          path,
+          message: `expected ${type}, got ${describe(value)}`,
+        });
+      }
+    },
+  };
+}
+
+export const string = () => primitive<string>('string');
+export const number = () => primitive<number>('number');
+export const boolean = () => primitive<boolean>('boolean');
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (!values.includes(value as T)) {
+        issues.push({
+          path,
+          message: `expected one of ${values.map((v) => `"${v}"`).join(', ')}, got ${
+            typeof value === 'string' ? `"${value}"` : describe(value)
+          }`,
+        });
+      }
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check(value, path, issues) {
+      if (value !== undefined && value !== null) {
+        schema.check(value, path, issues);
+      }
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `expected array, got ${describe(value)}`,
+        });
+        return;
+      }
+      value.forEach((entry, index) =>
+        item.check(entry, joinPath(path, index), issues)
+      );
+    },
+  };
+}
+
+export function record<T>(entry: Schema<T>): Schema<Record<string, T>> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `expected object, got ${describe(value)}`,
+        });
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        entry.check(item, joinPath(path, key), issues);
+      }
+    },
+  };
+}
+
+/** Every key of `T` needs a schema; wrap optional ones in `optional()`. */
+export function object<T>(shape: {
+  [K in keyof T]-?: Schema<T[K]>;
+}): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `expected object, got ${describe(value)}`,
+        });
+        return;
+      }
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        shape[key].check(
+          (value as Record<string, unknown>)[key],
+          joinPath(path, key),
+          issues
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Returns `value` typed as `T`, or throws a `SchemaError` naming the first
+ * few mismatches. `label` describes the value, e.g. "Backend response".
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, label: string) {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, '', issues);
+  if (issues.length > 0) throw new SchemaError(label, issues);
+  return value as T;
+}
+
+/** Like `validate`, but answers with a boolean instead of throwing. */
+export function matches<T>(schema: Schema<T>, value: unknown): value is T {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, '', issues);
+  return issues.length === 0;
+}
@@ -0,0 +1,101 @@
+export type ShortcutId =
+  | 'palette'
+  | 'run'
+  | 'cancel'
+  | 'result-tab'
+  | 'copy'
+  | 'download'
+  | 'history'
+  | 'advanced'
+  | 'theme'
+  | 'help';
+
+export interface Shortcut {
+  id: ShortcutId;
+  /** Keys as shown in the cheat sheet; `Mod` is ⌘ on macOS, else Ctrl. */
+  keys: string[];
+  description: string;
+  /** Also fires while typing in a field. */
+  global?: boolean;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  {
+    id: 'palette',
+    keys: ['Mod', 'K'],
+    description: 'Open the command palette',
+    global: true,
+  },
+  {
+    id: 'run',
+    keys: ['Mod', 'Enter'],
+    description: 'Run the extraction',
+    global: true,
+  },
+  { id: 'cancel', keys: ['Esc'], description: 'Cancel a running extraction' },
+  { id: 'result-tab', keys: ['1–9'], description: 'Switch to a result tab' },
+  { id: 'copy', keys: ['C'], description: 'Copy the CSS of the active tab' },
+  {
+    id: 'download',
+    keys: ['D'],
+    description: 'Download the CSS of the active tab',
+  },
+  { id: 'history', keys: ['H'], description: 'Jump to the history' },
+  { id: 'advanced', keys: ['A'], description: 'Open the advanced options' },
+  { id: 'theme', keys: ['T'], description: 'Toggle light and dark theme' },
+  { id: 'help', keys: ['?'], description: 'Show the keyboard shortcuts' },
+];
+
+export function isMacPlatform() {
+  return (
+    typeof navigator !== 'undefined' &&
+    /mac|iphone|ipad/i.test(navigator.platform || navigator.userAgent)
+  );
+}
+
+export function formatKey(key: string, mac = isMacPlatform()) {
+  if (key !== 'Mod') return key;
+  return mac ? '⌘' : 'Ctrl';
+}
+
+/** Whether keys typed now go into a field rather than to the page. */
+export function isEditableTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+    target.closest('[role="dialog"], [role="listbox"], [role="menu"]') !== null
+  );
+}
+
+/**
+ * Maps a keydown to a shortcut and, for `result-tab`, the tab index.
+ * Single-key shortcuts are ignored while typing, with a modifier held or
+ * inside dialogs and menus.
+ */
+export function matchShortcut(
+  event: KeyboardEvent
+): { id: ShortcutId; index?: number } | null {
+  const mod = event.metaKey || event.ctrlKey;
+  if (mod && !event.altKey && !event.shiftKey) {
+    if (event.key.toLowerCase() === 'k') return { id: 'palette' };
+    if (event.key === 'Enter') return { id: 'run' };
+    return null;
+  }
+  if (mod || event.altKey || isEditableTarget(event.target)) return null;
+
+  if (event.key === 'Escape') return { id: 'cancel' };
+  if (event.key === '?') return { id: 'help' };
+  if (/^[1-9]$/.test(event.key)) {
+    return { id: 'result-tab', index: Number(event.key) - 1 };
+  }
+  const byKey: Record<string, ShortcutId> = {
+    c: 'copy',
+    d: 'download',
+    h: 'history',
+    a: 'advanced',
+    t: 'theme',
+  };
+  const id = event.shiftKey ? undefined : byKey[event.key.toLowerCase()];
+  return id ? { id } : null;
+}
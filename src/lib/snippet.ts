@@ -0,0 +1,124 @@
+import type { ExtractionResult } from '@/lib/types';
+
+export type StylesheetLoading = 'preload' | 'media-print';
+
+export interface SnippetOptions {
+  stylesheets: string[];
+  loading: StylesheetLoading;
+  /** CSP nonce added to every generated `<style>` and `<script>`. */
+  nonce?: string;
+  /** Emit media-scoped mobile and desktop blocks instead of one block. */
+  splitViewports: boolean;
+  /** First desktop width in px when splitting viewports. */
+  breakpoint: number;
+}
+
+export const DEFAULT_BREAKPOINT = 768;
+
+export function escapeAttribute(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;');
+}
+
+/** Keeps CSS from closing the surrounding `<style>` element early. */
+export function escapeStyleContent(css: string) {
+  return css.replace(/<\/(style)/gi, '<\\/$1');
+}
+
+function styleTag(css: string, nonce?: string, media?: string) {
+  const attrs = [
+    media && `media="${escapeAttribute(media)}"`,
+    nonce && `nonce="${escapeAttribute(nonce)}"`,
+  ].filter(Boolean);
+  const open = attrs.length ? `<style ${attrs.join(' ')}>` : '<style>';
+  return `${open}${escapeStyleContent(css)}</style>`;
+}
+
+export function canSplitViewports(result: ExtractionResult) {
+  return Boolean(
+    result.mobile && result.desktop && result.mobile.css !== result.desktop.css
+  );
+}
+
+export function getCriticalCss(result: ExtractionResult) {
+  return (
+    result.combined?.css ??
+    result.css ??
+    result.mobile?.css ??
+    result.desktop?.css ??
+    ''
+  );
+}
+
+function criticalStyles(result: ExtractionResult, options: SnippetOptions) {
+  if (options.splitViewports && canSplitViewports(result)) {
+    return [
+      styleTag(
+        result.mobile!.css,
+        options.nonce,
+        `(max-width: ${options.breakpoint - 1}px)`
+      ),
+      styleTag(
+        result.desktop!.css,
+        options.nonce,
+        `(min-width: ${options.breakpoint}px)`
+      ),
+    ];
+  }
+  return [styleTag(getCriticalCss(result), options.nonce)];
+}
+
+/**
+ * Inline `onload` handlers are blocked by a nonce-based CSP, so with a nonce
+ * the swap is wired up by a nonce'd script instead.
+ */
+function asyncStylesheets(options: SnippetOptions) {
+  const { stylesheets, loading, nonce } = options;
+  const preload = loading === 'preload';
+  const swap = preload
+    ? "this.onload=null;this.rel='stylesheet'"
+    : "this.onload=null;this.media='all'";
+
+  const links = stylesheets.map((href) => {
+    const base = preload
+      ? `<link rel="preload" href="${escapeAttribute(href)}" as="style"`
+      : `<link rel="stylesheet" href="${escapeAttribute(href)}" media="print"`;
+    return nonce ? `${base} data-critical-async>` : `${base} onload="${swap}">`;
+  });
+
+  if (nonce && stylesheets.length > 0) {
+    const apply = preload ? "l.rel='stylesheet'" : "l.media='all'";
+    links.push(
+      `<script nonce="${escapeAttribute(nonce)}">` +
+        "document.querySelectorAll('link[data-critical-async]').forEach(function(l){" +
+        `function s(){${apply}}` +
+        (preload ? '' : 'if(l.sheet){s();return}') +
+        "l.addEventListener('load',s)})</script>"
+    );
+  }
+  return links;
+}
+
+/** Builds a `<head>` snippet that inlines critical CSS and defers the rest. */
+export function buildHeadSnippet(
+  result: ExtractionResult,
+  options: SnippetOptions
+) {
+  const lines = ['<!-- Critical CSS -->', ...criticalStyles(result, options)];
+
+  if (options.stylesheets.length > 0) {
+    lines.push(
+      '<!-- Full stylesheets, loaded without blocking render -->',
+      ...asyncStylesheets(options),
+      '<noscript>',
+      ...options.stylesheets.map(
+        (href) => `  <link rel="stylesheet" href="${escapeAttribute(href)}">`
+      ),
+      '</noscript>'
+    );
+  }
+
+  return lines.join('\n');
+}
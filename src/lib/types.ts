@@ -0,0 +1,167 @@
+export type Viewport = 'mobile' | 'desktop' | 'both';
+
+export interface ViewportResult {
+  css: string;
+  size: number;
+  extractionTime: number;
+}
+
+export interface CustomViewport {
+  name: string;
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+}
+
+export interface ExtractionOptions {
+  /** When non-empty, these replace the built-in mobile/desktop sizes. */
+  viewports: CustomViewport[];
+  /** Selectors always kept, e.g. cookie banners or menus opened by JS. */
+  forceInclude: string[];
+  /** Selectors or `/regex/flags` patterns that are never kept. */
+  forceExclude: string[];
+  /** Fold position as a multiple of the viewport height. */
+  foldMultiplier: number;
+  keepFontFace: boolean;
+}
+
+/** Why the backend kept a rule in the critical CSS. */
+export type KeptReason =
+  | 'matched-in-viewport'
+  | 'forced'
+  | 'font-face'
+  | 'keyframes'
+  | 'variable-dependency';
+
+/** Why the backend left a rule out of the critical CSS. */
+export type DroppedReason = 'below-fold' | 'no-match' | 'excluded';
+
+/**
+ * A known reason, or any other string a newer backend may send; those are
+ * shown as "Other".
+ */
+export type CoverageReason<T extends string> = T | (string & {});
+
+interface RuleReportBase {
+  /** Selector, or the at-rule label for `@font-face` and `@keyframes`. */
+  selector: string;
+  /** Source stylesheet URL, or `inline` for `<style>` blocks. */
+  stylesheet: string;
+  /** Enclosing conditional at-rules, e.g. `@media (min-width: 768px)`. */
+  media?: string;
+  /** Minified size of the rule in bytes. */
+  size: number;
+}
+
+export interface KeptRule extends RuleReportBase {
+  reason: CoverageReason<KeptReason>;
+  /** Above-the-fold elements matched across all viewports. */
+  matchedElements: number;
+  /** Viewports in which the rule was needed. */
+  viewports?: string[];
+}
+
+export interface DroppedRule extends RuleReportBase {
+  reason: CoverageReason<DroppedReason>;
+}
+
+export interface CoverageReport {
+  kept: KeptRule[];
+  dropped: DroppedRule[];
+}
+
+/**
+ * Above-the-fold captures of one viewport, each a data URL or an absolute
+ * image URL served with CORS headers so it can be diffed in a canvas.
+ */
+export interface ViewportPreview {
+  width: number;
+  height: number;
+  /** The page rendered with all of its stylesheets. */
+  full?: string;
+  /** The page rendered with only the critical CSS. */
+  critical?: string;
+}
+
+export interface ExtractionResult {
+  success: boolean;
+  url: string;
+  viewport: Viewport;
+  css?: string;
+  size?: number;
+  extractionTime?: number;
+  mobile?: ViewportResult;
+  desktop?: ViewportResult;
+  /** Per-viewport output when custom viewports were requested. */
+  viewports?: Record<string, ViewportResult>;
+  combined?: { css: string; size: number };
+  /** URLs of the page's original stylesheets, in document order. */
+  stylesheets?: string[];
+  processingTime?: number;
+  /** Per-rule explanation of the output; sent by newer backends. */
+  report?: CoverageReport;
+  /** Advanced options the extraction ran with. */
+  options?: ExtractionOptions;
+  /** Captures keyed like the CSS outputs: `mobile`, `desktop` or a name. */
+  previews?: Record<string, ViewportPreview>;
+  /** Page HTML as loaded, for rendering a critical-only preview locally. */
+  html?: string;
+  validation?: {
+    isValid: boolean;
+    errors: string[];
+    warnings: string[];
+  };
+}
+
+export interface RequestCookie {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  /** Unix time in seconds; omitted for session cookies. */
+  expires?: number;
+}
+
+/**
+ * Credentials forwarded to the backend for pages behind a login. Never
+ * persisted in history or shareable links.
+ */
+export interface AuthOptions {
+  headers: { name: string; value: string }[];
+  cookies: RequestCookie[];
+  basicAuth?: { username: string; password: string };
+  userAgent?: string;
+}
+
+export interface ExtractRequest {
+  url: string;
+  viewport: Viewport;
+  includeShadows: boolean;
+  options?: ExtractionOptions;
+  auth?: AuthOptions;
+  /** Client-generated id the backend uses to match a later cancel call. */
+  requestId?: string;
+}
+
+export type ExtractionStage =
+  | 'navigation'
+  | 'lcp'
+  | 'stylesheets'
+  | 'coverage'
+  | 'minify';
+
+/**
+ * Progress message streamed by the backend while an extraction runs, either
+ * as one NDJSON line or as the data of a Server-Sent Event.
+ */
+export interface ExtractionProgressEvent {
+  type: 'progress';
+  stage: ExtractionStage;
+  status: 'start' | 'done';
+  /** `mobile`, `desktop` or the name of a custom viewport. */
+  viewport?: string;
+  /** Backend-measured stage duration in ms, sent with `done`. */
+  elapsed?: number;
+}
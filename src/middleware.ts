@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { FORWARDING_HEADERS, trustedProxyCount } from '@/lib/client-ip';
+
+/**
+ * With no trusted proxy in front, forwarding headers can only come from the
+ * client. Dropping them makes Next.js fill in `X-Forwarded-For` with the
+ * socket's peer address, which the API rate limiters key on.
+ */
+export function middleware(request: NextRequest) {
+  if (trustedProxyCount() > 0) return NextResponse.next();
+  const headers = new Headers(request.headers);
+  for (const name of FORWARDING_HEADERS) headers.delete(name);
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = { matcher: '/api/:path*' };